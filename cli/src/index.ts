@@ -1,10 +1,10 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { RookProtocol } from '@rook-protocol/sdk';
+import { RookProtocol, ChallengeGuard } from '@rook-protocol/sdk';
 import chalk from 'chalk';
 import ora from 'ora';
-import { loadConfig, formatUSDC, formatScore, formatTable } from './utils';
+import { loadConfig, loadSpending, formatUSDC, formatScore, formatTable } from './utils';
 
 const program = new Command();
 
@@ -24,18 +24,22 @@ program
   .requiredOption('-r, --recipient <address>', 'Seller address or @handle')
   .requiredOption('-j, --job <string>', 'Job description')
   .option('-t, --threshold <number>', 'Trust threshold (0-100)', '65')
+  .option('--max-fee-bps <number>', 'Refuse if the protocol fee is above this (basis points)')
+  .option('--require-challenge', 'Challenge the escrow right after creating it (5 USDC stake)')
   .action(async (options) => {
     const spinner = ora('Creating escrow...').start();
     
     try {
       const config = loadConfig();
-      const rook = new RookProtocol(config);
+      const rook = new RookProtocol(config, { spending: loadSpending(spinner) });
       
       const result = await rook.createEscrow({
         amount: parseFloat(options.amount),
         recipient: options.recipient,
         job: options.job,
-        threshold: parseInt(options.threshold)
+        threshold: parseInt(options.threshold),
+        maxFeeBps: options.maxFeeBps !== undefined ? parseInt(options.maxFeeBps) : undefined,
+        requireChallenge: options.requireChallenge
       });
       
       spinner.succeed('Escrow created!');
@@ -45,11 +49,17 @@ program
         'ID': result.id,
         'Buyer': result.buyer,
         'Seller': result.seller,
-        'Amount': formatUSDC(result.amount),
+        'Amount': formatUSDC(result.amountUnits),
         'Threshold': `${result.threshold}%`,
         'Status': chalk.green(result.status),
         'TX Hash': result.txHash
       }));
+
+      if (result.challenge) {
+        console.log(chalk.yellow(`\n⚔️  Escrow challenged (deadline block ${result.challenge.deadline})`));
+      } else if (result.challengeError) {
+        console.log(chalk.red(`\n⚠️  Challenge failed: ${result.challengeError.message}`));
+      }
       
     } catch (error: any) {
       spinner.fail('Failed to create escrow');
@@ -58,6 +68,64 @@ program
     }
   });
 
+// ═══════════════════════════════════════════════════════════════
+// QUOTE ESCROW
+// ═══════════════════════════════════════════════════════════════
+
+program
+  .command('quote')
+  .description('Show the fee, seller net, approval and gas of an escrow before creating it')
+  .requiredOption('-a, --amount <number>', 'USDC amount')
+  .requiredOption('-r, --recipient <address>', 'Seller address or @handle')
+  .option('-j, --job <string>', 'Job description', 'quote')
+  .option('-t, --threshold <number>', 'Trust threshold (0-100)', '65')
+  .action(async (options) => {
+    const spinner = ora('Quoting escrow...').start();
+    
+    try {
+      const config = loadConfig();
+      const rook = new RookProtocol(config);
+      
+      const quote = await rook.quoteEscrow({
+        amount: options.amount,
+        recipient: options.recipient,
+        job: options.job,
+        threshold: parseInt(options.threshold)
+      });
+      
+      spinner.succeed('Quote ready');
+      
+      console.log('\n' + chalk.cyan('Escrow Quote:'));
+      console.log(formatTable({
+        'Seller': quote.seller,
+        'Amount': formatUSDC(quote.amount),
+        'Protocol Fee': `${formatUSDC(quote.protocolFee)} (${quote.feeBps} bps)`,
+        'Seller Receives': formatUSDC(quote.sellerNet),
+        'Approval': quote.usesPermit ? 'Permit (signed)' : quote.approvalRequired > 0n ? formatUSDC(quote.approvalRequired) : 'Not needed',
+        'Gas Cost': quote.dryRun ? `up to ${quote.estimatedCost} wei` : chalk.gray('unknown (no wallet)'),
+        'Seller Score': quote.scoreError
+          ? chalk.red('unavailable')
+          : `${quote.sellerScore}% ${quote.sellerScoreFresh ? '' : chalk.red('(stale)')}`.trim(),
+        'Threshold': quote.meetsThreshold ? chalk.green(`${quote.threshold}% (met)`) : chalk.yellow(`${quote.threshold}% (not met)`)
+      }));
+      
+      if (quote.scoreError) {
+        console.log('\n' + chalk.yellow(`Could not read the seller's score: ${quote.scoreError.message}`));
+      }
+      if (!quote.dryRun) {
+        console.log('\n' + chalk.gray('No private key: balance, allowance and gas were not checked (set PRIVATE_KEY or run `rook config`).'));
+      } else if (!quote.ok) {
+        console.log('\n' + chalk.red(`Creating this escrow would fail: ${quote.error?.message}`));
+      }
+      console.log(chalk.gray(`\nPass --max-fee-bps ${quote.feeBps} to create to refuse a higher fee.`));
+      
+    } catch (error: any) {
+      spinner.fail('Failed to quote escrow');
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
 // ═══════════════════════════════════════════════════════════════
 // VERIFY AGENT
 // ═══════════════════════════════════════════════════════════════
@@ -66,6 +134,8 @@ program
   .command('verify')
   .description('Check an agent\'s trust score')
   .requiredOption('-a, --agent <address>', 'Agent address or @handle')
+  .option('--offchain', 'Also fetch a fresh score from the oracle (requires ROOK_ORACLE_URL)')
+  .option('--rescore', 'Have the oracle push a fresh score on-chain if it is stale (requires ROOK_ORACLE_URL and ORACLE_API_KEY)')
   .action(async (options) => {
     const spinner = ora('Verifying agent...').start();
     
@@ -73,7 +143,10 @@ program
       const config = loadConfig();
       const rook = new RookProtocol(config);
       
-      const result = await rook.verify(options.agent);
+      const result = await rook.verify(options.agent, {
+        offchain: options.offchain,
+        requireFresh: options.rescore ? 'rescore' : undefined
+      });
       
       spinner.succeed('Verification complete!');
       
@@ -84,6 +157,9 @@ program
       console.log('\n' + chalk.cyan('Trust Score:'), scoreColor(formatScore(result.trust_score)));
       console.log(chalk.cyan('Risk Level:'), result.risk_level);
       console.log(chalk.cyan('Recommendation:'), result.recommendation);
+      console.log(chalk.cyan('Last Updated:'), result.lastUpdated
+        ? `${new Date(result.lastUpdated * 1000).toISOString()} ${result.isFresh ? chalk.green('(fresh)') : chalk.red('(stale)')}`
+        : chalk.red('never'));
       
       console.log('\n' + chalk.cyan('Score Breakdown:'));
       console.log(formatTable({
@@ -93,6 +169,17 @@ program
         'Escrow History': formatScore(result.breakdown.escrow_history),
         'Challenge Bonus': formatScore(result.breakdown.challenge_bonus)
       }));
+
+      if (result.oracle_score) {
+        console.log('\n' + chalk.cyan('Oracle Score (off-chain):'), formatScore(result.oracle_score.trust_score));
+        console.log(formatTable({
+          'ERC-8004 Identity': formatScore(result.oracle_score.breakdown.erc8004_identity),
+          'Reputation Signals': formatScore(result.oracle_score.breakdown.reputation_signals),
+          'Sybil Resistance': formatScore(result.oracle_score.breakdown.sybil_resistance),
+          'Escrow History': formatScore(result.oracle_score.breakdown.escrow_history),
+          'Computed At': new Date(result.oracle_score.timestamp).toISOString()
+        }));
+      }
       
     } catch (error: any) {
       spinner.fail('Verification failed');
@@ -115,7 +202,7 @@ program
     
     try {
       const config = loadConfig();
-      const rook = new RookProtocol(config);
+      const rook = new RookProtocol(config, { spending: loadSpending(spinner) });
       
       // NOTE: Stake is fixed at 5 USDC by contract
       const result = await rook.challenge({
@@ -129,7 +216,7 @@ program
       console.log(formatTable({
         'Escrow ID': result.escrowId,
         'Challenger': result.challenger,
-        'Stake': formatUSDC(result.stake),
+        'Stake': formatUSDC(result.stakeUnits),
         'Deadline Block': result.deadline.toString(),
         'Reason': result.reason || '-',
         'TX Hash': result.txHash
@@ -173,6 +260,90 @@ program
     }
   });
 
+// ═══════════════════════════════════════════════════════════════
+// PROVE (Seller identity proof, verified and resolved by the oracle)
+// ═══════════════════════════════════════════════════════════════
+
+program
+  .command('prove')
+  .description('Prove identity with a wallet signature (seller only, needs ROOK_ORACLE_URL)')
+  .requiredOption('-e, --escrow <id>', 'Escrow ID')
+  .option('-m, --method <method>', 'Proof method', 'wallet_signature')
+  .action(async (options) => {
+    const spinner = ora('Signing and submitting proof...').start();
+
+    try {
+      const config = loadConfig();
+      const rook = new RookProtocol(config);
+
+      const proof = await rook.proveIdentity(options.escrow, options.method);
+
+      if (proof.resolved) {
+        spinner.succeed('Challenge passed!');
+      } else {
+        spinner.warn('Response recorded, but the oracle did not resolve the challenge');
+      }
+      console.log(chalk.dim('TX Hash:'), proof.txHash);
+      console.log(chalk.dim('Response Hash:'), proof.responseHash);
+      if (proof.resolutionTxHash) {
+        console.log(chalk.dim('Resolution TX:'), proof.resolutionTxHash);
+      }
+      if (proof.oracleError) {
+        console.log(chalk.yellow(`\n⚠️  ${proof.oracleError.message}`));
+        console.log(chalk.dim(`Signature (resubmit before the deadline): ${proof.signature}`));
+      }
+
+    } catch (error: any) {
+      spinner.fail('Proof failed');
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
+// ═══════════════════════════════════════════════════════════════
+// GUARD (Seller daemon answering challenges automatically)
+// ═══════════════════════════════════════════════════════════════
+
+program
+  .command('guard')
+  .description('Answer challenges on your escrows as they come in (seller, needs ROOK_ORACLE_URL)')
+  .option('--bump-within <blocks>', 'Bump fees when this many response blocks are left', '10')
+  .option('--bump-percent <percent>', 'Fee increase per bump', '10')
+  .action(async (options) => {
+    const spinner = ora('Starting challenge guard...').start();
+
+    try {
+      const config = loadConfig();
+      const rook = new RookProtocol(config);
+
+      const guard = new ChallengeGuard(rook, {
+        bumpWithinBlocks: parseInt(options.bumpWithin),
+        bumpPercent: parseInt(options.bumpPercent),
+        onResponse: (proof) => {
+          console.log(chalk.green(`✓ Challenge on ${proof.escrowId} passed`), chalk.dim(proof.txHash));
+        },
+        onAlert: (alert) => {
+          const color = alert.type === 'at_risk' ? chalk.yellow : chalk.red;
+          console.log(color(`⚠️  [${alert.type}] ${alert.escrowId}: ${alert.message}`));
+        },
+        onError: (error) => console.error(chalk.dim(error.message))
+      });
+      await guard.start();
+
+      spinner.succeed(`Guarding escrows of ${await rook.getAddress()}`);
+      console.log(chalk.dim('Press Ctrl+C to stop'));
+      process.on('SIGINT', () => {
+        guard.stop();
+        process.exit(0);
+      });
+
+    } catch (error: any) {
+      spinner.fail('Guard failed to start');
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
 // ═══════════════════════════════════════════════════════════════
 // CLAIM TIMEOUT
 // ═══════════════════════════════════════════════════════════════
@@ -309,7 +480,10 @@ program
       const rook = new RookProtocol(config);
       
       const escrow = await rook.getEscrow(options.escrow);
-      const challenge = await rook['escrowContract'].getChallenge(options.escrow);
+      const [challenge, dispute] = await Promise.all([
+        rook.getChallenge(options.escrow),
+        rook.getDispute(options.escrow)
+      ]);
       
       spinner.succeed('Escrow found!');
       
@@ -324,7 +498,7 @@ program
         'ID': escrow.id,
         'Buyer': escrow.buyer,
         'Seller': escrow.seller,
-        'Amount': formatUSDC(escrow.amount),
+        'Amount': formatUSDC(escrow.amountUnits),
         'Threshold': `${escrow.threshold}%`,
         'Status': statusColor(escrow.status),
         'Created': escrow.createdAt ? new Date(escrow.createdAt * 1000).toISOString() : '-',
@@ -332,17 +506,32 @@ program
       }));
       
       // Show challenge info if active
-      if (escrow.status === 'Challenged' && challenge.status !== 0) {
+      if (escrow.status === 'Challenged' && challenge && challenge.status !== 'None') {
         const currentBlock = await rook.getBlockNumber();
-        const blocksRemaining = Math.max(0, Number(challenge.deadline) - currentBlock);
+        const blocksRemaining = Math.max(0, challenge.deadline - currentBlock);
         
         console.log('\n' + chalk.cyan('Challenge Status:'));
         console.log(formatTable({
           'Challenger': challenge.challenger,
-          'Stake': formatUSDC(Number(challenge.stake) / 1e6),
+          'Stake': formatUSDC(challenge.stakeUnits),
           'Deadline Block': challenge.deadline.toString(),
           'Blocks Remaining': blocksRemaining.toString(),
-          'Responded': challenge.responseHash !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'Yes' : 'No'
+          'Responded': challenge.status === 'Responded' ? 'Yes' : 'No'
+        }));
+      }
+
+      // Show dispute info (and a timelocked resolution) if disputed
+      if (escrow.status === 'Disputed' && dispute) {
+        const pending = dispute.pendingResolution;
+        
+        console.log('\n' + chalk.cyan('Dispute Status:'));
+        console.log(formatTable({
+          'Initiator': dispute.initiator,
+          'Evidence': dispute.evidence,
+          'Filed': new Date(dispute.createdAt * 1000).toISOString(),
+          'Resolution': pending
+            ? `${pending.winner} after ${new Date(pending.executeAfter * 1000).toISOString()}`
+            : 'Pending'
         }));
       }
       
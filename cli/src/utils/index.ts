@@ -1,7 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { RookConfig } from '@rook-protocol/sdk';
+import { RookConfig, SpendingOptions, FileSpendStore, promptApprover } from '@rook-protocol/sdk';
+
+export { formatUSDC } from '@rook-protocol/sdk';
 
 const CONFIG_DIR = path.join(os.homedir(), '.rook');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
@@ -18,6 +20,29 @@ export function loadConfig(): CliConfig {
     privateKey: process.env.PRIVATE_KEY
   };
 
+  // Deployment overrides (local forks, private deployments)
+  if (process.env.ROOK_CHAIN_ID) {
+    envConfig.chainId = parseInt(process.env.ROOK_CHAIN_ID);
+  }
+  if (process.env.ROOK_ESCROW_ADDRESS || process.env.ROOK_ORACLE_ADDRESS || process.env.USDC_ADDRESS) {
+    envConfig.contracts = {
+      escrow: process.env.ROOK_ESCROW_ADDRESS,
+      oracle: process.env.ROOK_ORACLE_ADDRESS,
+      usdc: process.env.USDC_ADDRESS
+    };
+  }
+
+  // Oracle service (challenge proofs)
+  if (process.env.ROOK_ORACLE_URL) {
+    envConfig.oracleUrl = process.env.ROOK_ORACLE_URL;
+    envConfig.oracleApiKey = process.env.ORACLE_API_KEY;
+  }
+
+  // Mainnet RPC for ENS names (Base has no ENS registry)
+  if (process.env.ROOK_ENS_RPC_URL) {
+    envConfig.ensProvider = process.env.ROOK_ENS_RPC_URL;
+  }
+
   // Then try config file
   if (fs.existsSync(CONFIG_FILE)) {
     try {
@@ -37,6 +62,38 @@ export function loadConfig(): CliConfig {
   return envConfig;
 }
 
+/**
+ * Spending limits from ROOK_SPEND_* variables (undefined when none is set)
+ *
+ * Spends are recorded in ~/.rook/spending.json, decisions in
+ * ~/.rook/spending.log.jsonl. Spends above ROOK_SPEND_APPROVE_ABOVE are
+ * confirmed at the terminal, with the spinner paused.
+ */
+export function loadSpending(spinner?: { stop(): unknown; start(): unknown }): SpendingOptions | undefined {
+  const limits: SpendingOptions = {
+    daily: process.env.ROOK_SPEND_DAILY,
+    weekly: process.env.ROOK_SPEND_WEEKLY,
+    perCounterparty: process.env.ROOK_SPEND_PER_SELLER,
+    challengeStakes: process.env.ROOK_SPEND_STAKES,
+    approvalThreshold: process.env.ROOK_SPEND_APPROVE_ABOVE
+  };
+  if (Object.values(limits).every((limit) => limit === undefined)) return undefined;
+
+  const ask = promptApprover();
+  return {
+    ...limits,
+    store: new FileSpendStore(path.join(CONFIG_DIR, 'spending.json')),
+    approve: async (request) => {
+      spinner?.stop();
+      try {
+        return await ask(request);
+      } finally {
+        spinner?.start();
+      }
+    }
+  };
+}
+
 export function saveConfig(config: CliConfig): void {
   if (!fs.existsSync(CONFIG_DIR)) {
     fs.mkdirSync(CONFIG_DIR, { recursive: true });
@@ -44,11 +101,6 @@ export function saveConfig(config: CliConfig): void {
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
 }
 
-export function formatUSDC(amount: number | string): string {
-  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return `$${num.toFixed(2)} USDC`;
-}
-
 export function formatScore(score: number): string {
   return `${(score * 100).toFixed(0)}%`;
 }
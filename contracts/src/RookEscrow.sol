@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {IRookOracle} from "./interfaces/IRookOracle.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
@@ -320,6 +321,43 @@ contract RookEscrow is ReentrancyGuard, Ownable, Pausable {
         bytes32 jobHash,
         uint256 trustThreshold
     ) external nonReentrant whenNotPaused returns (bytes32 escrowId) {
+        return _createEscrow(seller, amount, jobHash, trustThreshold);
+    }
+
+    /**
+     * @notice Create a new escrow, approving the USDC transfer with an EIP-2612 permit
+     * @param seller Recipient address
+     * @param amount USDC amount (6 decimals)
+     * @param jobHash Keccak256 hash of job description
+     * @param trustThreshold Minimum trust score for auto-release (0-100)
+     * @param deadline Permit deadline
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function createEscrowWithPermit(
+        address seller,
+        uint256 amount,
+        bytes32 jobHash,
+        uint256 trustThreshold,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused returns (bytes32 escrowId) {
+        _permit(amount, deadline, v, r, s);
+        return _createEscrow(seller, amount, jobHash, trustThreshold);
+    }
+
+    /**
+     * @notice Internal escrow creation (caller is the buyer)
+     */
+    function _createEscrow(
+        address seller,
+        uint256 amount,
+        bytes32 jobHash,
+        uint256 trustThreshold
+    ) internal returns (bytes32 escrowId) {
         if (amount == 0) revert InvalidAmount();
         if (seller == address(0) || seller == msg.sender) revert InvalidSeller();
         if (trustThreshold < MIN_THRESHOLD || trustThreshold > MAX_THRESHOLD) {
@@ -607,6 +645,32 @@ contract RookEscrow is ReentrancyGuard, Ownable, Pausable {
      * @param escrowId Escrow to challenge
      */
     function initiateChallenge(bytes32 escrowId) external nonReentrant whenNotPaused {
+        _initiateChallenge(escrowId);
+    }
+
+    /**
+     * @notice Initiate identity challenge, approving the stake with an EIP-2612 permit
+     * @param escrowId Escrow to challenge
+     * @param deadline Permit deadline
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function initiateChallengeWithPermit(
+        bytes32 escrowId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        _permit(CHALLENGE_STAKE, deadline, v, r, s);
+        _initiateChallenge(escrowId);
+    }
+
+    /**
+     * @notice Internal challenge initiation (caller is the challenger)
+     */
+    function _initiateChallenge(bytes32 escrowId) internal {
         Escrow storage escrow = escrows[escrowId];
         if (escrow.buyer == address(0)) revert EscrowNotFound();
         if (escrow.status != EscrowStatus.Active) revert EscrowNotActive();
@@ -876,6 +940,17 @@ contract RookEscrow is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @notice Apply a USDC permit from msg.sender to this contract
+     * @dev A failed permit is ignored: the permit may have been front-run
+     *      (griefing), in which case the allowance is already in place. If it
+     *      is not, the following transferFrom reverts.
+     */
+    function _permit(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(address(usdc)).permit(msg.sender, address(this), value, deadline, v, r, s) {
+        } catch {}
+    }
+
     /**
      * @notice Collect protocol fee on release
      * @return feeAmount The fee collected
@@ -31,6 +31,16 @@ interface IRookEscrow {
 
     // Escrow lifecycle
     function createEscrow(address seller, uint256 amount, bytes32 jobHash, uint256 trustThreshold) external returns (bytes32);
+    function createEscrowWithPermit(
+        address seller,
+        uint256 amount,
+        bytes32 jobHash,
+        uint256 trustThreshold,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (bytes32);
     function releaseEscrow(bytes32 escrowId, uint256 trustScore) external;
     function releaseWithConsent(bytes32 escrowId) external;
     function refundEscrow(bytes32 escrowId, string calldata reason) external;
@@ -44,6 +54,7 @@ interface IRookEscrow {
 
     // Challenges
     function initiateChallenge(bytes32 escrowId) external;
+    function initiateChallengeWithPermit(bytes32 escrowId, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
     function respondChallenge(bytes32 escrowId, bytes32 responseHash) external;
     function resolveChallenge(bytes32 escrowId, bool passed) external;
     function claimChallengeTimeout(bytes32 escrowId) external;
@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "forge-std/Test.sol";
+import "../src/RookEscrow.sol";
+import "../src/RookOracle.sol";
+import "./mocks/MockUSDCPermit.sol";
+
+contract RookEscrowPermitTest is Test {
+    RookEscrow public escrow;
+    RookOracle public oracle;
+    MockUSDCPermit public usdc;
+
+    address public owner = address(1);
+    address public seller = address(3);
+
+    uint256 public buyerKey = 0xB0B;
+    uint256 public challengerKey = 0xC4A1;
+    address public buyer;
+    address public challenger;
+
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    function setUp() public {
+        buyer = vm.addr(buyerKey);
+        challenger = vm.addr(challengerKey);
+
+        usdc = new MockUSDCPermit(1_000_000 * 10**6);
+
+        vm.startPrank(owner);
+        oracle = new RookOracle(address(0));
+        escrow = new RookEscrow(address(usdc), address(oracle));
+        oracle.setEscrow(address(escrow));
+        vm.stopPrank();
+
+        usdc.transfer(buyer, 10_000 * 10**6);
+        usdc.transfer(challenger, 1_000 * 10**6);
+    }
+
+    function _signPermit(
+        uint256 key,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        address holder = vm.addr(key);
+        bytes32 structHash = keccak256(abi.encode(
+            PERMIT_TYPEHASH,
+            holder,
+            address(escrow),
+            value,
+            usdc.nonces(holder),
+            deadline
+        ));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash));
+        (v, r, s) = vm.sign(key, digest);
+    }
+
+    // =================================================================
+    // ESCROW CREATION
+    // =================================================================
+
+    function test_CreateEscrowWithPermit() public {
+        uint256 amount = 100 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, amount, deadline);
+
+        vm.prank(buyer);
+        bytes32 escrowId = escrow.createEscrowWithPermit(seller, amount, keccak256("job"), 65, deadline, v, r, s);
+
+        RookEscrow.Escrow memory e = escrow.getEscrow(escrowId);
+        assertEq(e.buyer, buyer);
+        assertEq(e.amount, amount);
+        assertEq(usdc.balanceOf(address(escrow)), amount);
+        assertEq(usdc.allowance(buyer, address(escrow)), 0);
+        assertEq(usdc.nonces(buyer), 1);
+    }
+
+    function test_CreateEscrowWithPermit_FrontRunPermit() public {
+        uint256 amount = 100 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, amount, deadline);
+
+        // Someone submits the permit first; the escrow call must still succeed
+        usdc.permit(buyer, address(escrow), amount, deadline, v, r, s);
+
+        vm.prank(buyer);
+        bytes32 escrowId = escrow.createEscrowWithPermit(seller, amount, keccak256("job"), 65, deadline, v, r, s);
+
+        assertEq(escrow.getEscrow(escrowId).amount, amount);
+    }
+
+    function test_Revert_CreateEscrowWithPermit_InvalidSignature() public {
+        uint256 amount = 100 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed by the wrong key, and no allowance to fall back on
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(challengerKey, amount, deadline);
+
+        vm.prank(buyer);
+        vm.expectRevert("ERC20: insufficient allowance");
+        escrow.createEscrowWithPermit(seller, amount, keccak256("job"), 65, deadline, v, r, s);
+    }
+
+    function test_Revert_CreateEscrowWithPermit_ExpiredPermit() public {
+        uint256 amount = 100 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, amount, deadline);
+
+        vm.warp(deadline + 1);
+
+        vm.prank(buyer);
+        vm.expectRevert("ERC20: insufficient allowance");
+        escrow.createEscrowWithPermit(seller, amount, keccak256("job"), 65, deadline, v, r, s);
+    }
+
+    function test_Revert_CreateEscrowWithPermit_WhenPaused() public {
+        vm.prank(owner);
+        escrow.pause();
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(buyerKey, 100 * 10**6, deadline);
+
+        vm.prank(buyer);
+        vm.expectRevert("Pausable: paused");
+        escrow.createEscrowWithPermit(seller, 100 * 10**6, keccak256("job"), 65, deadline, v, r, s);
+    }
+
+    // =================================================================
+    // CHALLENGES
+    // =================================================================
+
+    function test_InitiateChallengeWithPermit() public {
+        vm.startPrank(buyer);
+        usdc.approve(address(escrow), 100 * 10**6);
+        bytes32 escrowId = escrow.createEscrow(seller, 100 * 10**6, keccak256("job"), 65);
+        vm.stopPrank();
+
+        uint256 stake = escrow.CHALLENGE_STAKE();
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(challengerKey, stake, deadline);
+
+        vm.prank(challenger);
+        escrow.initiateChallengeWithPermit(escrowId, deadline, v, r, s);
+
+        RookEscrow.Challenge memory c = escrow.getChallenge(escrowId);
+        assertEq(c.challenger, challenger);
+        assertEq(c.stake, stake);
+        assertEq(uint8(escrow.getEscrow(escrowId).status), uint8(RookEscrow.EscrowStatus.Challenged));
+    }
+
+    function test_Revert_InitiateChallengeWithPermit_SelfChallenge() public {
+        vm.startPrank(buyer);
+        usdc.approve(address(escrow), 100 * 10**6);
+        bytes32 escrowId = escrow.createEscrow(seller, 100 * 10**6, keccak256("job"), 65);
+        vm.stopPrank();
+
+        vm.prank(seller);
+        vm.expectRevert(RookEscrow.SelfChallenge.selector);
+        escrow.initiateChallengeWithPermit(escrowId, block.timestamp + 1 hours, 0, bytes32(0), bytes32(0));
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockUSDCPermit
+ * @notice Mock USDC with EIP-2612 permit (Base USDC supports permit)
+ */
+contract MockUSDCPermit is ERC20Permit {
+    uint8 private constant _DECIMALS = 6;
+
+    constructor(uint256 initialSupply) ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {
+        _mint(msg.sender, initialSupply);
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return _DECIMALS;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -5,13 +5,14 @@ import { ScoringService } from '../services/scoring';
 import { logger } from '../utils/logger';
 
 const escrowAbi = [
-  'function getEscrow(bytes32 escrowId) view returns (tuple(address buyer, address seller, uint256 amount, bytes32 jobHash, uint256 trustThreshold, uint8 status, uint256 createdAt, uint256 expiresAt))'
+  'function getEscrow(bytes32 escrowId) view returns (tuple(address buyer, address seller, uint256 amount, bytes32 jobHash, uint256 trustThreshold, uint8 status, uint256 createdAt, uint256 expiresAt))',
+  'function getChallenge(bytes32 escrowId) view returns (tuple(address challenger, uint256 stake, uint256 deadline, uint8 status, bool passed, bytes32 responseHash))'
 ];
 
 export function createChallengeHandler(provider: ethers.Provider, scoring: ScoringService | null) {
   return async function challengeHandler(req: Request, res: Response) {
     try {
-      const { escrowId, signature, action } = req.body;
+      const { escrowId, signature, timestamp, action } = req.body;
 
       if (!escrowId || !signature) {
         return res.status(400).json({
@@ -64,6 +65,22 @@ export function createChallengeHandler(provider: ethers.Provider, scoring: Scori
         });
       }
 
+      // With a timestamp, the signature must also be what the seller committed on-chain:
+      // responseHash = keccak256(abi.encodePacked(escrowId, signature, timestamp))
+      if (timestamp !== undefined) {
+        const challenge = await escrowContract.getChallenge(escrowId);
+        const expectedHash = ethers.keccak256(
+          ethers.solidityPacked(['bytes32', 'bytes', 'uint256'], [escrowId, signature, timestamp])
+        );
+        if (challenge.responseHash !== expectedHash) {
+          return res.json({
+            escrowId,
+            valid: false,
+            message: 'Response hash does not match the on-chain challenge response'
+          });
+        }
+      }
+
       // If verification passed and action is 'resolve', submit to contract
       if (action === 'resolve') {
         if (!config.privateKey) {
@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { ethers, Wallet } from 'ethers';
+import { ScoringService } from '../services/scoring';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const oracleAbi = [
+  'function updateScores(address agent, uint256 identity, uint256 reputation, uint256 sybil, uint256 challengeBonus) external'
+];
+
+/**
+ * Compute a fresh score and push it on-chain, restarting the agent's
+ * MAX_SCORE_AGE window. Used by clients that found the on-chain score stale.
+ */
+export function createRescoreHandler(provider: ethers.Provider, scoring: ScoringService | null) {
+  return async function rescoreHandler(req: Request, res: Response) {
+    try {
+      const { agent, moltbookHandle } = req.body;
+
+      if (!agent || !ethers.isAddress(agent)) {
+        return res.status(400).json({ error: 'Valid agent address required' });
+      }
+
+      if (!scoring) {
+        return res.status(503).json({ error: 'Scoring service not configured' });
+      }
+
+      if (!config.privateKey || !config.oracleAddress) {
+        return res.status(403).json({
+          error: 'Write operations disabled - no private key or oracle address configured'
+        });
+      }
+
+      const score = await scoring.calculateScore(agent, moltbookHandle);
+
+      // Same update as the release flow in the webhook handler
+      const signer = new Wallet(config.privateKey, provider);
+      const oracle = new ethers.Contract(config.oracleAddress, oracleAbi, signer);
+      const tx = await oracle.updateScores(
+        agent,
+        score.identity,
+        score.reputation,
+        score.sybil,
+        score.challengeBonus
+      );
+      await tx.wait();
+
+      logger.info(`Rescored ${agent} on-chain: ${score.composite}`);
+
+      res.json({
+        agent,
+        score,
+        txHash: tx.hash,
+        timestamp: Date.now()
+      });
+    } catch (error: any) {
+      logger.error('Rescore handler error:', error);
+      res.status(500).json({ error: error.message || 'Internal server error' });
+    }
+  };
+}
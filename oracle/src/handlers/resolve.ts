@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { MoltbookService } from '../services/moltbook';
+import { logger } from '../utils/logger';
+
+/**
+ * GET /resolve/:handle: linked wallet of a Moltbook handle
+ *
+ * The wallet is read from the profile's `walletField`. A handle that is
+ * unknown, or whose profile has no address in that field, answers 404,
+ * which the SDK's Moltbook resolver reports as INVALID_AGENT.
+ */
+export function createResolveHandler(moltbook: MoltbookService, walletField: string = 'wallet') {
+  return async function resolveHandler(req: Request, res: Response) {
+    try {
+      const handle = req.params.handle.replace(/^@/, '');
+
+      if (!/^[\w.-]+$/.test(handle)) {
+        return res.status(400).json({ error: 'Invalid handle' });
+      }
+
+      const user = await moltbook.getUser(handle);
+      const wallet = user?.[walletField];
+      if (!user || typeof wallet !== 'string' || !ethers.isAddress(wallet)) {
+        return res.status(404).json({ error: 'Handle not found or has no linked wallet' });
+      }
+
+      res.json({
+        handle: `@${user.handle || handle}`,
+        address: ethers.getAddress(wallet)
+      });
+    } catch (error: any) {
+      logger.error('Resolve handler error:', error);
+      res.status(500).json({ error: error.message || 'Internal server error' });
+    }
+  };
+}
@@ -4,7 +4,10 @@ import { ethers } from 'ethers';
 import { createVerifyHandler } from './handlers/verify';
 import { createChallengeHandler } from './handlers/challenge';
 import { createWebhookHandler } from './handlers/webhook';
+import { createResolveHandler } from './handlers/resolve';
+import { createRescoreHandler } from './handlers/rescore';
 import { ScoringService } from './services/scoring';
+import { MoltbookService } from './services/moltbook';
 import { logger } from './utils/logger';
 import { config } from './utils/config';
 import { metrics } from './monitoring/metrics';
@@ -138,9 +141,16 @@ export async function createServer() {
   // Verification endpoint (public, read-only, higher rate limit)
   app.post('/verify', verifyLimiter, createVerifyHandler(scoringService));
 
+  // Moltbook handle resolution (public, read-only)
+  const moltbook = new MoltbookService(config.moltbookApiKey || '', config.moltbookApiUrl);
+  app.get('/resolve/:handle', verifyLimiter, createResolveHandler(moltbook, config.moltbookWalletField));
+
   // Challenge endpoint (requires API key auth, lower rate limit)
   app.post('/challenge', challengeLimiter, apiKeyAuth, createChallengeHandler(provider, scoringService));
 
+  // On-chain rescore of a stale agent (requires API key auth, sends a transaction)
+  app.post('/rescore', challengeLimiter, apiKeyAuth, createRescoreHandler(provider, scoringService));
+
   // Webhook for blockchain events (requires API key auth)
   app.post('/webhook', webhookLimiter, apiKeyAuth, createWebhookHandler(provider, scoringService));
 
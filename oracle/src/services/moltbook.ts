@@ -9,6 +9,8 @@ interface MoltbookUser {
   following: number;
   createdAt: string;
   posts: number;
+  wallet?: string;
+  [field: string]: unknown;
 }
 
 export class MoltbookService {
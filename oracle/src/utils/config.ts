@@ -11,6 +11,8 @@ export const config = {
   // API keys
   moltbookApiKey: process.env.MOLTBOOK_API_KEY,
   moltbookApiUrl: process.env.MOLTBOOK_API_URL || 'https://api.moltbook.com',
+  // Field of the Moltbook user profile holding the linked wallet
+  moltbookWalletField: process.env.MOLTBOOK_WALLET_FIELD || 'wallet',
   
   // Oracle settings
   updateInterval: parseInt(process.env.ORACLE_UPDATE_INTERVAL || '300000'),
@@ -36,7 +36,7 @@ async function main() {
   const rook = new RookProtocol(config);
   
   const sellerAddress = '0x1234567890123456789012345678901234567890';
-  const buyerAddress = await rook['signer']!.getAddress();
+  const buyerAddress = await rook.getAddress();
   
   console.log(`Buyer: ${buyerAddress}`);
   console.log(`Seller: ${sellerAddress}\n`);
@@ -0,0 +1,705 @@
+import { Contract, ethers } from 'ethers';
+import { RookProtocol, PlannedCall } from './client';
+import {
+  ScoreWeights,
+  TimelockAction,
+  TimelockQueryOptions,
+  EscrowAdminConfig,
+  OracleAdminConfig,
+  TransactionPreview
+} from './types';
+import { RookError, ErrorCodes } from './utils/errors';
+import RookOracleABI from './abi/RookOracle.json';
+
+/**
+ * Owner operations on RookEscrow and RookOracle
+ *
+ * Extends RookProtocol, so one instance also reads and writes escrows. The
+ * signer must own the contract an operation targets. Oracle changes on the
+ * escrow go through TIMELOCK_DELAY: actions scheduled from this instance are
+ * tracked, and getPendingTimelocks() recovers the rest from chain events.
+ *
+ * @example
+ * ```typescript
+ * const admin = new RookAdmin({ network: 'base', signer: ownerWallet });
+ * const action = await admin.scheduleSetOracle(newOracle);
+ * // after action.executeAfter
+ * await admin.executeSetOracle(action.actionId);
+ * ```
+ */
+export class RookAdmin extends RookProtocol {
+  private timelocks = new Map<string, TimelockAction>();
+
+  // =================================================================
+  // ESCROW: TIMELOCKED ORACLE UPDATE
+  // =================================================================
+
+  /**
+   * Schedule an oracle update on RookEscrow (executable after TIMELOCK_DELAY)
+   *
+   * @param oracle - New RookOracle address
+   * @returns The scheduled action
+   */
+  async scheduleSetOracle(oracle: string): Promise<TimelockAction> {
+    const receipt = await this.executeAll(await this.planScheduleSetOracle(oracle));
+
+    const event = this.findEscrowEvent(receipt, await this.escrowContract.getAddress(), 'TimelockScheduled');
+    if (!event) {
+      throw new RookError(ErrorCodes.UNKNOWN, 'Failed to parse timelock action from transaction');
+    }
+
+    const action: TimelockAction = {
+      actionId: event.args.actionId,
+      action: 'setOracle',
+      oracle: ethers.getAddress(oracle),
+      executeAfter: Number(event.args.executeAfter),
+      executed: false,
+      ready: false,
+      txHash: receipt.hash
+    };
+    this.timelocks.set(action.actionId, action);
+    return action;
+  }
+
+  /**
+   * Check and plan the scheduleSetOracle() transaction
+   */
+  private async planScheduleSetOracle(oracle: string): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+    this.requireAddress(oracle, 'oracle');
+
+    return [{
+      contract: this.escrowContract,
+      method: 'scheduleSetOracle',
+      args: [oracle],
+      operation: 'Oracle update scheduling'
+    }];
+  }
+
+  /**
+   * Execute a scheduled oracle update once its timelock has passed
+   *
+   * @param actionId - Timelock action ID
+   * @param oracle - Scheduled oracle address (only needed if it cannot be recovered from the scheduling transaction)
+   * @returns Transaction hash
+   */
+  async executeSetOracle(actionId: string, oracle?: string): Promise<string> {
+    const calls = await this.planExecuteSetOracle(actionId, oracle);
+    const receipt = await this.executeAll(calls);
+
+    // Point this instance at the new oracle
+    const newOracle: string = calls[0].args[1];
+    this.contracts.oracle = newOracle;
+    this.oracleContract = Promise.resolve(new Contract(newOracle, RookOracleABI, this.provider));
+    const tracked = this.timelocks.get(actionId);
+    if (tracked) {
+      this.timelocks.set(actionId, { ...tracked, executed: true, ready: false });
+    }
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check the timelock and plan the executeSetOracle() transaction
+   */
+  private async planExecuteSetOracle(actionId: string, oracle?: string): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+
+    const action = await this.getTimelockAction(actionId);
+    if (!action) {
+      throw new RookError(ErrorCodes.TIMELOCK_NOT_FOUND, `Timelock action ${actionId} not found`);
+    }
+    if (action.executed) {
+      throw new RookError(ErrorCodes.ALREADY_EXECUTED, 'Timelock action already executed');
+    }
+    const now = await this.getBlockTimestamp();
+    if (now < action.executeAfter) {
+      const hoursRemaining = Math.ceil((action.executeAfter - now) / 3600);
+      throw new RookError(ErrorCodes.TIMELOCK_NOT_READY,
+        `Timelock active. Wait ${hoursRemaining} more hours.`);
+    }
+
+    const target = oracle ?? action.oracle;
+    if (!target) {
+      throw new RookError(ErrorCodes.TIMELOCK_NOT_FOUND,
+        `Oracle address of timelock action ${actionId} is unknown. Pass it to executeSetOracle().`);
+    }
+    this.requireAddress(target, 'oracle');
+    const { actionHash } = await this.escrowContract.timelockActions(actionId);
+    if (actionHash !== timelockHash(target)) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, `Timelock action ${actionId} was not scheduled for oracle ${target}`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'executeSetOracle',
+      args: [actionId, ethers.getAddress(target)],
+      operation: 'Oracle update'
+    }];
+  }
+
+  /**
+   * Cancel a scheduled timelock action
+   *
+   * @param actionId - Timelock action ID
+   * @returns Transaction hash
+   */
+  async cancelTimelock(actionId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planCancelTimelock(actionId));
+    this.timelocks.delete(actionId);
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the cancelTimelock() transaction
+   */
+  private async planCancelTimelock(actionId: string): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+
+    const { executeAfter, executed } = await this.escrowContract.timelockActions(actionId);
+    if (executeAfter === 0n) {
+      throw new RookError(ErrorCodes.TIMELOCK_NOT_FOUND, `Timelock action ${actionId} not found`);
+    }
+    if (executed) {
+      throw new RookError(ErrorCodes.ALREADY_EXECUTED, 'Timelock action already executed');
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'cancelTimelock',
+      args: [actionId],
+      operation: 'Timelock cancellation'
+    }];
+  }
+
+  /**
+   * Get a timelock action
+   *
+   * @param actionId - Timelock action ID
+   * @returns The action, or null if it was never scheduled or has been cancelled
+   */
+  async getTimelockAction(actionId: string): Promise<TimelockAction | null> {
+    return this.loadTimelock(actionId);
+  }
+
+  /**
+   * Timelock actions waiting to be executed, soonest first
+   *
+   * Scans TimelockScheduled events (from `fromBlock`) and reads each action's
+   * on-chain state, so actions scheduled elsewhere (other instances, forge
+   * scripts) are included. Cancelled actions are dropped.
+   *
+   * @param options - Block to scan from, whether to include executed actions
+   */
+  async getPendingTimelocks(options: TimelockQueryOptions = {}): Promise<TimelockAction[]> {
+    const scheduled = await this.queryEvents('TimelockScheduled', {}, options.fromBlock);
+    const txHashes = new Map<string, string>(scheduled.map((event) => [event.actionId, event.transactionHash]));
+    for (const actionId of this.timelocks.keys()) {
+      if (!txHashes.has(actionId)) txHashes.set(actionId, this.timelocks.get(actionId)!.txHash);
+    }
+
+    const actions = await Promise.all(
+      [...txHashes].map(([actionId, txHash]) => this.loadTimelock(actionId, txHash))
+    );
+    return actions
+      .filter((action): action is TimelockAction => action !== null && (options.includeExecuted || !action.executed))
+      .sort((a, b) => a.executeAfter - b.executeAfter);
+  }
+
+  /**
+   * Read a timelock action from chain, recovering its oracle address from the scheduling transaction
+   */
+  private async loadTimelock(actionId: string, txHash?: string): Promise<TimelockAction | null> {
+    await this.ensureNetwork();
+    const [state, now] = await Promise.all([
+      this.escrowContract.timelockActions(actionId),
+      this.getBlockTimestamp()
+    ]);
+    if (state.executeAfter === 0n) {
+      this.timelocks.delete(actionId);
+      return null;
+    }
+
+    let tracked = this.timelocks.get(actionId);
+    if (!tracked) {
+      const hash = txHash ?? (await this.queryEvents('TimelockScheduled', { actionId }))[0]?.transactionHash ?? '';
+      tracked = {
+        actionId,
+        action: 'setOracle',
+        oracle: hash ? await this.decodeScheduledOracle(hash, state.actionHash) : undefined,
+        executeAfter: Number(state.executeAfter),
+        executed: state.executed,
+        ready: false,
+        txHash: hash
+      };
+    }
+
+    const action: TimelockAction = {
+      ...tracked,
+      executeAfter: Number(state.executeAfter),
+      executed: state.executed,
+      ready: !state.executed && now >= Number(state.executeAfter)
+    };
+    this.timelocks.set(actionId, action);
+    return action;
+  }
+
+  /**
+   * Oracle address passed to scheduleSetOracle, if the transaction called RookEscrow directly
+   */
+  private async decodeScheduledOracle(txHash: string, actionHash: string): Promise<string | undefined> {
+    const tx = await this.provider.getTransaction(txHash);
+    if (!tx) return undefined;
+    try {
+      const parsed = this.escrowContract.interface.parseTransaction({ data: tx.data, value: tx.value });
+      if (parsed?.name !== 'scheduleSetOracle') return undefined;
+      const oracle: string = parsed.args[0];
+      return timelockHash(oracle) === actionHash ? oracle : undefined;
+    } catch {
+      // Scheduled through another contract
+      return undefined;
+    }
+  }
+
+  // =================================================================
+  // ESCROW: FEES, PAUSE, RESCUE
+  // =================================================================
+
+  /**
+   * Set the protocol fee (capped at MAX_FEE_BPS)
+   *
+   * @param feeBps - Fee in basis points (50 = 0.5%)
+   * @returns Transaction hash
+   */
+  async setProtocolFee(feeBps: number): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetProtocolFee(feeBps));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check the fee cap and plan the setProtocolFee() transaction
+   */
+  private async planSetProtocolFee(feeBps: number): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+
+    if (!Number.isInteger(feeBps) || feeBps < 0) {
+      throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Fee must be a whole number of basis points');
+    }
+    const maxFeeBps = Number(await this.escrowContract.MAX_FEE_BPS());
+    if (feeBps > maxFeeBps) {
+      throw new RookError(ErrorCodes.FEE_TOO_HIGH, `Fee of ${feeBps} bps exceeds MAX_FEE_BPS (${maxFeeBps})`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'setProtocolFee',
+      args: [feeBps],
+      operation: 'Protocol fee update'
+    }];
+  }
+
+  /**
+   * Set the address protocol fees are paid to
+   *
+   * @param recipient - Fee recipient
+   * @returns Transaction hash
+   */
+  async setFeeRecipient(recipient: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetFeeRecipient(recipient));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the setFeeRecipient() transaction
+   */
+  private async planSetFeeRecipient(recipient: string): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+    this.requireAddress(recipient, 'fee recipient');
+
+    return [{
+      contract: this.escrowContract,
+      method: 'setFeeRecipient',
+      args: [recipient],
+      operation: 'Fee recipient update'
+    }];
+  }
+
+  /**
+   * Pause RookEscrow (blocks escrow creation, releases, refunds, disputes and challenges)
+   *
+   * @returns Transaction hash
+   */
+  async pause(): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetPaused(true));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Unpause RookEscrow
+   *
+   * @returns Transaction hash
+   */
+  async unpause(): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetPaused(false));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check the current state and plan the pause() / unpause() transaction
+   */
+  private async planSetPaused(paused: boolean): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+
+    if ((await this.escrowContract.paused()) === paused) {
+      throw new RookError(ErrorCodes.CONTRACT_REVERT, `RookEscrow is already ${paused ? 'paused' : 'unpaused'}`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: paused ? 'pause' : 'unpause',
+      args: [],
+      operation: paused ? 'Pause' : 'Unpause'
+    }];
+  }
+
+  /**
+   * Recover tokens sent to RookEscrow by mistake (USDC cannot be rescued)
+   *
+   * @param token - Token address
+   * @param to - Recipient
+   * @param amount - Amount in the token's smallest units
+   * @returns Transaction hash
+   */
+  async rescueTokens(token: string, to: string, amount: bigint): Promise<string> {
+    const receipt = await this.executeAll(await this.planRescueTokens(token, to, amount));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the rescueTokens() transaction
+   */
+  private async planRescueTokens(token: string, to: string, amount: bigint): Promise<PlannedCall[]> {
+    await this.requireOwner(this.escrowContract, 'RookEscrow');
+    this.requireAddress(token, 'token');
+    this.requireAddress(to, 'recipient');
+
+    if (token.toLowerCase() === this.contracts.usdc.toLowerCase()) {
+      throw new RookError(ErrorCodes.CONTRACT_REVERT, 'USDC cannot be rescued');
+    }
+    if (typeof amount !== 'bigint' || amount <= 0n) {
+      throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Amount must be a positive bigint in token units');
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'rescueTokens',
+      args: [token, to, amount],
+      operation: 'Token rescue'
+    }];
+  }
+
+  /**
+   * Get the owner-controlled RookEscrow settings
+   */
+  async getEscrowConfig(): Promise<EscrowAdminConfig> {
+    await this.ensureNetwork();
+    const [owner, oracle, protocolFeeBps, maxFeeBps, feeRecipient, paused, timelockDelay] = await Promise.all([
+      this.escrowContract.owner(),
+      this.escrowContract.oracle(),
+      this.escrowContract.protocolFeeBps(),
+      this.escrowContract.MAX_FEE_BPS(),
+      this.escrowContract.feeRecipient(),
+      this.escrowContract.paused(),
+      this.escrowContract.TIMELOCK_DELAY()
+    ]);
+
+    return {
+      owner,
+      oracle,
+      protocolFeeBps: Number(protocolFeeBps),
+      maxFeeBps: Number(maxFeeBps),
+      feeRecipient,
+      paused,
+      timelockDelay: Number(timelockDelay)
+    };
+  }
+
+  // =================================================================
+  // ORACLE
+  // =================================================================
+
+  /**
+   * Add or remove an oracle operator
+   *
+   * @param operator - Operator address
+   * @param status - true to add, false to remove (default: true)
+   * @returns Transaction hash
+   */
+  async setOperator(operator: string, status: boolean = true): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetOperator(operator, status));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the setOperator() transaction
+   */
+  private async planSetOperator(operator: string, status: boolean): Promise<PlannedCall[]> {
+    const oracle = await this.getOracleContract();
+    await this.requireOwner(oracle, 'RookOracle');
+    this.requireAddress(operator, 'operator');
+
+    return [{
+      contract: oracle,
+      method: 'setOperator',
+      args: [operator, status],
+      operation: status ? 'Operator addition' : 'Operator removal'
+    }];
+  }
+
+  /**
+   * Point RookOracle at a RookEscrow
+   *
+   * @param escrow - RookEscrow address
+   * @returns Transaction hash
+   */
+  async setEscrow(escrow: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetEscrow(escrow));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the setEscrow() transaction
+   */
+  private async planSetEscrow(escrow: string): Promise<PlannedCall[]> {
+    const oracle = await this.getOracleContract();
+    await this.requireOwner(oracle, 'RookOracle');
+    this.requireAddress(escrow, 'escrow');
+
+    return [{
+      contract: oracle,
+      method: 'setEscrow',
+      args: [escrow],
+      operation: 'Escrow update'
+    }];
+  }
+
+  /**
+   * Set the ERC-8004 identity and reputation registries
+   *
+   * @param identity - Identity registry address
+   * @param reputation - Reputation registry address
+   * @returns Transaction hash
+   */
+  async setRegistries(identity: string, reputation: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetRegistries(identity, reputation));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the setRegistries() transaction
+   */
+  private async planSetRegistries(identity: string, reputation: string): Promise<PlannedCall[]> {
+    const oracle = await this.getOracleContract();
+    await this.requireOwner(oracle, 'RookOracle');
+    this.requireAddress(identity, 'identity registry');
+    this.requireAddress(reputation, 'reputation registry');
+
+    return [{
+      contract: oracle,
+      method: 'setRegistries',
+      args: [identity, reputation],
+      operation: 'Registry update'
+    }];
+  }
+
+  /**
+   * Set the trust score weights
+   *
+   * @param weights - Component weights (whole numbers summing to 100)
+   * @returns Transaction hash
+   */
+  async setWeights(weights: ScoreWeights): Promise<string> {
+    const receipt = await this.executeAll(await this.planSetWeights(weights));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check the weights and plan the setWeights() transaction
+   */
+  private async planSetWeights(weights: ScoreWeights): Promise<PlannedCall[]> {
+    const oracle = await this.getOracleContract();
+    await this.requireOwner(oracle, 'RookOracle');
+
+    const values = [weights.identity, weights.reputation, weights.sybil, weights.history, weights.challenge];
+    if (values.some((value) => !Number.isInteger(value) || value < 0)) {
+      throw new RookError(ErrorCodes.INVALID_WEIGHTS, 'Weights must be whole numbers of at least 0');
+    }
+    const total = values.reduce((sum, value) => sum + value, 0);
+    if (total !== 100) {
+      throw new RookError(ErrorCodes.INVALID_WEIGHTS, `Weights must sum to 100 (got ${total})`);
+    }
+
+    return [{
+      contract: oracle,
+      method: 'setWeights',
+      args: values,
+      operation: 'Weights update'
+    }];
+  }
+
+  /**
+   * Get the owner-controlled RookOracle settings
+   */
+  async getOracleConfig(): Promise<OracleAdminConfig> {
+    const oracle = await this.getOracleContract();
+    const [owner, escrow, identityRegistry, reputationRegistry, ...weights] = await Promise.all([
+      oracle.owner(),
+      oracle.escrow(),
+      oracle.identityRegistry(),
+      oracle.reputationRegistry(),
+      oracle.weightIdentity(),
+      oracle.weightReputation(),
+      oracle.weightSybil(),
+      oracle.weightHistory(),
+      oracle.weightChallenge()
+    ]);
+    const [identity, reputation, sybil, history, challenge] = weights.map(Number);
+
+    return {
+      owner,
+      escrow,
+      identityRegistry,
+      reputationRegistry,
+      weights: { identity, reputation, sybil, history, challenge }
+    };
+  }
+
+  // =================================================================
+  // PREVIEWS (dry-run, nothing is broadcast)
+  // =================================================================
+
+  /**
+   * Preview scheduleSetOracle (RookEscrow owner only; the action ID is known once mined)
+   */
+  async previewScheduleSetOracle(oracle: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planScheduleSetOracle(oracle) }));
+  }
+
+  /**
+   * Preview executeSetOracle (TIMELOCK_NOT_READY until TIMELOCK_DELAY has passed)
+   */
+  async previewExecuteSetOracle(actionId: string, oracle?: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planExecuteSetOracle(actionId, oracle) }));
+  }
+
+  /**
+   * Preview cancelTimelock (TIMELOCK_NOT_FOUND or ALREADY_EXECUTED for actions that cannot be cancelled)
+   */
+  async previewCancelTimelock(actionId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planCancelTimelock(actionId) }));
+  }
+
+  /**
+   * Preview setProtocolFee (FEE_TOO_HIGH above MAX_FEE_BPS)
+   */
+  async previewSetProtocolFee(feeBps: number): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetProtocolFee(feeBps) }));
+  }
+
+  /**
+   * Preview setFeeRecipient (no fee is taken until a recipient is set)
+   */
+  async previewSetFeeRecipient(recipient: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetFeeRecipient(recipient) }));
+  }
+
+  /**
+   * Preview pause (fails if RookEscrow is already paused)
+   */
+  async previewPause(): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetPaused(true) }));
+  }
+
+  /**
+   * Preview unpause (fails if RookEscrow is not paused)
+   */
+  async previewUnpause(): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetPaused(false) }));
+  }
+
+  /**
+   * Preview rescueTokens (USDC is refused: escrowed funds cannot be rescued)
+   */
+  async previewRescueTokens(token: string, to: string, amount: bigint): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planRescueTokens(token, to, amount) }));
+  }
+
+  /**
+   * Preview setOperator (RookOracle owner only)
+   */
+  async previewSetOperator(operator: string, status: boolean = true): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetOperator(operator, status) }));
+  }
+
+  /**
+   * Preview setEscrow (INVALID_AGENT for an invalid or zero address)
+   */
+  async previewSetEscrow(escrow: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetEscrow(escrow) }));
+  }
+
+  /**
+   * Preview setRegistries (both registry addresses are validated first)
+   */
+  async previewSetRegistries(identity: string, reputation: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetRegistries(identity, reputation) }));
+  }
+
+  /**
+   * Preview setWeights (INVALID_WEIGHTS unless they sum to 100)
+   */
+  async previewSetWeights(weights: ScoreWeights): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planSetWeights(weights) }));
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  /**
+   * Throw UNAUTHORIZED unless the signer owns the contract
+   */
+  private async requireOwner(contract: Contract, name: string): Promise<void> {
+    const signer = await this.requireSigner();
+    const [owner, caller] = await Promise.all([contract.owner(), signer.getAddress()]);
+    if (owner.toLowerCase() !== caller.toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, `Only the ${name} owner (${owner}) can do this`);
+    }
+  }
+
+  /**
+   * Throw INVALID_AGENT unless the value is a non-zero address
+   */
+  private requireAddress(address: string, name: string): void {
+    if (!ethers.isAddress(address) || address === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid ${name} address: ${address}`);
+    }
+  }
+}
+
+/**
+ * actionHash RookEscrow stores for a scheduled setOracle
+ */
+function timelockHash(oracle: string): string {
+  return ethers.solidityPackedKeccak256(['string', 'address'], ['setOracle', oracle]);
+}
@@ -1,22 +1,142 @@
-import { ethers, Contract, Wallet, Provider, TransactionReceipt } from 'ethers';
+import {
+  ethers,
+  Contract,
+  Provider,
+  Network,
+  Signer,
+  TransactionReceipt,
+  TransactionResponse,
+  TypedDataDomain
+} from 'ethers';
 import {
   EscrowParams,
   EscrowResult,
   VerificationResult,
+  VerifyOptions,
+  OracleScore,
   ChallengeParams,
   ChallengeResult,
+  ChallengeDetails,
+  ChallengeStatus,
+  DisputeResult,
+  DisputeDetails,
+  PendingDisputeResolution,
+  ReleaseConsent,
+  EscrowActions,
+  ProofMethod,
+  ProofResult,
+  ChallengeProofSubmission,
   TrustScoreBreakdown,
   RookConfig,
   EscrowStatus,
   RiskLevel,
-  AmountInput
+  AmountInput,
+  RookSigner,
+  RookEventMap,
+  RookEventName,
+  RookEventFilter,
+  EscrowCreatedEvent,
+  EscrowReleasedEvent,
+  SubscribeOptions,
+  ListEscrowsParams,
+  EscrowListItem,
+  EscrowQuote,
+  EscrowTimeline,
+  EscrowTimelineEntry,
+  TimelineOptions,
+  PreviewStep,
+  TransactionPreview,
+  TransactionQueueState,
+  WaitOptions,
+  FeeStrategy,
+  TransactionFees,
+  BuyerPolicy,
+  PolicyCheck,
+  SpendingOptions,
+  SpendUsage,
+  RookLogger,
+  RookHooks,
+  TxFailedEvent,
+  AgentResolver,
+  RookContracts
 } from './types';
-import { CONTRACTS, DEFAULT_THRESHOLD, CHALLENGE_STAKE } from './utils/constants';
+import {
+  CONTRACTS,
+  CHAIN_IDS,
+  DEFAULT_THRESHOLD,
+  CHALLENGE_STAKE,
+  CHALLENGE_BLOCKS,
+  CHALLENGE_RESPONSE_WINDOW
+} from './utils/constants';
 import { RookError, ErrorCodes } from './utils/errors';
+import { resolveSigner, validateSigner, walletFromPrivateKey } from './utils/signer';
+import { decodeContractError } from './utils/revert';
+import { PermitSignature, getPermitDomain, signPermit } from './utils/permit';
+import { TransactionQueue } from './utils/queue';
+import { resolveFees, bumpFees } from './utils/fees';
+import { signChallenge, computeResponseHash } from './utils/proof';
+import { toUSDCDecimal } from './utils/helpers';
+import { getEscrowActions } from './utils/actions';
+import { Spend, SpendBudget } from './utils/budget';
+import { consoleLogger, silentLogger } from './utils/logger';
+import { evaluatePolicy, mergePolicy, needsChallenge, policyNeedsScore, policyViolationError } from './utils/policy';
+import { createRpcProvider, fetchChainIds } from './utils/rpc';
+import {
+  ResolverRegistry,
+  createEnsResolver,
+  createMoltbookResolver,
+  DEFAULT_RESOLVER_CACHE_TTL
+} from './utils/resolvers';
+import { RookEvents, ORACLE_EVENTS } from './events';
+import { RookOracleClient } from './oracle';
 import RookEscrowABI from './abi/RookEscrow.json';
 import RookOracleABI from './abi/RookOracle.json';
 import ERC20ABI from './abi/ERC20.json';
 
+// On-chain EscrowStatus enum order
+const ESCROW_STATUSES: EscrowStatus[] = ['Active', 'Released', 'Refunded', 'Disputed', 'Challenged'];
+
+// On-chain ChallengeStatus enum order
+const CHALLENGE_STATUSES: ChallengeStatus[] = ['None', 'Active', 'Responded', 'Resolved'];
+
+// Gas limit used when estimation fails (or cannot run yet)
+const FALLBACK_GAS_LIMIT = 300000n;
+
+// Permit validity window in seconds
+const PERMIT_DEADLINE = 30 * 60;
+
+// Challenge stake in raw USDC units
+const STAKE_UNITS = ethers.parseUnits(CHALLENGE_STAKE.toString(), 6);
+
+// Events that move an escrow to another status
+const STATUS_EVENTS = [
+  'EscrowReleased',
+  'EscrowRefunded',
+  'EscrowDisputed',
+  'DisputeResolved',
+  'ChallengeInitiated',
+  'ChallengeResolved'
+] as const;
+
+// Events that end an active challenge before its deadline
+const CHALLENGE_EVENTS = ['ChallengeResponded', 'ChallengeResolved', 'EscrowDisputed'] as const;
+
+/**
+ * A contract write a method will send
+ */
+export interface PlannedCall {
+  contract: Contract;
+  method: string;
+  args: any[];
+  operation: string;
+  /** Args carry a placeholder permit signature (previews only) */
+  needsSignature?: boolean;
+  /** Escrow the call is for, when not its escrowId argument (hooks only) */
+  escrowId?: string;
+  /** USDC allowance the call grants: an approve, or a permit in the args (hooks only) */
+  approval?: { spender: string; amount: bigint };
+}
+
 /**
  * Configuration options for RookProtocol SDK
  */
@@ -27,8 +147,42 @@ export interface RookProtocolOptions {
   confirmations?: number;
   /** Request timeout in ms (default: 30000) */
   timeout?: number;
-  /** Enable debug logging */
+  /** Log to the console, debug messages included (ignored with `logger`) */
   debug?: boolean;
+  /** Where log messages go (default: the console with `debug`, nowhere without) */
+  logger?: RookLogger;
+  /** Transaction and RPC lifecycle callbacks */
+  hooks?: RookHooks;
+  /** Event polling interval in ms for HTTP-only providers (default: 4000) */
+  pollingInterval?: number;
+  /** Simulate writes with staticCall before sending, so reverts surface before gas is spent (default: true) */
+  preflight?: boolean;
+  /** Use EIP-2612 permits instead of a separate approve transaction when the token supports it (default: true) */
+  usePermit?: boolean;
+  /** Resend attempts after a nonce error (default: 3) */
+  maxNonceRetries?: number;
+  /** Transaction fee strategy (default: { type: 'provider' }) */
+  feeStrategy?: FeeStrategy;
+  /** Endpoint weight that must agree on a result when using rpcUrls (default: 1, plain failover) */
+  quorum?: number;
+  /** Retry rounds for failed RPC reads (default: 3) */
+  rpcRetries?: number;
+  /** Delay before the first RPC retry in ms, doubled every round (default: 250) */
+  rpcRetryDelay?: number;
+  /** Consecutive failures before an RPC endpoint is ejected (default: 3) */
+  ejectAfterFailures?: number;
+  /** How long an ejected RPC endpoint is skipped, in ms (default: 60000) */
+  ejectionPeriod?: number;
+  /** How long resolved names are cached, in ms (default: 300000) */
+  resolverCacheTtl?: number;
+  /** Look up display names for addresses in getEscrow and verify (default: true) */
+  reverseLookup?: boolean;
+  /** Check that the RPC (and wallet) report the configured chain ID before the first call (default: true) */
+  verifyChainId?: boolean;
+  /** Buyer rules createEscrow enforces (default: none) */
+  policy?: BuyerPolicy;
+  /** Spending caps and approvals for createEscrow and challenge (default: none) */
+  spending?: SpendingOptions;
 }
 
 /**
@@ -40,7 +194,7 @@ export interface RookProtocolOptions {
  * ```typescript
  * const rook = new RookProtocol({
  *   network: 'base-sepolia',
- *   privateKey: process.env.PRIVATE_KEY
+ *   signer: window.ethereum // or an ethers Signer, or signing callbacks
  * }, {
  *   gasLimitMultiplier: 1.5,
  *   confirmations: 3
@@ -48,13 +202,25 @@ export interface RookProtocolOptions {
  * ```
  */
 export class RookProtocol {
-  private provider: Provider;
-  private signer: Wallet | null;
-  private escrowContract: Contract;
-  private oracleContract: Contract;
-  private usdcContract: Contract;
+  protected provider: Provider;
+  private signerSource: RookSigner | null;
+  private signerPromise: Promise<Signer> | null = null;
+  protected escrowContract: Contract;
+  protected oracleContract: Promise<Contract> | null = null;
+  protected usdcContract: Contract;
   private network: string;
+  private chainId: number;
+  protected contracts: RookContracts;
+  private networkCheck: Promise<void> | null = null;
   private options: Required<RookProtocolOptions>;
+  private events: RookEvents;
+  private permitDomain: Promise<TypedDataDomain | null> | null = null;
+  private scoreLimits: Promise<{ maxScoreAge: number; challengeBonusDuration: number }> | null = null;
+  private queue: TransactionQueue;
+  private resolvers: ResolverRegistry;
+  private oracleClient: RookOracleClient | null;
+  private budget: SpendBudget | null;
+  private warnedGenesisScan = false;
 
   constructor(
     config: RookConfig,
@@ -62,65 +228,365 @@ export class RookProtocol {
   ) {
     this.network = config.network || 'base-sepolia';
 
-    // Validate network
-    if (!CONTRACTS[this.network]) {
+    // Validate network (custom networks bring their own chain ID, contracts and RPC)
+    const builtin = CONTRACTS[this.network];
+    const overrides = Object.entries(config.contracts ?? {}).filter(([, address]) => address !== undefined);
+    const contracts: Partial<RookContracts> = { ...builtin, ...Object.fromEntries(overrides) };
+    const chainId = config.chainId ?? CHAIN_IDS[this.network];
+    if (!builtin && (!chainId || !contracts.escrow || !contracts.usdc || !(config.rpcUrl || config.rpcUrls))) {
       throw new RookError(ErrorCodes.INVALID_NETWORK,
-        `Unsupported network: ${this.network}. Use 'base-sepolia' or 'base'`);
+        `Unsupported network: ${this.network}. Use 'base-sepolia' or 'base', or pass chainId, contracts.escrow, contracts.usdc and rpcUrl`);
+    }
+    if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+      throw new RookError(ErrorCodes.INVALID_NETWORK, `Invalid chainId: ${chainId}`);
+    }
+    for (const name of ['escrow', 'oracle', 'usdc'] as const) {
+      const address = contracts[name];
+      if (address !== undefined && !ethers.isAddress(address)) {
+        throw new RookError(ErrorCodes.INVALID_NETWORK, `Invalid ${name} address: ${address}`);
+      }
+    }
+    if (contracts.deployBlock !== undefined && (!Number.isSafeInteger(contracts.deployBlock) || contracts.deployBlock < 0)) {
+      throw new RookError(ErrorCodes.INVALID_NETWORK, `Invalid deployBlock: ${contracts.deployBlock}`);
     }
+    this.chainId = chainId;
+    this.contracts = contracts as RookContracts;
 
     // Merge options with defaults
     this.options = {
       gasLimitMultiplier: options.gasLimitMultiplier ?? 1.2,
       confirmations: options.confirmations ?? 2,
       timeout: options.timeout ?? 30000,
-      debug: options.debug ?? false
+      debug: options.debug ?? false,
+      logger: options.logger ?? (options.debug ? consoleLogger() : silentLogger),
+      hooks: options.hooks ?? {},
+      pollingInterval: options.pollingInterval ?? 4000,
+      preflight: options.preflight ?? true,
+      usePermit: options.usePermit ?? true,
+      maxNonceRetries: options.maxNonceRetries ?? 3,
+      feeStrategy: options.feeStrategy ?? { type: 'provider' },
+      quorum: options.quorum ?? 1,
+      rpcRetries: options.rpcRetries ?? 3,
+      rpcRetryDelay: options.rpcRetryDelay ?? 250,
+      ejectAfterFailures: options.ejectAfterFailures ?? 3,
+      ejectionPeriod: options.ejectionPeriod ?? 60000,
+      resolverCacheTtl: options.resolverCacheTtl ?? DEFAULT_RESOLVER_CACHE_TTL,
+      reverseLookup: options.reverseLookup ?? true,
+      verifyChainId: options.verifyChainId ?? true,
+      policy: options.policy ?? {},
+      spending: options.spending ?? {}
     };
 
-    // Setup provider with timeout
-    const rpcUrl = config.rpcUrl || this.getDefaultRpc(this.network);
-    this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, {
-      staticNetwork: true
-    });
-
-    // Setup signer
-    if (config.privateKey) {
-      if (this.options.debug) {
-        console.warn('[RookProtocol] Using private key in constructor. Consider using a signer interface for better security.');
-      }
-      this.signer = new Wallet(config.privateKey, this.provider);
+    // Setup provider with retries and failover (WebSocket URLs get push event subscriptions)
+    if (config.rpcUrl && config.rpcUrls) {
+      throw new RookError(ErrorCodes.INVALID_NETWORK, 'Provide either rpcUrl or rpcUrls, not both');
+    }
+    const rpcUrls = config.rpcUrls ?? [config.rpcUrl || this.getDefaultRpc(this.network)];
+    if (rpcUrls.length === 1 && typeof rpcUrls[0] === 'string' && rpcUrls[0].startsWith('ws')) {
+      this.provider = new ethers.WebSocketProvider(rpcUrls[0]);
+    } else {
+      this.provider = createRpcProvider(
+        rpcUrls,
+        Network.from(this.chainId),
+        this.options.quorum,
+        {
+          retries: this.options.rpcRetries,
+          retryDelay: this.options.rpcRetryDelay,
+          ejectAfterFailures: this.options.ejectAfterFailures,
+          ejectionPeriod: this.options.ejectionPeriod,
+          timeout: this.options.timeout,
+          log: (message) => this.log(message),
+          onError: (event) => this.emit('onRpcError', event)
+        }
+      );
+    }
+    this.events = new RookEvents(this.provider, this.options.pollingInterval);
+
+    // Name resolution (custom resolvers take precedence over ENS and Moltbook).
+    // ENS needs a mainnet provider, and handles go through the oracle when there is one
+    const ensProvider = typeof config.ensProvider === 'string'
+      ? new ethers.JsonRpcProvider(config.ensProvider, 'mainnet', { staticNetwork: ethers.Network.from('mainnet') })
+      : config.ensProvider ?? null;
+    this.resolvers = new ResolverRegistry([
+      ...(config.resolvers ?? []),
+      createEnsResolver(ensProvider),
+      createMoltbookResolver({ oracleUrl: config.oracleUrl, ...config.moltbook })
+    ], this.options.resolverCacheTtl);
+
+    // Setup signer (resolved lazily, EIP-1193 wallets need an async handshake)
+    if (config.privateKey && config.signer) {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, 'Provide either privateKey or signer, not both');
+    }
+    if (config.signer) {
+      validateSigner(config.signer);
+      this.signerSource = config.signer;
+    } else if (config.privateKey) {
+      this.options.logger.warn('Using private key in constructor. Consider using a signer interface for better security.');
+      this.signerSource = walletFromPrivateKey(config.privateKey, this.provider);
     } else {
-      this.signer = null;
+      this.signerSource = null;
     }
 
-    // Setup contracts
-    const addresses = CONTRACTS[this.network];
+    // Off-chain oracle service (challenge proofs, fresh scores)
+    this.oracleClient = config.oracleUrl
+      ? new RookOracleClient({ url: config.oracleUrl, apiKey: config.oracleApiKey, timeout: this.options.timeout })
+      : null;
 
-    this.escrowContract = new Contract(
-      addresses.escrow,
-      RookEscrowABI,
-      this.signer || this.provider
-    );
+    // Spend caps and approvals (persisted across restarts by the store)
+    this.budget = options.spending ? new SpendBudget(options.spending) : null;
 
-    this.oracleContract = new Contract(
-      addresses.oracle,
-      RookOracleABI,
-      this.signer || this.provider
+    // Writes share one queue so parallel calls don't collide on nonces
+    this.queue = new TransactionQueue(
+      async () => (await this.requireSigner()).getNonce('pending'),
+      (hash) => this.provider.getTransaction(hash),
+      this.options.maxNonceRetries
     );
 
-    this.usdcContract = new Contract(
-      addresses.usdc,
-      ERC20ABI,
-      this.signer || this.provider
-    );
+    // Setup contracts (read-only, connected to the signer per write). The oracle
+    // address is looked up from the escrow on first use when not configured
+    this.escrowContract = new Contract(this.contracts.escrow, RookEscrowABI, this.provider);
+    this.usdcContract = new Contract(this.contracts.usdc, ERC20ABI, this.provider);
+    if (this.contracts.oracle && this.contracts.oracle !== ethers.ZeroAddress) {
+      this.oracleContract = Promise.resolve(new Contract(this.contracts.oracle, RookOracleABI, this.provider));
+    }
+  }
+
+  // =================================================================
+  // NETWORK
+  // =================================================================
+
+  /**
+   * Check that the RPC endpoints report the configured chain ID
+   *
+   * Runs once, before the first call that touches the chain (unless
+   * `verifyChainId` is off). Call it directly to fail fast at startup.
+   *
+   * @throws CHAIN_MISMATCH if an endpoint is on another chain
+   */
+  async checkNetwork(): Promise<void> {
+    if (!this.networkCheck) {
+      this.networkCheck = (async () => {
+        let chainIds: bigint[];
+        try {
+          chainIds = await fetchChainIds(this.provider);
+        } catch (error: any) {
+          throw new RookError(ErrorCodes.NETWORK_ERROR, `Could not read chain ID: ${error.shortMessage || error.message}`);
+        }
+        const actual = chainIds.find((id) => id !== BigInt(this.chainId));
+        if (actual !== undefined) {
+          throw new RookError(ErrorCodes.CHAIN_MISMATCH,
+            `RPC is on chain ${actual}, expected ${this.chainId} (${this.network})`,
+            { expected: this.chainId, actual: Number(actual) });
+        }
+      })().catch((error) => {
+        // Check again on the next call
+        this.networkCheck = null;
+        throw error;
+      });
+    }
+    return this.networkCheck;
+  }
+
+  /**
+   * Contract addresses in use (the oracle is discovered from the escrow if not configured),
+   * and the deployment block event queries start at (0 if unknown)
+   */
+  async getContracts(): Promise<Required<RookContracts>> {
+    const oracle = await this.getOracleContract();
+    return {
+      escrow: this.contracts.escrow,
+      oracle: await oracle.getAddress(),
+      usdc: this.contracts.usdc,
+      deployBlock: this.contracts.deployBlock ?? 0
+    };
+  }
+
+  /**
+   * Chain ID the SDK expects
+   */
+  getChainId(): number {
+    return this.chainId;
+  }
+
+  protected async ensureNetwork(): Promise<void> {
+    if (this.options.verifyChainId) {
+      await this.checkNetwork();
+    }
+  }
+
+  /**
+   * RookOracle contract, discovered from RookEscrow.oracle() when no address is configured
+   */
+  protected async getOracleContract(): Promise<Contract> {
+    if (!this.oracleContract) {
+      this.oracleContract = (async () => {
+        await this.ensureNetwork();
+        let address: string;
+        try {
+          address = await this.escrowContract.oracle();
+        } catch (error: any) {
+          throw new RookError(ErrorCodes.NETWORK_ERROR,
+            `Could not discover the oracle address from RookEscrow: ${error.shortMessage || error.message}`);
+        }
+        this.log(`Discovered RookOracle at ${address}`);
+        return new Contract(address, RookOracleABI, this.provider);
+      })().catch((error) => {
+        this.oracleContract = null;
+        throw error;
+      });
+    }
+    return this.oracleContract;
+  }
+
+  // =================================================================
+  // SIGNER
+  // =================================================================
+
+  /**
+   * Resolve the configured signer, throwing NO_SIGNER if there is none
+   */
+  protected async requireSigner(): Promise<Signer> {
+    if (!this.signerSource) throw new RookError(ErrorCodes.NO_SIGNER);
+
+    if (!this.signerPromise) {
+      this.signerPromise = (async () => {
+        await this.ensureNetwork();
+        const signer = await resolveSigner(this.signerSource!, this.provider);
+        // Wallets with their own provider (EIP-1193) may sit on another chain
+        if (this.options.verifyChainId && signer.provider && signer.provider !== this.provider) {
+          const { chainId } = await signer.provider.getNetwork();
+          if (chainId !== BigInt(this.chainId)) {
+            throw new RookError(ErrorCodes.CHAIN_MISMATCH,
+              `Wallet is on chain ${chainId}, expected ${this.chainId} (${this.network})`,
+              { expected: this.chainId, actual: Number(chainId) });
+          }
+        }
+        return signer;
+      })().catch((error) => {
+        // Allow a retry (e.g. user rejected the wallet connection prompt)
+        this.signerPromise = null;
+        throw error;
+      });
+    }
+    return this.signerPromise;
+  }
+
+  /**
+   * Connect a contract to the signer for a write call
+   */
+  private withSigner(contract: Contract, signer: Signer): Contract {
+    return contract.connect(signer) as Contract;
+  }
+
+  // =================================================================
+  // TRANSACTIONS
+  // =================================================================
+
+  /**
+   * Re-broadcast a pending transaction with bumped fees
+   *
+   * @param txHash - Pending transaction sent by this signer (e.g. `error.details.txHash` after a timeout)
+   * @param bumpPercent - Fee increase over the original (min and default: 10)
+   * @returns Hash of the replacement transaction
+   */
+  async speedUp(txHash: string, bumpPercent: number = 10): Promise<string> {
+    const { signer, tx } = await this.getReplaceableTransaction(txHash);
+
+    return this.replaceTransaction(signer, tx, {
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit
+    }, bumpPercent, 'Speed-up');
+  }
+
+  /**
+   * Cancel a pending transaction by replacing it with a 0-value self-transfer
+   *
+   * @param txHash - Pending transaction sent by this signer
+   * @param bumpPercent - Fee increase over the original (min and default: 10)
+   * @returns Hash of the cancelling transaction
+   */
+  async cancel(txHash: string, bumpPercent: number = 10): Promise<string> {
+    const { signer, tx } = await this.getReplaceableTransaction(txHash);
+
+    return this.replaceTransaction(signer, tx, {
+      to: tx.from,
+      data: '0x',
+      value: 0n,
+      gasLimit: 21000n
+    }, bumpPercent, 'Cancel');
+  }
+
+  private async getReplaceableTransaction(txHash: string): Promise<{ signer: Signer; tx: TransactionResponse }> {
+    const signer = await this.requireSigner();
+    const tx = await this.provider.getTransaction(txHash);
+
+    if (!tx) {
+      throw new RookError(ErrorCodes.TX_NOT_FOUND, `Transaction ${txHash} not found`);
+    }
+    if (tx.blockNumber !== null) {
+      throw new RookError(ErrorCodes.TX_ALREADY_MINED,
+        `Transaction ${txHash} was mined in block ${tx.blockNumber}`, { txHash, blockNumber: tx.blockNumber });
+    }
+    if (tx.from.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, `Transaction ${txHash} was not sent by this signer`);
+    }
+    return { signer, tx };
+  }
+
+  private async replaceTransaction(
+    signer: Signer,
+    tx: TransactionResponse,
+    request: { to: string | null; data: string; value: bigint; gasLimit: bigint },
+    bumpPercent: number,
+    operation: string
+  ): Promise<string> {
+    const original: TransactionFees = tx.maxFeePerGas !== null && tx.maxPriorityFeePerGas !== null
+      ? { maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas }
+      : { gasPrice: tx.gasPrice };
+    const current = await resolveFees(this.provider, this.options.feeStrategy, this.options.logger);
+    const fees = bumpFees(original, current, bumpPercent, this.options.feeStrategy.maxFeeCap);
+
+    try {
+      const replacement = await signer.sendTransaction({ ...request, nonce: tx.nonce, chainId: tx.chainId, ...fees });
+      this.queue.replace(tx.hash, replacement.hash);
+      return replacement.hash;
+    } catch (error: any) {
+      throw this.toRookError(error, operation);
+    }
+  }
+
+  /**
+   * Get the state of the transaction queue (queued sends, unconfirmed txs, next nonce)
+   */
+  getQueueState(): TransactionQueueState {
+    return this.queue.getState();
+  }
+
+  /**
+   * Get escrow and challenge stake spend in the current budget windows
+   *
+   * @returns Usage, reserved spends included (null without `spending` options)
+   */
+  async getSpendUsage(): Promise<SpendUsage | null> {
+    return this.budget ? this.budget.getUsage() : null;
+  }
+
+  /**
+   * Get the signer address
+   */
+  async getAddress(): Promise<string> {
+    const signer = await this.requireSigner();
+    return signer.getAddress();
   }
 
   // =================================================================
   // VALIDATION HELPERS
   // =================================================================
 
-  // Cache for oracle timeout (read from chain)
-  private oracleTimeoutCache: { value: number; timestamp: number } | null = null;
-  private readonly TIMEOUT_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+  // RookEscrow.ORACLE_TIMEOUT is a constant: read once
+  private oracleTimeout: Promise<number> | null = null;
 
   /**
    * Normalize amount input to bigint (USDC units with 6 decimals)
@@ -143,23 +609,18 @@ export class RookProtocol {
   }
 
   /**
-   * Get oracle timeout from chain (cached)
+   * RookEscrow.ORACLE_TIMEOUT, in seconds (read once; a failed read is retried on the next call)
    */
   async getOracleTimeout(): Promise<number> {
-    // Return cached value if valid
-    if (this.oracleTimeoutCache && Date.now() - this.oracleTimeoutCache.timestamp < this.TIMEOUT_CACHE_TTL) {
-      return this.oracleTimeoutCache.value;
-    }
-
-    try {
-      const timeout = await this.escrowContract.ORACLE_TIMEOUT();
-      const value = Number(timeout);
-      this.oracleTimeoutCache = { value, timestamp: Date.now() };
-      return value;
-    } catch (error) {
-      // Fallback to 1 day if contract call fails
-      return 24 * 60 * 60;
+    if (!this.oracleTimeout) {
+      this.oracleTimeout = this.escrowContract.ORACLE_TIMEOUT()
+        .then(Number)
+        .catch((error: any) => {
+          this.oracleTimeout = null;
+          throw this.toRookError(error, 'Oracle timeout read');
+        });
     }
+    return this.oracleTimeout!;
   }
 
   /**
@@ -204,21 +665,42 @@ export class RookProtocol {
 
   /**
    * Wait for transaction with timeout and confirmation checks
+   *
+   * A call still queued when the timeout fires is dropped from the queue, so a
+   * timeout without `details.txHash` means nothing was sent. A send already
+   * under way is waited out and its hash reported.
    */
   private async waitForTransaction(
-    txPromise: Promise<any>,
-    operation: string
+    txPromise: Promise<TransactionResponse>,
+    operation: string,
+    queued: AbortController
   ): Promise<TransactionReceipt> {
+    let tx: TransactionResponse | null = null;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // A send that completes after the timeout stays tracked in the queue
+    txPromise.catch(() => undefined);
+
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new RookError(ErrorCodes.NETWORK_ERROR,
-          `${operation} timed out after ${this.options.timeout}ms`));
+      timer = setTimeout(() => {
+        timedOut = true;
+        queued.abort();
+        txPromise.then(
+          (sent) => reject(new RookError(ErrorCodes.NETWORK_ERROR,
+            `${operation} timed out after ${this.options.timeout}ms, transaction ${sent.hash} is still pending`,
+            { txHash: sent.hash, nonce: sent.nonce, operation, pending: true })),
+          (error) => reject(error instanceof RookError && error.code === ErrorCodes.ABORTED
+            ? new RookError(ErrorCodes.NETWORK_ERROR,
+              `${operation} timed out after ${this.options.timeout}ms in the queue and was not sent`, { operation })
+            : error)
+        );
       }, this.options.timeout);
     });
 
     try {
-      const tx = await Promise.race([txPromise, timeoutPromise]);
-      const receipt = await tx.wait(this.options.confirmations);
+      tx = await Promise.race([txPromise, timeoutPromise]);
+      const receipt = await Promise.race([this.waitForReceipt(tx, operation), timeoutPromise]);
 
       if (receipt.status !== 1) {
         throw new RookError(ErrorCodes.TRANSFER_FAILED,
@@ -227,16 +709,150 @@ export class RookProtocol {
 
       return receipt;
     } catch (error: any) {
-      if (error instanceof RookError) throw error;
+      throw this.toRookError(error, operation);
+    } finally {
+      clearTimeout(timer);
+      // Timed-out transactions stay in the queue state for speedUp()/cancel()
+      if (tx && !timedOut) this.queue.complete(tx.hash);
+    }
+  }
 
-      if (error.code === 'CALL_EXCEPTION') {
-        throw new RookError(ErrorCodes.TRANSFER_FAILED,
-          `${operation} failed: ${error.reason || 'Contract call reverted'}`);
+  /**
+   * Wait for confirmations, following speed-up replacements
+   */
+  private async waitForReceipt(tx: TransactionResponse, operation: string): Promise<TransactionReceipt> {
+    try {
+      const receipt = await tx.wait(this.options.confirmations);
+      if (!receipt) throw new RookError(ErrorCodes.NETWORK_ERROR, `${operation} failed: no receipt`);
+      return receipt;
+    } catch (error: any) {
+      if (error.code !== 'TRANSACTION_REPLACED') throw error;
+      this.queue.complete(error.replacement.hash);
+
+      if (error.cancelled) {
+        throw new RookError(ErrorCodes.TX_CANCELLED,
+          `${operation} was replaced by transaction ${error.replacement.hash}`,
+          { txHash: tx.hash, replacementHash: error.replacement.hash, operation });
+      }
+      // Sped up: the replacement makes the same call
+      return error.receipt;
+    }
+  }
+
+  /**
+   * Map a failed call to a RookError, decoding contract custom errors where possible
+   */
+  private toRookError(error: any, operation: string): RookError {
+    if (error instanceof RookError) return error;
+
+    const decoded = decodeContractError(error, operation);
+    if (decoded) return decoded;
+
+    if (error.code === 'CALL_EXCEPTION') {
+      return new RookError(ErrorCodes.TRANSFER_FAILED,
+        `${operation} failed: ${error.reason || 'Contract call reverted'}`);
+    }
+
+    return new RookError(ErrorCodes.NETWORK_ERROR,
+      `${operation} failed: ${error.shortMessage || error.message}`);
+  }
+
+  /**
+   * Send a contract write through the signer
+   *
+   * Runs a staticCall preflight first (unless disabled), so reverts are
+   * decoded into specific RookErrors before any gas is spent. Submission,
+   * confirmation and failure are reported to the hooks.
+   */
+  private async execute(call: PlannedCall): Promise<TransactionReceipt> {
+    const { contract, method, args, operation } = call;
+    const signer = await this.requireSigner();
+    const connected = this.withSigner(contract, signer);
+    const base = { operation, method, escrowId: call.escrowId ?? this.escrowIdArg(contract, method, args), startedAt: Date.now() };
+    const sent: { txHash?: string; nonce?: number; submittedAt?: number } = {};
+    let stage: TxFailedEvent['stage'] = 'preflight';
+
+    try {
+      if (this.options.preflight) {
+        await connected[method].staticCall(...args);
       }
 
-      throw new RookError(ErrorCodes.NETWORK_ERROR,
-        `${operation} failed: ${error.message}`);
+      stage = 'send';
+      const gasLimit = await this.estimateGas(connected, method, args);
+      const queued = new AbortController();
+      const txPromise = this.queue.submit(operation, async (nonce) => {
+        // Priced at send time: the call may have waited in the queue
+        const fees = await resolveFees(this.provider, this.options.feeStrategy, this.options.logger);
+        return connected[method](...args, { gasLimit, nonce, ...fees });
+      }, queued.signal);
+      txPromise.then((tx) => {
+        Object.assign(sent, { txHash: tx.hash, nonce: tx.nonce, submittedAt: Date.now() });
+        stage = 'confirm';
+        const submitted = { ...base, txHash: tx.hash, nonce: tx.nonce, submittedAt: sent.submittedAt! };
+        this.log(`${operation} sent: ${tx.hash}`, { escrowId: base.escrowId, nonce: tx.nonce });
+        this.emit('onTxSubmitted', { ...submitted, submitMs: submitted.submittedAt - base.startedAt });
+        if (call.approval) {
+          this.emit('onApprovalSent', {
+            ...submitted,
+            kind: method === 'approve' ? 'approve' : 'permit',
+            spender: call.approval.spender,
+            amount: call.approval.amount
+          });
+        }
+      }, () => undefined);
+
+      const receipt = await this.waitForTransaction(txPromise, operation, queued);
+      const confirmedAt = Date.now();
+      this.emit('onTxConfirmed', {
+        ...base,
+        escrowId: base.escrowId ?? this.createdEscrowId(contract, method, receipt),
+        txHash: receipt.hash,
+        nonce: sent.nonce!,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+        submittedAt: sent.submittedAt!,
+        confirmedAt,
+        submitMs: sent.submittedAt! - base.startedAt,
+        confirmMs: confirmedAt - sent.submittedAt!,
+        durationMs: confirmedAt - base.startedAt
+      });
+      return receipt;
+    } catch (error: any) {
+      const rookError = this.toRookError(error, operation);
+      this.options.logger.warn(rookError.message,
+        { operation, stage, escrowId: base.escrowId, code: rookError.code, txHash: sent.txHash });
+      this.emit('onTxFailed', { ...base, stage, error: rookError, ...sent, durationMs: Date.now() - base.startedAt });
+      throw rookError;
+    }
+  }
+
+  /**
+   * The escrowId argument of a contract call, if it takes one
+   */
+  private escrowIdArg(contract: Contract, method: string, args: any[]): string | undefined {
+    const index = contract.interface.getFunction(method)?.inputs.findIndex((input) => input.name === 'escrowId') ?? -1;
+    return index >= 0 ? args[index] : undefined;
+  }
+
+  /**
+   * ID of the escrow a createEscrow receipt created
+   */
+  private createdEscrowId(contract: Contract, method: string, receipt: TransactionReceipt): string | undefined {
+    if (!method.startsWith('createEscrow')) return undefined;
+    return this.findEscrowEvent(receipt, String(contract.target), 'EscrowCreated')?.args?.escrowId;
+  }
+
+  /**
+   * Send planned calls in order
+   *
+   * @returns Receipt of the last call
+   */
+  protected async executeAll(calls: PlannedCall[]): Promise<TransactionReceipt> {
+    let receipt: TransactionReceipt | undefined;
+    for (const call of calls) {
+      receipt = await this.execute(call);
     }
+    return receipt!;
   }
 
   // =================================================================
@@ -246,6 +862,12 @@ export class RookProtocol {
   /**
    * Create a new escrow with full validation
    *
+   * With `maxFeeBps`, refuses (FEE_TOO_HIGH) when the protocol fee is above
+   * it, e.g. raised since quoteEscrow(). The buyer policy is checked before
+   * any funds move (POLICY_VIOLATION). With `requireChallenge`, or a seller
+   * at one of the policy's `challengeRiskLevels`, the escrow is challenged
+   * right after creation; a failed challenge is reported in `challengeError`.
+   *
    * @param params - Escrow parameters
    * @returns Escrow result with ID and transaction details
    *
@@ -260,147 +882,479 @@ export class RookProtocol {
    * ```
    */
   async createEscrow(params: EscrowParams): Promise<EscrowResult> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+    const signer = await this.requireSigner();
+    const buyerAddress = await signer.getAddress();
 
-    // Validate and normalize amount
-    const amount = this.validateEscrowParams(params);
-    const jobHash = ethers.keccak256(ethers.toUtf8Bytes(params.job));
-    const threshold = params.threshold || DEFAULT_THRESHOLD;
+    // The permit is signed only once the spend is authorized
+    const { calls, seller, amount, threshold, escrowAddress, policy } = await this.planCreateEscrow(params, buyerAddress, false);
 
-    const seller = await this.resolveAddress(params.recipient);
-
-    // Check buyer balance
-    const buyerAddress = await this.signer.getAddress();
-    const balance = await this.usdcContract.balanceOf(buyerAddress);
-    if (balance < amount) {
-      throw new RookError(ErrorCodes.INSUFFICIENT_BALANCE,
-        `Insufficient USDC balance. Have: ${ethers.formatUnits(balance, 6)}, Need: ${params.amount}`);
+    // An escrow whose required challenge is over budget is not created
+    if (policy.challenge && this.budget) {
+      await this.budget.check({ kind: 'challenge', amount: STAKE_UNITS, counterparty: seller });
     }
+    const reservation = await this.reserveSpend({ kind: 'escrow', amount, counterparty: seller, job: params.job });
 
-    // Check allowance
-    const escrowAddress = await this.escrowContract.getAddress();
-    const allowance = await this.usdcContract.allowance(buyerAddress, escrowAddress);
-    if (allowance < amount) {
-      const approveTx = await this.usdcContract.approve(escrowAddress, amount);
-      await this.waitForTransaction(Promise.resolve(approveTx), 'USDC approval');
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await this.executeAll(await this.signPlannedPermit(calls));
+    } catch (error) {
+      await this.releaseSpend(reservation, error);
+      throw error;
     }
 
-    // Create escrow with gas estimation
-    const txPromise = this.escrowContract.createEscrow(
-      seller,
-      amount,
-      jobHash,
-      threshold,
-      {
-        gasLimit: await this.estimateGas('createEscrow', [seller, amount, jobHash, threshold])
-      }
-    );
-
-    const receipt = await this.waitForTransaction(txPromise, 'Escrow creation');
-
-    // Parse escrow ID from event (filter by contract address to prevent hijacking)
-    const iface = this.escrowContract.interface;
-    const escrowCreatedEvent = receipt.logs
-      .filter((log: any) => log.address.toLowerCase() === escrowAddress.toLowerCase())
-      .map((log: any) => {
-        try {
-          return iface.parseLog(log);
-        } catch {
-          return null;
-        }
-      })
-      .find((parsed: any) => parsed && parsed.name === 'EscrowCreated');
-
+    // Parse escrow ID from event
+    const escrowCreatedEvent = this.findEscrowEvent(receipt, escrowAddress, 'EscrowCreated');
     const escrowId = escrowCreatedEvent?.args?.escrowId;
 
+    await this.commitSpend(reservation, { escrowId, txHash: receipt.hash });
+
     if (!escrowId) {
       throw new RookError(ErrorCodes.UNKNOWN, 'Failed to parse escrow ID from transaction');
     }
 
-    return {
+    const result: EscrowResult = {
       id: escrowId,
       buyer: buyerAddress,
       seller,
       amount: Number(ethers.formatUnits(amount, 6)),
+      amountUnits: amount,
+      amountDecimal: toUSDCDecimal(amount),
       job: params.job,
       threshold,
       status: 'Active' as EscrowStatus,
       createdAt: Math.floor(Date.now() / 1000),
       txHash: receipt.hash
     };
-  }
 
-  /**
-   * Estimate gas for a contract method
-   */
-  private async estimateGas(method: string, args: any[]): Promise<bigint> {
-    try {
-      const estimated = await this.escrowContract[method].estimateGas(...args);
-      return BigInt(Math.floor(Number(estimated) * this.options.gasLimitMultiplier));
-    } catch {
-      return BigInt(300000);
+    if (policy.challenge) {
+      const reason = params.requireChallenge
+        ? 'Challenge required by the buyer'
+        : `Seller is ${policy.verification!.risk_level} risk`;
+      try {
+        result.challenge = await this.challenge({ escrowId, reason });
+        result.status = 'Challenged';
+      } catch (error: any) {
+        this.options.logger.warn(`Challenge of escrow ${escrowId} failed: ${error.message}`, { escrowId });
+        result.challengeError = this.toRookError(error, 'Challenge initiation');
+      }
     }
+
+    return result;
   }
 
   /**
-   * Release escrow (requires oracle authorization)
+   * Quote an escrow: protocol fee, seller net, approval, gas and the seller's score
    *
-   * @param escrowId - Escrow identifier
-   * @returns Transaction hash
+   * The fee is taken on release at the rate in force then. Pass the quoted
+   * `feeBps` as `maxFeeBps` to createEscrow to refuse a fee raised in between.
+   * Only the fee read is required: a failed score read or dry run is reported
+   * in the quote (`scoreError`, `error`). Without a signer the dry run is
+   * skipped (`dryRun: false`).
+   *
+   * @param params - Escrow parameters, as for createEscrow
+   * @returns Quote, with `ok: false` and `error` if createEscrow would fail now
+   *
+   * @example
+   * ```typescript
+   * const quote = await rook.quoteEscrow({ amount: '250', recipient: '@SellerAgent', job: 'Audit' });
+   * console.log(formatUSDC(quote.sellerNet), quote.meetsThreshold);
+   * await rook.createEscrow({ amount: '250', recipient: '@SellerAgent', job: 'Audit', maxFeeBps: quote.feeBps });
+   * ```
    */
-  async release(escrowId: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+  async quoteEscrow(params: EscrowParams): Promise<EscrowQuote> {
+    const amount = this.validateEscrowParams(params);
+    const threshold = params.threshold ?? DEFAULT_THRESHOLD;
+    const seller = await this.resolveAddress(params.recipient);
+    const dryRun = this.signerSource !== null;
 
-    const isOp = await this.isOperator();
-    if (!isOp) {
-      throw new RookError(ErrorCodes.UNAUTHORIZED,
-        'Only oracle operators can release escrows. Use releaseWithConsent() after timeout.');
-    }
+    const [feeBps, preview, score] = await Promise.allSettled([
+      this.getFeeBps(),
+      dryRun ? this.previewCreateEscrow(params) : Promise.reject(new RookError(ErrorCodes.NO_SIGNER,
+        'No signer: allowance, balance and gas were not checked')),
+      this.verify(seller)
+    ]);
+    if (feeBps.status === 'rejected') throw this.toRookError(feeBps.reason, 'Quote');
 
-    const txPromise = this.oracleContract.triggerRelease(escrowId);
-    const receipt = await this.waitForTransaction(txPromise, 'Escrow release');
+    const protocolFee = (amount * BigInt(feeBps.value)) / 10000n;
+    const steps = preview.status === 'fulfilled' ? preview.value.steps : [];
+    const fresh = score.status === 'fulfilled' && score.value.isFresh;
+    const sellerScore = score.status === 'fulfilled' ? Math.round(score.value.trust_score * 100) : 0;
 
-    return receipt.hash;
+    return {
+      seller,
+      amount,
+      feeBps: feeBps.value,
+      protocolFee,
+      sellerNet: amount - protocolFee,
+      approvalRequired: steps.some((step) => step.method === 'approve') ? amount : 0n,
+      usesPermit: steps.some((step) => step.method === 'createEscrowWithPermit'),
+      totalGas: preview.status === 'fulfilled' ? preview.value.totalGas : 0n,
+      gasPrice: preview.status === 'fulfilled' ? preview.value.gasPrice : 0n,
+      estimatedCost: preview.status === 'fulfilled' ? preview.value.estimatedCost : 0n,
+      threshold,
+      sellerScore,
+      sellerScoreFresh: fresh,
+      meetsThreshold: fresh && sellerScore >= threshold,
+      scoreError: score.status === 'rejected' ? this.toRookError(score.reason, 'Score read') : undefined,
+      dryRun,
+      ok: preview.status === 'fulfilled' && preview.value.ok,
+      error: preview.status === 'fulfilled' ? preview.value.error : this.toRookError(preview.reason, 'Preview')
+    };
   }
 
   /**
-   * Release escrow with mutual consent (after oracle timeout)
+   * Validate an escrow and plan its transactions: createEscrowWithPermit, or
+   * approve + createEscrow when permit is unavailable
    *
-   * @param escrowId - Escrow identifier
-   * @returns Transaction hash
+   * @param signPermit - Sign the permit (false for previews: placeholder signature)
    */
-  async releaseWithConsent(escrowId: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+  private async planCreateEscrow(params: EscrowParams, buyerAddress: string, signPermit: boolean = true) {
+    // Validate and normalize amount
+    const amount = this.validateEscrowParams(params);
+    const jobHash = ethers.keccak256(ethers.toUtf8Bytes(params.job));
+    const threshold = params.threshold || DEFAULT_THRESHOLD;
 
-    const escrow = await this.getEscrow(escrowId);
-    if (escrow.status !== 'Active') {
-      throw new RookError(ErrorCodes.ESCROW_NOT_ACTIVE,
-        `Escrow is ${escrow.status.toLowerCase()}, not active`);
-    }
+    const seller = await this.resolveAddress(params.recipient);
 
-    // Get oracle timeout from chain (cached)
-    const oracleTimeout = await this.getOracleTimeout();
-    if (escrow.createdAt && (Date.now() / 1000 - escrow.createdAt < oracleTimeout)) {
-      const hoursRemaining = Math.ceil((oracleTimeout - (Date.now() / 1000 - escrow.createdAt)) / 3600);
-      throw new RookError(ErrorCodes.UNAUTHORIZED,
-        `Oracle timeout not met. Wait ${hoursRemaining} more hours.`);
+    if (params.maxFeeBps !== undefined) {
+      const feeBps = await this.getFeeBps();
+      if (feeBps > params.maxFeeBps) {
+        throw new RookError(ErrorCodes.FEE_TOO_HIGH,
+          `Protocol fee is ${feeBps} bps, above maxFeeBps ${params.maxFeeBps}`, { feeBps, maxFeeBps: params.maxFeeBps });
+      }
     }
 
-    const txPromise = this.escrowContract.releaseWithConsent(escrowId);
-    const receipt = await this.waitForTransaction(txPromise, 'Consent release');
+    const policy = await this.evaluateEscrowPolicy(params, amount, seller, buyerAddress);
+    if (!policy.allowed) throw policyViolationError(policy);
 
-    return receipt.hash;
-  }
+    // Check buyer balance (the challenge stake comes on top)
+    const balance = await this.usdcContract.balanceOf(buyerAddress);
+    const stake = policy.challenge ? STAKE_UNITS : 0n;
+    if (balance < amount + stake) {
+      const need = stake > 0n ? `${params.amount} + ${CHALLENGE_STAKE} challenge stake` : `${params.amount}`;
+      throw new RookError(ErrorCodes.INSUFFICIENT_BALANCE,
+        `Insufficient USDC balance. Have: ${ethers.formatUnits(balance, 6)}, Need: ${need}`);
+    }
 
-  /**
-   * Request refund (buyer only)
-   *
+    // Check allowance
+    const escrowAddress = await this.escrowContract.getAddress();
+    const allowance = await this.usdcContract.allowance(buyerAddress, escrowAddress);
+
+    const calls: PlannedCall[] = [];
+    const permit = allowance < amount ? await this.getPermit(escrowAddress, amount, signPermit) : null;
+    if (permit) {
+      calls.push({
+        contract: this.escrowContract,
+        method: 'createEscrowWithPermit',
+        args: [seller, amount, jobHash, threshold, permit.deadline, permit.v, permit.r, permit.s],
+        operation: 'Escrow creation',
+        needsSignature: !signPermit,
+        approval: { spender: escrowAddress, amount }
+      });
+      return { calls, seller, amount, threshold, escrowAddress, policy };
+    }
+
+    if (allowance < amount) {
+      calls.push({
+        contract: this.usdcContract,
+        method: 'approve',
+        args: [escrowAddress, amount],
+        operation: 'USDC approval',
+        approval: { spender: escrowAddress, amount }
+      });
+    }
+    calls.push({
+      contract: this.escrowContract,
+      method: 'createEscrow',
+      args: [seller, amount, jobHash, threshold],
+      operation: 'Escrow creation'
+    });
+
+    return { calls, seller, amount, threshold, escrowAddress, policy };
+  }
+
+  /**
+   * Check an escrow against the buyer policy without creating it
+   *
+   * Applies RookProtocolOptions.policy with `params.policy` over it, and
+   * returns the violations rather than throwing POLICY_VIOLATION.
+   *
+   * @param params - Escrow parameters, as for createEscrow
+   * @param buyer - Buyer whose challenge cooldown counts (default: the signer)
+   *
+   * @example
+   * ```typescript
+   * const check = await rook.checkPolicy({ amount: 500, recipient: '@SellerAgent', job: 'Audit' });
+   * if (!check.allowed) console.log(check.violations.map((v) => v.message));
+   * ```
+   */
+  async checkPolicy(params: EscrowParams, buyer?: string): Promise<PolicyCheck> {
+    const amount = this.validateEscrowParams(params);
+    const seller = await this.resolveAddress(params.recipient);
+    return this.evaluateEscrowPolicy(params, amount, seller, buyer);
+  }
+
+  private async evaluateEscrowPolicy(
+    params: EscrowParams,
+    amount: bigint,
+    seller: string,
+    buyer?: string
+  ): Promise<PolicyCheck> {
+    const policy = mergePolicy(this.options.policy, params.policy);
+    const verification = policyNeedsScore(policy) ? await this.verifyForPolicy(params.recipient, policy) : null;
+    const challenge = needsChallenge(policy, verification, params.requireChallenge);
+
+    const resolveAll = (agents?: string[]) => agents && Promise.all(agents.map((agent) => this.resolveAddress(agent)));
+    const [allowlist, denylist, nextChallengeTime, now] = await Promise.all([
+      resolveAll(policy.allowlist),
+      resolveAll(policy.denylist),
+      challenge
+        ? this.escrowContract.getNextChallengeTime(buyer ?? await this.getAddress()).then(Number)
+        : 0,
+      challenge ? this.getBlockTimestamp() : 0
+    ]);
+
+    const violations = evaluatePolicy(policy, {
+      amount,
+      seller,
+      verification,
+      allowlist,
+      denylist,
+      challenge,
+      nextChallengeTime,
+      now
+    });
+    return { seller, allowed: violations.length === 0, violations, challenge, verification };
+  }
+
+  /**
+   * Seller score for the policy, rescored first if the policy asks for it
+   *
+   * A score still stale after the rescore is left to the requireFresh rule.
+   */
+  private async verifyForPolicy(agent: string, policy: BuyerPolicy): Promise<VerificationResult> {
+    const verification = await this.verify(agent);
+    if (verification.isFresh || policy.requireFresh !== 'rescore') return verification;
+
+    try {
+      return await this.verify(agent, { requireFresh: 'rescore' });
+    } catch (error: any) {
+      if (error instanceof RookError && error.code === ErrorCodes.STALE_SCORE) return verification;
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a spend against the budget (null without `spending` options)
+   */
+  private async reserveSpend(spend: Spend): Promise<string | null> {
+    return this.budget ? this.budget.authorize(spend) : null;
+  }
+
+  /**
+   * Give a reservation back unless the transaction may still be mined
+   * (`details.pending`: sent but unconfirmed). A write that timed out in the
+   * queue was dropped before sending, so its reservation is released.
+   */
+  private async releaseSpend(reservation: string | null, error: unknown): Promise<void> {
+    if (!reservation || (error instanceof RookError && error.details?.pending)) return;
+    await this.budget!.release(reservation).catch((saveError) => {
+      this.options.logger.warn(`Releasing spend ${reservation} failed: ${saveError.message}`);
+    });
+  }
+
+  /**
+   * Mark a reservation as spent (a failed save is logged: the transaction is mined)
+   */
+  private async commitSpend(
+    reservation: string | null,
+    details: { escrowId?: string; txHash?: string }
+  ): Promise<void> {
+    if (!reservation) return;
+    await this.budget!.commit(reservation, details).catch((saveError) => {
+      this.options.logger.warn(`Recording spend ${reservation} failed: ${saveError.message}`, details);
+    });
+  }
+
+  /**
+   * Estimate gas for a contract method
+   */
+  private async estimateGas(contract: Contract, method: string, args: any[]): Promise<bigint> {
+    try {
+      const estimated = await contract[method].estimateGas(...args);
+      return BigInt(Math.floor(Number(estimated) * this.options.gasLimitMultiplier));
+    } catch {
+      return FALLBACK_GAS_LIMIT;
+    }
+  }
+
+  /**
+   * Sign the placeholder permit of calls planned with `signPermit` false,
+   * falling back to approve + the plain call if the signer can't sign it
+   */
+  private async signPlannedPermit(calls: PlannedCall[]): Promise<PlannedCall[]> {
+    const index = calls.findIndex((call) => call.needsSignature);
+    if (index < 0) return calls;
+
+    const call = calls[index];
+    const { spender, amount } = call.approval!;
+    const permit = await this.getPermit(spender, amount, true);
+    const signed: PlannedCall[] = permit
+      ? [{ ...call, args: [...call.args.slice(0, -4), permit.deadline, permit.v, permit.r, permit.s], needsSignature: false }]
+      : [
+        {
+          contract: this.usdcContract,
+          method: 'approve',
+          args: [spender, amount],
+          operation: 'USDC approval',
+          escrowId: call.escrowId ?? this.escrowIdArg(call.contract, call.method, call.args),
+          approval: call.approval
+        },
+        { ...call, method: call.method.replace(/WithPermit$/, ''), args: call.args.slice(0, -4), needsSignature: false, approval: undefined }
+      ];
+    return [...calls.slice(0, index), ...signed, ...calls.slice(index + 1)];
+  }
+
+  /**
+   * Sign a USDC permit for `spender`, or return null to fall back to approve
+   *
+   * @param sign - false returns a placeholder signature without prompting the wallet
+   */
+  private async getPermit(spender: string, value: bigint, sign: boolean): Promise<PermitSignature | null> {
+    if (!this.options.usePermit) return null;
+
+    if (!this.permitDomain) {
+      this.permitDomain = this.detectPermit().catch(() => {
+        // Retry detection on the next call
+        this.permitDomain = null;
+        return null;
+      });
+    }
+    const domain = await this.permitDomain;
+    if (!domain) return null;
+
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE);
+    if (!sign) {
+      return { deadline, v: 27, r: ethers.ZeroHash, s: ethers.ZeroHash };
+    }
+
+    const signer = await this.requireSigner();
+    try {
+      return await signPermit(signer, this.usdcContract, domain, spender, value, deadline);
+    } catch (error: any) {
+      if (error.code === 'ACTION_REJECTED') {
+        throw new RookError(ErrorCodes.UNAUTHORIZED, 'Permit signature rejected');
+      }
+      // Signer without typed-data support (e.g. callbacks without signTypedData)
+      this.log(`Permit signing failed, falling back to approve: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check that both USDC and the escrow deployment support permits
+   *
+   * @returns USDC's EIP-712 domain, or null when permits can't be used
+   */
+  private async detectPermit(): Promise<TypedDataDomain | null> {
+    // Escrow deployments before the permit entry points don't have the selector in their dispatcher
+    const selector = this.escrowContract.interface.getFunction('createEscrowWithPermit')!.selector;
+    const code = await this.provider.getCode(await this.escrowContract.getAddress());
+    if (!code.includes(selector.slice(2))) return null;
+
+    return getPermitDomain(this.usdcContract, BigInt(this.chainId));
+  }
+
+  /**
+   * Release escrow (requires oracle authorization)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Transaction hash
+   */
+  async release(escrowId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planRelease(escrowId));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the release() transaction
+   */
+  private async planRelease(escrowId: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    const isOp = await this.isOperator();
+    if (!isOp) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED,
+        'Only oracle operators can release escrows. Use releaseWithConsent() after timeout.');
+    }
+
+    return [{
+      contract: await this.getOracleContract(),
+      method: 'triggerRelease',
+      args: [escrowId],
+      operation: 'Escrow release'
+    }];
+  }
+
+  /**
+   * Release escrow with mutual consent (after oracle timeout)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Transaction hash
+   */
+  async releaseWithConsent(escrowId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planReleaseWithConsent(escrowId));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the releaseWithConsent() transaction
+   */
+  private async planReleaseWithConsent(escrowId: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    const escrow = await this.getEscrow(escrowId);
+    if (escrow.status !== 'Active') {
+      throw new RookError(ErrorCodes.ESCROW_NOT_ACTIVE,
+        `Escrow is ${escrow.status.toLowerCase()}, not active`);
+    }
+
+    // Get oracle timeout from chain (cached)
+    const oracleTimeout = await this.getOracleTimeout();
+    if (escrow.createdAt && (Date.now() / 1000 - escrow.createdAt < oracleTimeout)) {
+      const hoursRemaining = Math.ceil((oracleTimeout - (Date.now() / 1000 - escrow.createdAt)) / 3600);
+      throw new RookError(ErrorCodes.ORACLE_TIMEOUT_NOT_MET,
+        `Oracle timeout not met. Wait ${hoursRemaining} more hours.`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'releaseWithConsent',
+      args: [escrowId],
+      operation: 'Consent release'
+    }];
+  }
+
+  /**
+   * Request refund (buyer only)
+   *
    * @param escrowId - Escrow identifier
    * @param reason - Refund reason
    * @returns Transaction hash
    */
   async refund(escrowId: string, reason: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+    const receipt = await this.executeAll(await this.planRefund(escrowId, reason));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the refund() transaction
+   */
+  private async planRefund(escrowId: string, reason: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
 
     if (!reason || reason.length === 0) {
       throw new RookError(ErrorCodes.INVALID_AGENT, 'Refund reason is required');
@@ -409,12 +1363,57 @@ export class RookProtocol {
       throw new RookError(ErrorCodes.INVALID_AGENT, 'Reason too long (max 1000 chars)');
     }
 
-    const txPromise = this.escrowContract.refundEscrow(escrowId, reason);
-    const receipt = await this.waitForTransaction(txPromise, 'Refund');
+    return [{
+      contract: this.escrowContract,
+      method: 'refundEscrow',
+      args: [escrowId, reason],
+      operation: 'Refund'
+    }];
+  }
+
+  /**
+   * Reclaim the funds of an expired escrow (buyer only)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Transaction hash
+   */
+  async claimExpired(escrowId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planClaimExpired(escrowId));
 
     return receipt.hash;
   }
 
+  /**
+   * Check expiry and plan the claimExpired() transaction
+   */
+  private async planClaimExpired(escrowId: string): Promise<PlannedCall[]> {
+    const signer = await this.requireSigner();
+
+    const escrow = await this.escrowContract.getEscrow(escrowId);
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+    if (ESCROW_STATUSES[escrow.status] !== 'Active') {
+      throw new RookError(ErrorCodes.ESCROW_NOT_ACTIVE);
+    }
+    if (escrow.buyer.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only the buyer can claim an expired escrow');
+    }
+    const now = await this.getBlockTimestamp();
+    if (now <= Number(escrow.expiresAt)) {
+      const hoursRemaining = Math.ceil((Number(escrow.expiresAt) - now) / 3600);
+      throw new RookError(ErrorCodes.ESCROW_NOT_EXPIRED,
+        `Escrow has not expired yet. ${hoursRemaining} more hours.`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'claimExpired',
+      args: [escrowId],
+      operation: 'Expired escrow claim'
+    }];
+  }
+
   /**
    * Escalate to dispute
    *
@@ -423,7 +1422,16 @@ export class RookProtocol {
    * @returns Transaction hash
    */
   async dispute(escrowId: string, evidence: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+    const receipt = await this.executeAll(await this.planDispute(escrowId, evidence));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the dispute() transaction
+   */
+  private async planDispute(escrowId: string, evidence: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
 
     if (!evidence || evidence.length === 0) {
       throw new RookError(ErrorCodes.INVALID_AGENT, 'Evidence is required');
@@ -432,227 +1440,1219 @@ export class RookProtocol {
       throw new RookError(ErrorCodes.INVALID_AGENT, 'Evidence too long (max 1000 chars)');
     }
 
-    const txPromise = this.escrowContract.disputeEscrow(escrowId, evidence);
-    const receipt = await this.waitForTransaction(txPromise, 'Dispute filing');
-
-    return receipt.hash;
+    return [{
+      contract: this.escrowContract,
+      method: 'disputeEscrow',
+      args: [escrowId, evidence],
+      operation: 'Dispute filing'
+    }];
   }
 
   /**
    * Resolve dispute (owner only)
    *
+   * Disputes of 10,000 USDC or more are only scheduled: `scheduled` is true and
+   * `executeDisputeResolution()` pays out after `executeAfter`.
+   *
    * @param escrowId - Escrow identifier
    * @param winner - Address of winner (buyer or seller)
    * @param reason - Resolution reason
-   * @returns Transaction hash
+   * @returns Resolution result
+   */
+  async resolveDispute(escrowId: string, winner: string, reason: string): Promise<DisputeResult> {
+    const receipt = await this.executeAll(await this.planResolveDispute(escrowId, winner, reason));
+
+    return this.toDisputeResult(escrowId, receipt, winner, reason);
+  }
+
+  /**
+   * Check and plan the resolveDispute() transaction
    */
-  async resolveDispute(escrowId: string, winner: string, reason: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+  private async planResolveDispute(escrowId: string, winner: string, reason: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
 
     if (!ethers.isAddress(winner)) {
       throw new RookError(ErrorCodes.INVALID_AGENT, 'Invalid winner address');
     }
 
-    const txPromise = this.escrowContract.resolveDispute(escrowId, winner, reason);
-    const receipt = await this.waitForTransaction(txPromise, 'Dispute resolution');
+    return [{
+      contract: this.escrowContract,
+      method: 'resolveDispute',
+      args: [escrowId, winner, reason],
+      operation: 'Dispute resolution'
+    }];
+  }
+
+  /**
+   * Execute a dispute resolution scheduled behind the timelock (owner only)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Resolution result
+   */
+  async executeDisputeResolution(escrowId: string): Promise<DisputeResult> {
+    const pending = await this.getPendingDisputeResolution(escrowId);
+    const receipt = await this.executeAll(await this.planExecuteDisputeResolution(escrowId));
+
+    return this.toDisputeResult(escrowId, receipt, pending!.winner, pending!.reason);
+  }
+
+  /**
+   * Check the timelock and plan the executeDisputeResolution() transaction
+   */
+  private async planExecuteDisputeResolution(escrowId: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    const pending = await this.getPendingDisputeResolution(escrowId);
+    if (!pending) {
+      throw new RookError(ErrorCodes.DISPUTE_RESOLUTION_NOT_FOUND);
+    }
+    if (pending.executed) {
+      throw new RookError(ErrorCodes.ALREADY_EXECUTED, 'Dispute resolution already executed');
+    }
+    const now = await this.getBlockTimestamp();
+    if (now < pending.executeAfter) {
+      const minutesRemaining = Math.ceil((pending.executeAfter - now) / 60);
+      throw new RookError(ErrorCodes.TIMELOCK_NOT_READY,
+        `Dispute resolution timelock active. Wait ${minutesRemaining} more minutes.`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'executeDisputeResolution',
+      args: [escrowId],
+      operation: 'Dispute resolution execution'
+    }];
+  }
+
+  /**
+   * Cancel a scheduled dispute resolution (owner only)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Transaction hash
+   */
+  async cancelDisputeResolution(escrowId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planCancelDisputeResolution(escrowId));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the cancelDisputeResolution() transaction
+   */
+  private async planCancelDisputeResolution(escrowId: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    const pending = await this.getPendingDisputeResolution(escrowId);
+    if (!pending) {
+      throw new RookError(ErrorCodes.DISPUTE_RESOLUTION_NOT_FOUND);
+    }
+    if (pending.executed) {
+      throw new RookError(ErrorCodes.ALREADY_EXECUTED, 'Dispute resolution already executed');
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'cancelDisputeResolution',
+      args: [escrowId],
+      operation: 'Dispute resolution cancellation'
+    }];
+  }
+
+  /**
+   * Build a DisputeResult from the DisputeResolved / DisputeResolutionScheduled event
+   */
+  private async toDisputeResult(
+    escrowId: string,
+    receipt: TransactionReceipt,
+    winner: string,
+    reason: string
+  ): Promise<DisputeResult> {
+    const escrowAddress = await this.escrowContract.getAddress();
+    const resolved = this.findEscrowEvent(receipt, escrowAddress, 'DisputeResolved');
+    if (resolved) {
+      return {
+        escrowId,
+        winner: resolved.args.winner,
+        amount: Number(ethers.formatUnits(resolved.args.amount, 6)),
+        amountUnits: resolved.args.amount,
+        amountDecimal: toUSDCDecimal(resolved.args.amount),
+        reason: resolved.args.reason,
+        txHash: receipt.hash,
+        scheduled: false
+      };
+    }
+
+    const scheduled = this.findEscrowEvent(receipt, escrowAddress, 'DisputeResolutionScheduled');
+    const escrow = await this.escrowContract.getEscrow(escrowId);
+    return {
+      escrowId,
+      winner,
+      amount: Number(ethers.formatUnits(escrow.amount, 6)),
+      amountUnits: escrow.amount,
+      amountDecimal: toUSDCDecimal(escrow.amount),
+      reason,
+      txHash: receipt.hash,
+      scheduled: !!scheduled,
+      executeAfter: scheduled ? Number(scheduled.args.executeAfter) : undefined
+    };
+  }
+
+  /**
+   * Get escrow details
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Escrow details
+   */
+  async getEscrow(escrowId: string): Promise<EscrowResult> {
+    await this.ensureNetwork();
+    const escrow = await this.escrowContract.getEscrow(escrowId);
+    const [buyerName, sellerName] = this.options.reverseLookup
+      ? await Promise.all([this.lookupName(escrow.buyer), this.lookupName(escrow.seller)])
+      : [null, null];
+
+    return {
+      id: escrowId,
+      buyer: escrow.buyer,
+      seller: escrow.seller,
+      buyerName: buyerName ?? undefined,
+      sellerName: sellerName ?? undefined,
+      amount: Number(ethers.formatUnits(escrow.amount, 6)),
+      amountUnits: escrow.amount,
+      amountDecimal: toUSDCDecimal(escrow.amount),
+      job: '', // Job hash only stored on-chain
+      threshold: Number(escrow.trustThreshold),
+      status: ESCROW_STATUSES[escrow.status] || 'Unknown',
+      createdAt: Number(escrow.createdAt),
+      expiresAt: Number(escrow.expiresAt)
+    };
+  }
+
+  /**
+   * Get the challenge state of an escrow
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Challenge details, or null if the escrow has never been challenged
+   */
+  async getChallenge(escrowId: string): Promise<ChallengeDetails | null> {
+    await this.ensureNetwork();
+    const challenge = await this.escrowContract.getChallenge(escrowId);
+    if (challenge.challenger === ethers.ZeroAddress) return null;
+
+    return {
+      escrowId,
+      challenger: challenge.challenger,
+      stake: Number(ethers.formatUnits(challenge.stake, 6)),
+      stakeUnits: challenge.stake,
+      stakeDecimal: toUSDCDecimal(challenge.stake),
+      deadline: Number(challenge.deadline),
+      status: CHALLENGE_STATUSES[challenge.status] ?? 'None',
+      passed: challenge.passed,
+      responseHash: challenge.responseHash
+    };
+  }
+
+  /**
+   * Get the dispute state of an escrow, including a resolution scheduled behind the timelock
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Dispute details, or null if the escrow has no dispute on record
+   */
+  async getDispute(escrowId: string): Promise<DisputeDetails | null> {
+    await this.ensureNetwork();
+    const [dispute, pendingResolution] = await Promise.all([
+      this.escrowContract.getDispute(escrowId),
+      this.getPendingDisputeResolution(escrowId)
+    ]);
+    if (dispute.initiator === ethers.ZeroAddress) return null;
+
+    return {
+      escrowId,
+      initiator: dispute.initiator,
+      evidence: dispute.evidence,
+      createdAt: Number(dispute.createdAt),
+      resolved: dispute.resolved,
+      winner: dispute.winner,
+      pendingResolution
+    };
+  }
+
+  /**
+   * Get the dispute resolution scheduled for an escrow, if any
+   *
+   * @param escrowId - Escrow identifier
+   */
+  async getPendingDisputeResolution(escrowId: string): Promise<PendingDisputeResolution | null> {
+    await this.ensureNetwork();
+    const pending = await this.escrowContract.pendingDisputeResolutions(escrowId);
+    if (pending.executeAfter === 0n) return null;
+
+    return {
+      winner: pending.winner,
+      reason: pending.reason,
+      executeAfter: Number(pending.executeAfter),
+      executed: pending.executed
+    };
+  }
+
+  /**
+   * Get which parties have consented to releaseWithConsent
+   *
+   * @param escrowId - Escrow identifier
+   */
+  async getReleaseConsent(escrowId: string): Promise<ReleaseConsent> {
+    await this.ensureNetwork();
+    const escrow = await this.escrowContract.getEscrow(escrowId);
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+
+    const [buyer, seller] = await Promise.all([
+      this.escrowContract.releaseConsent(escrowId, escrow.buyer),
+      this.escrowContract.releaseConsent(escrowId, escrow.seller)
+    ]);
+    return { escrowId, buyer, seller };
+  }
+
+  /**
+   * Work out which escrow actions an address can take right now
+   *
+   * Applies the contract's rules (pause, role, escrow and challenge status, oracle
+   * timeout, expiry, challenge cooldown, response window and deadline) to the
+   * current chain state. Blocked actions carry a reason; time- and block-gated
+   * actions carry the time or block they open at. Token balances and
+   * allowances are not checked.
+   *
+   * @param escrowId - Escrow identifier
+   * @param address - Address (or name) of the caller to advise
+   *
+   * @example
+   * ```typescript
+   * const { actions } = await rook.getAvailableActions(escrowId, me);
+   * for (const a of actions) {
+   *   console.log(a.action, a.allowed ? 'now' : a.reason, a.earliestTime ?? a.earliestBlock ?? '');
+   * }
+   * ```
+   */
+  async getAvailableActions(escrowId: string, address: string): Promise<EscrowActions> {
+    const caller = await this.resolveAddress(address);
+    const [escrow, challenge, latest] = await Promise.all([
+      this.getEscrow(escrowId),
+      this.getChallenge(escrowId),
+      this.provider.getBlock('latest')
+    ]);
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+
+    const now = latest ? latest.timestamp : Math.floor(Date.now() / 1000);
+    const blockNumber = latest ? latest.number : await this.getBlockNumber();
+    const isActive = escrow.status === 'Active';
+    const isParty = [escrow.buyer, escrow.seller].some((party) => party.toLowerCase() === caller.toLowerCase());
+
+    const [isOp, oracleTimeout, nextChallengeTime, consent, paused] = await Promise.all([
+      isActive ? this.isOperator(caller) : false,
+      this.getOracleTimeout(),
+      this.escrowContract.getNextChallengeTime(caller).then(Number),
+      isActive && isParty ? this.getReleaseConsent(escrowId) : null,
+      this.escrowContract.paused()
+    ]);
+
+    const actions = getEscrowActions({
+      escrow,
+      challenge,
+      caller,
+      blockNumber,
+      now,
+      isOperator: isOp,
+      oracleTimeout,
+      nextChallengeTime,
+      consent,
+      paused
+    });
+
+    return {
+      escrowId,
+      address: caller,
+      status: escrow.status,
+      blockNumber,
+      timestamp: now,
+      actions
+    };
+  }
+
+  /**
+   * List escrows of a buyer or seller, newest last
+   *
+   * Pages through the on-chain index with getBuyerEscrowsPaginated /
+   * getSellerEscrowsPaginated and hydrates each ID through getEscrow.
+   *
+   * @param params - Buyer or seller, optional status filter and cursor
+   *
+   * @example
+   * ```typescript
+   * for await (const escrow of rook.listEscrows({ seller: me, status: 'Challenged' })) {
+   *   console.log(escrow.id, escrow.amount);
+   *   saveCursor(escrow.cursor);
+   * }
+   * ```
+   */
+  async *listEscrows(params: ListEscrowsParams): AsyncGenerator<EscrowListItem> {
+    if (!!params.buyer === !!params.seller) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Provide exactly one of buyer or seller');
+    }
+
+    const pageSize = Math.max(1, Math.floor(params.pageSize ?? 50));
+
+    const statuses = params.status === undefined
+      ? null
+      : Array.isArray(params.status) ? params.status : [params.status];
+
+    await this.ensureNetwork();
+    const party = await this.resolveAddress((params.buyer ?? params.seller)!);
+    const getPage = params.buyer
+      ? this.escrowContract.getBuyerEscrowsPaginated
+      : this.escrowContract.getSellerEscrowsPaginated;
+
+    let cursor = params.cursor ?? 0;
+    while (true) {
+      const ids: string[] = await getPage(party, cursor, pageSize);
+
+      for (const id of ids) {
+        cursor++;
+        const escrow = await this.getEscrow(id);
+        if (!statuses || statuses.includes(escrow.status)) {
+          yield { ...escrow, cursor };
+        }
+      }
+
+      if (ids.length < pageSize) return;
+    }
+  }
+
+  /**
+   * Rebuild the lifecycle of one escrow from its logs
+   *
+   * Covers creation, challenges (initiated, responded, resolved, slashed),
+   * consent, disputes and the final release or refund.
+   *
+   * @param escrowId - Escrow identifier
+   * @param options - Block range to search
+   */
+  async getEscrowTimeline(escrowId: string, options: TimelineOptions = {}): Promise<EscrowTimeline> {
+    const [escrow, logs] = await Promise.all([
+      this.getEscrow(escrowId),
+      this.events.queryEscrowLogs(this.escrowContract, escrowId, this.eventsFromBlock(options.fromBlock), options.toBlock ?? 'latest')
+    ]);
+
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+
+    // One block lookup per distinct block for timestamps
+    const timestamps = new Map<number, number>();
+    for (const { event } of logs) {
+      if (!timestamps.has(event.blockNumber)) {
+        const block = await this.provider.getBlock(event.blockNumber);
+        timestamps.set(event.blockNumber, block?.timestamp ?? 0);
+      }
+    }
+
+    const entries = logs
+      .filter(({ event }) => 'escrowId' in event)
+      .map(({ name, event }) => ({
+        type: name,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+        event
+      }) as EscrowTimelineEntry);
+
+    return { escrowId, status: escrow.status, entries };
+  }
+
+  // =================================================================
+  // VERIFICATION
+  // =================================================================
+
+  /**
+   * Verify an agent's trust score
+   *
+   * The score comes from RookOracle.getScoreBreakdown, with its age: scores
+   * not pushed within MAX_SCORE_AGE are stale and count as 0 on-chain.
+   * `requireFresh` turns a stale score into a STALE_SCORE error, or with
+   * 'rescore' has the oracle service push a fresh one first. With
+   * `offchain: true` the oracle service also computes a fresh score
+   * (`oracle_score`), which the contract only reflects once an operator
+   * pushes it.
+   *
+   * @param agent - Agent address or handle
+   * @param options - `offchain` to also fetch the oracle's fresh score, `requireFresh` to reject stale scores
+   * @returns Verification result with trust score breakdown and freshness
+   *
+   * @example
+   * ```typescript
+   * const result = await rook.verify('@SellerAgent', { requireFresh: 'rescore' });
+   * console.log(result.trust_score, new Date(result.freshUntil! * 1000));
+   * ```
+   */
+  async verify(agent: string, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const address = await this.resolveAddress(agent);
+    const moltbookHandle = options.moltbookHandle ?? (agent.startsWith('@') ? agent : undefined);
+
+    const [onchain, oracleScore] = await Promise.all([
+      this.readScore(address),
+      options.offchain ? this.fetchOracleScore(address, moltbookHandle) : undefined
+    ]);
+
+    let score = onchain;
+
+    if (!score.isFresh && options.requireFresh) {
+      if (options.requireFresh === 'rescore') {
+        this.log(`Score of ${address} is stale, requesting a rescore`);
+        const { txHash } = await this.getOracleClient().rescore(address, moltbookHandle);
+        // Our RPC may be behind the oracle's
+        await this.provider.waitForTransaction(txHash, 1, this.options.timeout);
+        score = await this.readScore(address);
+      }
+      if (!score.isFresh) {
+        const age = score.lastUpdated === null ? 'has never been scored' : `was last scored at ${score.lastUpdated}`;
+        throw new RookError(ErrorCodes.STALE_SCORE, `${agent} ${age} (MAX_SCORE_AGE is ${score.maxScoreAge}s)`, {
+          address,
+          lastUpdated: score.lastUpdated,
+          maxScoreAge: score.maxScoreAge
+        });
+      }
+    }
+
+    const { trustScore, breakdown } = score;
+
+    let riskLevel: RiskLevel;
+    if (trustScore >= 0.80) riskLevel = 'LOW';
+    else if (trustScore >= 0.65) riskLevel = 'STANDARD';
+    else if (trustScore >= 0.50) riskLevel = 'ELEVATED';
+    else riskLevel = 'HIGH';
+
+    let recommendation: string;
+    if (!score.isFresh) recommendation = 'Score is stale: rescore before relying on it';
+    else if (trustScore >= 0.80) recommendation = 'Auto-release enabled';
+    else if (trustScore >= 0.65) recommendation = 'Auto-release with monitoring';
+    else if (trustScore >= 0.50) recommendation = 'Manual review recommended';
+    else recommendation = 'Challenge required before release';
+
+    let name: string | null = null;
+    if (!ethers.isAddress(agent)) {
+      name = agent;
+    } else if (this.options.reverseLookup) {
+      name = await this.lookupName(address);
+    }
+
+    return {
+      agent,
+      address,
+      name: name ?? undefined,
+      trust_score: trustScore,
+      breakdown,
+      risk_level: riskLevel,
+      recommendation,
+      lastUpdated: score.lastUpdated,
+      isFresh: score.isFresh,
+      freshUntil: score.lastUpdated === null ? null : score.lastUpdated + score.maxScoreAge,
+      challengeBonusExpiresAt: score.challengeBonusExpiresAt,
+      oracle_score: oracleScore
+    };
+  }
+
+  /**
+   * On-chain score of an agent, as the contract counts it at the latest block
+   */
+  private async readScore(address: string): Promise<{
+    trustScore: number;
+    breakdown: TrustScoreBreakdown;
+    lastUpdated: number | null;
+    isFresh: boolean;
+    maxScoreAge: number;
+    challengeBonusExpiresAt: number | null;
+  }> {
+    const oracle = await this.getOracleContract();
+    const [
+      [identity, reputation, sybil, history, challengeBonus, composite],
+      [, isStale, lastUpdate],
+      bonusTimestamp,
+      now,
+      { maxScoreAge, challengeBonusDuration }
+    ] = await Promise.all([
+      oracle.getScoreBreakdown(address),
+      oracle.computeTrustScoreWithStaleness(address),
+      oracle.challengeBonusTimestamp(address),
+      this.getBlockTimestamp(),
+      this.getScoreLimits()
+    ]);
+
+    const challengeBonusExpiresAt = Number(challengeBonus) > 0 && Number(bonusTimestamp) > 0
+      ? Number(bonusTimestamp) + challengeBonusDuration
+      : null;
+    // getScoreBreakdown reports the bonus even after it expired; the composite already drops it
+    const bonusActive = challengeBonusExpiresAt !== null && now <= challengeBonusExpiresAt;
+
+    return {
+      trustScore: Number(composite) / 100,
+      breakdown: {
+        erc8004_identity: Number(identity) / 100,
+        reputation_signals: Number(reputation) / 100,
+        sybil_resistance: Number(sybil) / 100,
+        escrow_history: Number(history) / 100,
+        challenge_bonus: bonusActive ? Number(challengeBonus) / 100 : 0
+      },
+      lastUpdated: lastUpdate === 0n ? null : Number(lastUpdate),
+      isFresh: !isStale,
+      maxScoreAge,
+      challengeBonusExpiresAt
+    };
+  }
+
+  /**
+   * RookOracle MAX_SCORE_AGE and CHALLENGE_BONUS_DURATION, in seconds (read once)
+   */
+  private getScoreLimits(): Promise<{ maxScoreAge: number; challengeBonusDuration: number }> {
+    if (!this.scoreLimits) {
+      this.scoreLimits = this.getOracleContract()
+        .then((oracle) => Promise.all([oracle.MAX_SCORE_AGE(), oracle.CHALLENGE_BONUS_DURATION()]))
+        .then(([maxScoreAge, challengeBonusDuration]) => ({
+          maxScoreAge: Number(maxScoreAge),
+          challengeBonusDuration: Number(challengeBonusDuration)
+        }))
+        .catch((error) => {
+          this.scoreLimits = null;
+          throw error;
+        });
+    }
+    return this.scoreLimits;
+  }
+
+  private async fetchOracleScore(address: string, moltbookHandle?: string): Promise<OracleScore> {
+    const { score, timestamp } = await this.getOracleClient().verify(address, moltbookHandle);
+    return {
+      trust_score: score.composite / 100,
+      breakdown: {
+        erc8004_identity: score.identity / 100,
+        reputation_signals: score.reputation / 100,
+        sybil_resistance: score.sybil / 100,
+        escrow_history: score.history / 100,
+        challenge_bonus: score.challengeBonus / 100
+      },
+      timestamp
+    };
+  }
+
+  // =================================================================
+  // CHALLENGES (Voight-Kampff)
+  // =================================================================
+
+  /**
+   * Initiate identity challenge (stake is fixed at 5 USDC)
+   *
+   * @param params - Challenge parameters
+   * @returns Challenge result
+   */
+  async challenge(params: ChallengeParams): Promise<ChallengeResult> {
+    const signer = await this.requireSigner();
+    const challengerAddress = await signer.getAddress();
+
+    const calls = await this.planChallenge(params, challengerAddress, false);
+    const reservation = this.budget ? await this.reserveSpend({
+      kind: 'challenge',
+      amount: STAKE_UNITS,
+      counterparty: (await this.escrowContract.getEscrow(params.escrowId)).seller,
+      escrowId: params.escrowId
+    }) : null;
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await this.executeAll(await this.signPlannedPermit(calls));
+    } catch (error) {
+      await this.releaseSpend(reservation, error);
+      throw error;
+    }
+    await this.commitSpend(reservation, { escrowId: params.escrowId, txHash: receipt.hash });
+
+    // Get challenge details
+    const challenge = await this.escrowContract.getChallenge(params.escrowId);
+
+    return {
+      escrowId: params.escrowId,
+      challenger: challengerAddress,
+      stake: CHALLENGE_STAKE,
+      stakeUnits: challenge.stake,
+      stakeDecimal: toUSDCDecimal(challenge.stake),
+      deadline: Number(challenge.deadline),
+      reason: params.reason,
+      txHash: receipt.hash
+    };
+  }
+
+  /**
+   * Check the cooldown and plan the challenge transactions: initiateChallengeWithPermit,
+   * or stake approval + initiateChallenge when permit is unavailable
+   *
+   * @param signPermit - Sign the permit (false for previews: placeholder signature)
+   */
+  private async planChallenge(
+    params: ChallengeParams,
+    challengerAddress: string,
+    signPermit: boolean = true
+  ): Promise<PlannedCall[]> {
+    // Check cooldown
+    const nextChallengeTime = await this.escrowContract.getNextChallengeTime(challengerAddress);
+    if (Number(nextChallengeTime) > Date.now() / 1000) {
+      const minutesRemaining = Math.ceil((Number(nextChallengeTime) - Date.now() / 1000) / 60);
+      throw new RookError(ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE,
+        `Challenge cooldown active. Wait ${minutesRemaining} more minutes.`);
+    }
+
+    // Use fixed stake amount
+    const stakeAmount = STAKE_UNITS;
+    const escrowAddress = await this.escrowContract.getAddress();
+
+    // Approve USDC for stake (permit if possible)
+    const calls: PlannedCall[] = [];
+    const allowance = await this.usdcContract.allowance(challengerAddress, escrowAddress);
+    const permit = allowance < stakeAmount ? await this.getPermit(escrowAddress, stakeAmount, signPermit) : null;
+    if (permit) {
+      calls.push({
+        contract: this.escrowContract,
+        method: 'initiateChallengeWithPermit',
+        args: [params.escrowId, permit.deadline, permit.v, permit.r, permit.s],
+        operation: 'Challenge initiation',
+        needsSignature: !signPermit,
+        approval: { spender: escrowAddress, amount: stakeAmount }
+      });
+      return calls;
+    }
+
+    if (allowance < stakeAmount) {
+      calls.push({
+        contract: this.usdcContract,
+        method: 'approve',
+        args: [escrowAddress, stakeAmount],
+        operation: 'Stake approval',
+        escrowId: params.escrowId,
+        approval: { spender: escrowAddress, amount: stakeAmount }
+      });
+    }
+
+    calls.push({
+      contract: this.escrowContract,
+      method: 'initiateChallenge',
+      args: [params.escrowId],
+      operation: 'Challenge initiation'
+    });
+
+    return calls;
+  }
+
+  /**
+   * Respond to challenge with a free-form response (seller only)
+   *
+   * The oracle cannot verify an arbitrary response: use proveIdentity() to
+   * respond with a wallet signature the oracle checks and resolves on.
+   *
+   * @param escrowId - Escrow identifier
+   * @param responseData - Response data (will be hashed)
+   * @returns Transaction hash
+   */
+  async respondChallenge(escrowId: string, responseData: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planRespondChallenge(escrowId, responseData));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the respondChallenge() transaction
+   */
+  private async planRespondChallenge(escrowId: string, responseData: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    if (!responseData || responseData.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Response data is required');
+    }
+
+    const responseHash = ethers.keccak256(ethers.toUtf8Bytes(responseData));
+
+    return [{
+      contract: this.escrowContract,
+      method: 'respondChallenge',
+      args: [escrowId, responseHash],
+      operation: 'Challenge response'
+    }];
+  }
+
+  /**
+   * Resolve challenge (oracle only)
+   *
+   * @param escrowId - Escrow identifier
+   * @param passed - Whether challenge was passed
+   * @returns Transaction hash
+   */
+  async resolveChallenge(escrowId: string, passed: boolean): Promise<string> {
+    const receipt = await this.executeAll(await this.planResolveChallenge(escrowId, passed));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the resolveChallenge() transaction
+   */
+  private async planResolveChallenge(escrowId: string, passed: boolean): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    const isOp = await this.isOperator();
+    if (!isOp) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only oracle operators can resolve challenges');
+    }
+
+    return [{
+      contract: await this.getOracleContract(),
+      method: 'resolveChallenge',
+      args: [escrowId, passed],
+      operation: 'Challenge resolution'
+    }];
+  }
+
+  /**
+   * Claim challenge timeout (challenger wins if seller didn't respond)
+   *
+   * @param escrowId - Escrow identifier
+   * @returns Transaction hash
+   */
+  async claimTimeout(escrowId: string): Promise<string> {
+    const receipt = await this.executeAll(await this.planClaimTimeout(escrowId));
+
+    return receipt.hash;
+  }
+
+  /**
+   * Check and plan the claimTimeout() transaction
+   */
+  private async planClaimTimeout(escrowId: string): Promise<PlannedCall[]> {
+    await this.requireSigner();
+
+    // Check if deadline has passed
+    const challenge = await this.escrowContract.getChallenge(escrowId);
+    const currentBlock = await this.getBlockNumber();
+
+    if (currentBlock <= Number(challenge.deadline)) {
+      const blocksRemaining = Number(challenge.deadline) - currentBlock;
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_EXPIRED,
+        `Challenge deadline not reached. ${blocksRemaining} blocks remaining.`);
+    }
+
+    return [{
+      contract: this.escrowContract,
+      method: 'claimChallengeTimeout',
+      args: [escrowId],
+      operation: 'Timeout claim'
+    }];
+  }
+
+  /**
+   * Prove identity in response to a challenge (seller only)
+   *
+   * Signs the challenge digest with the seller wallet, commits
+   * keccak256(escrowId, signature, timestamp) on-chain with respondChallenge
+   * (the RookEscrow.computeResponseHash format), then posts the signature to
+   * the oracle's /challenge endpoint so it can resolve the challenge before
+   * the deadline. Requires `oracleUrl` in the config.
+   *
+   * The on-chain response stands if the oracle call fails: `oracleError` is
+   * set and the signature can be resubmitted with submitChallengeProof().
+   * A response still pending at the timeout throws with `signature`,
+   * `timestamp` and `responseHash` in the error details, alongside `txHash`.
+   *
+   * @param escrowId - Escrow identifier
+   * @param method - Proof method (only 'wallet_signature' is supported)
+   * @returns Proof and oracle outcome
+   *
+   * @example
+   * ```typescript
+   * const proof = await rook.proveIdentity(escrowId);
+   * if (!proof.resolved) console.warn(proof.oracleError?.message);
+   * ```
+   */
+  async proveIdentity(escrowId: string, method: ProofMethod = 'wallet_signature'): Promise<ProofResult> {
+    const { calls, signature, timestamp, responseHash } = await this.planProveIdentity(escrowId, method);
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await this.executeAll(calls);
+    } catch (error: any) {
+      // Sent but unconfirmed: keep the proof to submit once the response is mined
+      if (error instanceof RookError && error.details?.txHash) {
+        error.details = { ...error.details, signature, timestamp, responseHash };
+      }
+      throw error;
+    }
+
+    const result: ProofResult = {
+      escrowId,
+      method,
+      signature,
+      timestamp,
+      responseHash,
+      txHash: receipt.hash,
+      verified: false,
+      resolved: false
+    };
+
+    try {
+      const submission = await this.submitChallengeProof(escrowId, signature, { timestamp });
+      result.verified = submission.valid;
+      result.resolved = submission.resolved;
+      result.resolutionTxHash = submission.txHash;
+      if (!submission.valid) {
+        result.oracleError = new RookError(ErrorCodes.INVALID_RESPONSE,
+          submission.message ?? 'Oracle rejected the challenge signature');
+      } else if (!submission.resolved) {
+        result.oracleError = new RookError(ErrorCodes.ORACLE_ERROR,
+          submission.error ?? 'Oracle verified the proof but did not resolve the challenge');
+      }
+    } catch (error: any) {
+      this.log(`Challenge proof submission failed: ${error.message}`);
+      result.oracleError = error instanceof RookError ? error : new RookError(ErrorCodes.ORACLE_ERROR, error.message);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check the challenge, sign the proof and plan the respondChallenge() transaction
+   *
+   * @param sign - Sign the proof (false for previews: placeholder signature)
+   */
+  private async planProveIdentity(
+    escrowId: string,
+    method: ProofMethod,
+    sign: boolean = true
+  ): Promise<{ calls: PlannedCall[]; signature: string; timestamp: number; responseHash: string }> {
+    const signer = await this.requireSigner();
+
+    if (method === 'behavioral' || method === 'tee_attestation') {
+      throw new RookError(ErrorCodes.NOT_IMPLEMENTED, `${method} proofs are not supported yet. Use "wallet_signature".`);
+    }
+    if (method !== 'wallet_signature') {
+      throw new RookError(ErrorCodes.INVALID_METHOD);
+    }
+    // Nowhere to submit the proof: fail before the on-chain response
+    this.getOracleClient();
+
+    const [escrow, challenge, blockNumber, timestamp, sellerAddress] = await Promise.all([
+      this.escrowContract.getEscrow(escrowId),
+      this.getChallenge(escrowId),
+      this.getBlockNumber(),
+      this.getBlockTimestamp(),
+      signer.getAddress()
+    ]);
+    if (!challenge || challenge.status !== 'Active') {
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_ACTIVE, `No active challenge on escrow ${escrowId}`);
+    }
+    if (escrow.seller.toLowerCase() !== sellerAddress.toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only the seller can respond to a challenge');
+    }
+    // Mined in the next block at the earliest
+    const responseDeadline = challenge.deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW;
+    if (blockNumber + 1 > responseDeadline) {
+      throw new RookError(ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED,
+        `Challenge response window closed at block ${responseDeadline}`);
+    }
+
+    const signature = sign ? await signChallenge(signer, escrowId) : ethers.hexlify(new Uint8Array(65));
+    const responseHash = computeResponseHash(escrowId, signature, timestamp);
+
+    return {
+      calls: [{
+        contract: this.escrowContract,
+        method: 'respondChallenge',
+        args: [escrowId, responseHash],
+        operation: 'Challenge response'
+      }],
+      signature,
+      timestamp,
+      responseHash
+    };
+  }
+
+  /**
+   * REST client for the oracle service configured with `oracleUrl`
+   *
+   * Shares the SDK's request timeout and the configured API key.
+   */
+  getOracleClient(): RookOracleClient {
+    if (!this.oracleClient) {
+      throw new RookError(ErrorCodes.ORACLE_ERROR, 'oracleUrl is required to reach the oracle service');
+    }
+    return this.oracleClient;
+  }
+
+  /**
+   * Post a challenge proof to the oracle's /challenge endpoint
+   *
+   * The oracle checks the signature against the escrow seller and, unless
+   * `resolve` is false, resolves the challenge on-chain as passed.
+   *
+   * @param escrowId - Escrow identifier
+   * @param signature - Seller signature over the challenge digest
+   * @param options - `timestamp` committed in the on-chain response hash (the
+   *   oracle then checks the hash too), `resolve: false` to only verify
+   */
+  async submitChallengeProof(
+    escrowId: string,
+    signature: string,
+    options: { timestamp?: number; resolve?: boolean } = {}
+  ): Promise<ChallengeProofSubmission> {
+    return this.getOracleClient().submitChallenge({
+      escrowId,
+      signature,
+      timestamp: options.timestamp,
+      action: options.resolve === false ? undefined : 'resolve'
+    });
+  }
+
+  // =================================================================
+  // PREVIEWS (dry-run, nothing is broadcast)
+  // =================================================================
+
+  /**
+   * Preview createEscrow: approve step if allowance is short, gas, fee taken on release
+   *
+   * @example
+   * ```typescript
+   * const preview = await rook.previewCreateEscrow({ amount: 50, recipient: '0x...', job: 'Market analysis' });
+   * if (!preview.ok) console.log(preview.error?.code);
+   * console.log(preview.steps.map((s) => s.operation), ethers.formatEther(preview.estimatedCost));
+   * ```
+   */
+  async previewCreateEscrow(params: EscrowParams): Promise<TransactionPreview> {
+    return this.preview(async (from) => {
+      const { calls, amount } = await this.planCreateEscrow(params, from, false);
+      return { calls, feeOn: amount };
+    });
+  }
+
+  /**
+   * Preview release (oracle operators only)
+   */
+  async previewRelease(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({
+      calls: await this.planRelease(escrowId),
+      feeOn: (await this.escrowContract.getEscrow(escrowId)).amount
+    }));
+  }
+
+  /**
+   * Preview releaseWithConsent (the fee applies once both parties have consented)
+   */
+  async previewReleaseWithConsent(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({
+      calls: await this.planReleaseWithConsent(escrowId),
+      feeOn: (await this.escrowContract.getEscrow(escrowId)).amount
+    }));
+  }
 
-    return receipt.hash;
+  /**
+   * Preview refund
+   */
+  async previewRefund(escrowId: string, reason: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planRefund(escrowId, reason) }));
   }
 
   /**
-   * Get escrow details
-   *
-   * @param escrowId - Escrow identifier
-   * @returns Escrow details
+   * Preview dispute
    */
-  async getEscrow(escrowId: string): Promise<EscrowResult> {
-    const escrow = await this.escrowContract.getEscrow(escrowId);
+  async previewDispute(escrowId: string, evidence: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planDispute(escrowId, evidence) }));
+  }
 
-    const statusMap: EscrowStatus[] = ['Active', 'Released', 'Refunded', 'Disputed', 'Challenged'];
+  /**
+   * Preview claimExpired
+   */
+  async previewClaimExpired(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planClaimExpired(escrowId) }));
+  }
 
-    return {
-      id: escrowId,
-      buyer: escrow.buyer,
-      seller: escrow.seller,
-      amount: Number(ethers.formatUnits(escrow.amount, 6)),
-      job: '', // Job hash only stored on-chain
-      threshold: Number(escrow.trustThreshold),
-      status: statusMap[escrow.status] || 'Unknown',
-      createdAt: Number(escrow.createdAt),
-      expiresAt: Number(escrow.expiresAt)
-    };
+  /**
+   * Preview resolveDispute (owner only)
+   */
+  async previewResolveDispute(escrowId: string, winner: string, reason: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planResolveDispute(escrowId, winner, reason) }));
   }
 
-  // =================================================================
-  // VERIFICATION
-  // =================================================================
+  /**
+   * Preview executeDisputeResolution (owner only)
+   */
+  async previewExecuteDisputeResolution(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planExecuteDisputeResolution(escrowId) }));
+  }
 
   /**
-   * Verify an agent's trust score
-   *
-   * @param agent - Agent address or handle
-   * @returns Verification result with trust score breakdown
+   * Preview cancelDisputeResolution (owner only)
    */
-  async verify(agent: string): Promise<VerificationResult> {
-    const address = await this.resolveAddress(agent);
+  async previewCancelDisputeResolution(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planCancelDisputeResolution(escrowId) }));
+  }
 
-    const [
-      identity,
-      reputation,
-      sybil,
-      history,
-      challengeBonus,
-      composite
-    ] = await this.oracleContract.getScoreBreakdown(address);
-
-    const trustScore = Number(composite) / 100;
-
-    const breakdown: TrustScoreBreakdown = {
-      erc8004_identity: Number(identity) / 100,
-      reputation_signals: Number(reputation) / 100,
-      sybil_resistance: Number(sybil) / 100,
-      escrow_history: Number(history) / 100,
-      challenge_bonus: Number(challengeBonus) / 100
-    };
+  /**
+   * Preview challenge: stake approval if allowance is short, then initiateChallenge
+   */
+  async previewChallenge(params: ChallengeParams): Promise<TransactionPreview> {
+    return this.preview(async (from) => ({ calls: await this.planChallenge(params, from, false) }));
+  }
 
-    let riskLevel: RiskLevel;
-    if (trustScore >= 0.80) riskLevel = 'LOW';
-    else if (trustScore >= 0.65) riskLevel = 'STANDARD';
-    else if (trustScore >= 0.50) riskLevel = 'ELEVATED';
-    else riskLevel = 'HIGH';
+  /**
+   * Preview respondChallenge
+   */
+  async previewRespondChallenge(escrowId: string, responseData: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planRespondChallenge(escrowId, responseData) }));
+  }
 
-    let recommendation: string;
-    if (trustScore >= 0.80) recommendation = 'Auto-release enabled';
-    else if (trustScore >= 0.65) recommendation = 'Auto-release with monitoring';
-    else if (trustScore >= 0.50) recommendation = 'Manual review recommended';
-    else recommendation = 'Challenge required before release';
+  /**
+   * Preview resolveChallenge (oracle operators only)
+   */
+  async previewResolveChallenge(escrowId: string, passed: boolean): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planResolveChallenge(escrowId, passed) }));
+  }
 
-    return {
-      agent,
-      address,
-      trust_score: trustScore,
-      breakdown,
-      risk_level: riskLevel,
-      recommendation
-    };
+  /**
+   * Preview claimTimeout
+   */
+  async previewClaimTimeout(escrowId: string): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: await this.planClaimTimeout(escrowId) }));
   }
 
-  // =================================================================
-  // CHALLENGES (Voight-Kampff)
-  // =================================================================
+  /**
+   * Preview proveIdentity (the on-chain response; nothing is signed or sent to the oracle)
+   */
+  async previewProveIdentity(escrowId: string, method: ProofMethod = 'wallet_signature'): Promise<TransactionPreview> {
+    return this.preview(async () => ({ calls: (await this.planProveIdentity(escrowId, method, false)).calls }));
+  }
 
   /**
-   * Initiate identity challenge (stake is fixed at 5 USDC)
+   * Populate, simulate and price planned calls without sending them
    *
-   * @param params - Challenge parameters
-   * @returns Challenge result
+   * SDK pre-check failures and decoded reverts are reported in the preview
+   * rather than thrown; only missing signers and network failures throw.
    */
-  async challenge(params: ChallengeParams): Promise<ChallengeResult> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+  protected async preview(
+    build: (from: string) => Promise<{ calls: PlannedCall[]; feeOn?: bigint }>
+  ): Promise<TransactionPreview> {
+    const signer = await this.requireSigner();
+    const from = await signer.getAddress();
 
-    // Check cooldown
-    const challengerAddress = await this.signer.getAddress();
-    const nextChallengeTime = await this.escrowContract.getNextChallengeTime(challengerAddress);
-    if (Number(nextChallengeTime) > Date.now() / 1000) {
-      const minutesRemaining = Math.ceil((Number(nextChallengeTime) - Date.now() / 1000) / 60);
-      throw new RookError(ErrorCodes.UNAUTHORIZED,
-        `Challenge cooldown active. Wait ${minutesRemaining} more minutes.`);
+    const fees = await resolveFees(this.provider, this.options.feeStrategy, this.options.logger);
+    const gasPrice = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+
+    let planned: { calls: PlannedCall[]; feeOn?: bigint };
+    try {
+      planned = await build(from);
+    } catch (error: any) {
+      const rookError = this.toRookError(error, 'Preview');
+      if (rookError.code === ErrorCodes.NO_SIGNER || rookError.code === ErrorCodes.NETWORK_ERROR) throw rookError;
+      return { ok: false, steps: [], error: rookError, totalGas: 0n, gasPrice, estimatedCost: 0n, protocolFee: 0, protocolFeeUnits: 0n };
     }
 
-    // Use fixed stake amount
-    const stakeAmount = ethers.parseUnits(CHALLENGE_STAKE.toString(), 6);
-    const escrowAddress = await this.escrowContract.getAddress();
+    const steps: PreviewStep[] = [];
+    for (const [index, call] of planned.calls.entries()) {
+      const connected = this.withSigner(call.contract, signer);
+      const tx = await connected[call.method].populateTransaction(...call.args);
+
+      const step: PreviewStep = {
+        operation: call.operation,
+        method: call.method,
+        transaction: { to: tx.to, from, data: tx.data },
+        gasLimit: FALLBACK_GAS_LIMIT,
+        // Later steps depend on state the earlier (unsent) steps would create,
+        // and placeholder permits would make the simulation revert
+        simulated: index === 0 && !call.needsSignature
+      };
+
+      if (step.simulated) {
+        try {
+          step.result = await connected[call.method].staticCall(...call.args);
+          step.gasLimit = await this.estimateGas(connected, call.method, call.args);
+        } catch (error: any) {
+          const rookError = this.toRookError(error, call.operation);
+          if (rookError.code === ErrorCodes.NETWORK_ERROR) throw rookError;
+          step.error = rookError;
+        }
+      }
 
-    // Approve USDC for stake
-    const allowance = await this.usdcContract.allowance(challengerAddress, escrowAddress);
-    if (allowance < stakeAmount) {
-      const approveTx = await this.usdcContract.approve(escrowAddress, stakeAmount);
-      await this.waitForTransaction(Promise.resolve(approveTx), 'Stake approval');
+      steps.push(step);
     }
 
-    // Initiate challenge
-    const txPromise = this.escrowContract.initiateChallenge(params.escrowId);
-    const receipt = await this.waitForTransaction(txPromise, 'Challenge initiation');
-
-    // Get challenge details
-    const challenge = await this.escrowContract.getChallenge(params.escrowId);
+    const error = steps.find((step) => step.error)?.error;
+    const totalGas = steps.reduce((sum, step) => sum + step.gasLimit, 0n);
+    const protocolFee = planned.feeOn !== undefined ? await this.getProtocolFee(planned.feeOn) : 0n;
 
     return {
-      escrowId: params.escrowId,
-      challenger: challengerAddress,
-      stake: CHALLENGE_STAKE,
-      deadline: Number(challenge.deadline),
-      reason: params.reason,
-      txHash: receipt.hash
+      ok: !error,
+      steps,
+      error,
+      totalGas,
+      gasPrice,
+      estimatedCost: totalGas * gasPrice,
+      protocolFee: Number(ethers.formatUnits(protocolFee, 6)),
+      protocolFeeUnits: protocolFee
     };
   }
 
   /**
-   * Respond to challenge (seller only)
-   *
-   * @param escrowId - Escrow identifier
-   * @param responseData - Response data (will be hashed)
-   * @returns Transaction hash
+   * Protocol fee the escrow contract takes from an amount on release (USDC units)
    */
-  async respondChallenge(escrowId: string, responseData: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
-
-    if (!responseData || responseData.length === 0) {
-      throw new RookError(ErrorCodes.INVALID_AGENT, 'Response data is required');
-    }
-
-    const responseHash = ethers.keccak256(ethers.toUtf8Bytes(responseData));
-
-    const txPromise = this.escrowContract.respondChallenge(escrowId, responseHash);
-    const receipt = await this.waitForTransaction(txPromise, 'Challenge response');
-
-    return receipt.hash;
+  private async getProtocolFee(amount: bigint): Promise<bigint> {
+    return (amount * BigInt(await this.getFeeBps())) / 10000n;
   }
 
   /**
-   * Resolve challenge (oracle only)
-   *
-   * @param escrowId - Escrow identifier
-   * @param passed - Whether challenge was passed
-   * @returns Transaction hash
+   * Protocol fee in basis points, as _collectFee applies it (0 without a fee recipient)
    */
-  async resolveChallenge(escrowId: string, passed: boolean): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
+  private async getFeeBps(): Promise<number> {
+    const [feeBps, feeRecipient] = await Promise.all([
+      this.escrowContract.protocolFeeBps(),
+      this.escrowContract.feeRecipient()
+    ]);
+    return feeRecipient === ethers.ZeroAddress ? 0 : Number(feeBps);
+  }
 
-    const isOp = await this.isOperator();
-    if (!isOp) {
-      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only oracle operators can resolve challenges');
-    }
+  // =================================================================
+  // NAME RESOLUTION
+  // =================================================================
 
-    const txPromise = this.oracleContract.resolveChallenge(escrowId, passed);
-    const receipt = await this.waitForTransaction(txPromise, 'Challenge resolution');
+  /**
+   * Resolve an address, ENS name, Moltbook @handle or custom identifier
+   *
+   * @throws INVALID_AGENT if the name is not registered with any resolver
+   */
+  async resolveName(name: string): Promise<string> {
+    return this.resolveAddress(name);
+  }
 
-    return receipt.hash;
+  /**
+   * Display name (ENS name or @handle) for an address, or null if it has none
+   */
+  async lookupName(address: string): Promise<string | null> {
+    return this.resolvers.reverse(address);
   }
 
   /**
-   * Claim challenge timeout (challenger wins if seller didn't respond)
+   * Add a name resolver ahead of the existing ones, or replace the one with the same name
    *
-   * @param escrowId - Escrow identifier
-   * @returns Transaction hash
+   * @example
+   * ```typescript
+   * rook.registerResolver({
+   *   name: 'directory',
+   *   supports: (name) => name.startsWith('agent:'),
+   *   resolve: async (name) => directory.lookup(name.slice(6))
+   * });
+   * await rook.createEscrow({ recipient: 'agent:translator-7', amount: 50, job: '...' });
+   * ```
    */
-  async claimTimeout(escrowId: string): Promise<string> {
-    if (!this.signer) throw new RookError(ErrorCodes.NO_SIGNER);
-
-    // Check if deadline has passed
-    const challenge = await this.escrowContract.getChallenge(escrowId);
-    const currentBlock = await this.getBlockNumber();
-
-    if (currentBlock <= Number(challenge.deadline)) {
-      const blocksRemaining = Number(challenge.deadline) - currentBlock;
-      throw new RookError(ErrorCodes.CHALLENGE_NOT_EXPIRED,
-        `Challenge deadline not reached. ${blocksRemaining} blocks remaining.`);
-    }
-
-    const txPromise = this.escrowContract.claimChallengeTimeout(escrowId);
-    const receipt = await this.waitForTransaction(txPromise, 'Timeout claim');
-
-    return receipt.hash;
+  registerResolver(resolver: AgentResolver): void {
+    this.resolvers.register(resolver);
   }
 
   // =================================================================
@@ -662,25 +2662,53 @@ export class RookProtocol {
   /**
    * Resolve agent handle to address
    */
-  private async resolveAddress(agent: string): Promise<string> {
-    if (ethers.isAddress(agent)) {
-      return agent;
-    }
+  protected async resolveAddress(agent: string): Promise<string> {
+    return this.resolvers.resolve(agent);
+  }
 
-    if (agent.startsWith('@')) {
-      // TODO: Implement Moltbook API lookup
-      throw new RookError(ErrorCodes.NOT_IMPLEMENTED, 'Moltbook resolution coming soon');
+  /**
+   * Write a debug message to the logger
+   */
+  protected log(message: string, context?: Record<string, unknown>): void {
+    this.options.logger.debug(message, context);
+  }
+
+  /**
+   * Call a lifecycle hook (a throwing hook is logged, never fails the call)
+   */
+  protected emit<K extends keyof RookHooks>(hook: K, event: Parameters<NonNullable<RookHooks[K]>>[0]): void {
+    const callback = this.options.hooks[hook] as ((event: unknown) => void) | undefined;
+    if (!callback) return;
+    try {
+      callback(event);
+    } catch (error: any) {
+      this.options.logger.error(`${hook} hook threw: ${error?.message}`, { hook });
     }
+  }
 
-    if (agent.endsWith('.eth')) {
-      const address = await this.provider.resolveName(agent);
-      if (!address) {
-        throw new RookError(ErrorCodes.INVALID_AGENT, `Could not resolve ENS: ${agent}`);
+  /**
+   * Find an event emitted by the escrow contract in a receipt (logs from other addresses are ignored)
+   */
+  protected findEscrowEvent(receipt: TransactionReceipt, escrowAddress: string, name: string): ethers.LogDescription | null {
+    const iface = this.escrowContract.interface;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== escrowAddress.toLowerCase()) continue;
+      try {
+        const parsed = iface.parseLog(log);
+        if (parsed?.name === name) return parsed;
+      } catch {
+        // Not an escrow event
       }
-      return address;
     }
+    return null;
+  }
 
-    throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid agent identifier: ${agent}`);
+  /**
+   * Timestamp of the latest block (contract time checks use it, not the local clock)
+   */
+  protected async getBlockTimestamp(): Promise<number> {
+    const block = await this.provider.getBlock('latest');
+    return block ? block.timestamp : Math.floor(Date.now() / 1000);
   }
 
   private getDefaultRpc(network: string): string {
@@ -705,37 +2733,303 @@ export class RookProtocol {
    * Get USDC balance
    */
   async getBalance(address?: string): Promise<number> {
-    const addr = address || (this.signer ? await this.signer.getAddress() : null);
-    if (!addr) throw new RookError(ErrorCodes.NO_SIGNER);
+    return Number(ethers.formatUnits(await this.getBalanceUnits(address), 6));
+  }
 
-    const balance = await this.usdcContract.balanceOf(addr);
-    return Number(ethers.formatUnits(balance, 6));
+  /**
+   * Get USDC balance in raw units (6 decimals), for exact accounting
+   */
+  async getBalanceUnits(address?: string): Promise<bigint> {
+    const addr = address || await this.getAddress();
+    return this.usdcContract.balanceOf(addr);
   }
 
   /**
    * Check if address is oracle operator
    */
   async isOperator(address?: string): Promise<boolean> {
-    const addr = address || (this.signer ? await this.signer.getAddress() : null);
-    if (!addr) throw new RookError(ErrorCodes.NO_SIGNER);
+    const addr = address || await this.getAddress();
+
+    return (await this.getOracleContract()).operators(addr);
+  }
+
+  // =================================================================
+  // EVENTS
+  // =================================================================
+
+  /**
+   * Subscribe to a RookEscrow or RookOracle event
+   *
+   * Uses push subscriptions on WebSocket RPCs and polls `queryFilter`
+   * on HTTP-only RPCs.
+   *
+   * @param event - Event name
+   * @param callback - Receives the decoded event with block and tx metadata
+   * @param filter - Match on escrowId, buyer, seller, ... (fields the event carries)
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = rook.subscribe('ChallengeInitiated', (event) => {
+   *   console.log(`Challenged at block ${event.blockNumber}, deadline ${event.deadline}`);
+   * }, { escrowId });
+   * ```
+   */
+  subscribe<K extends RookEventName>(
+    event: K,
+    callback: (event: RookEventMap[K]) => void,
+    filter: RookEventFilter<K> = {},
+    options: SubscribeOptions = {}
+  ): () => void {
+    if (!ORACLE_EVENTS.has(event)) {
+      return this.events.subscribe(this.escrowContract, event, filter, callback, options);
+    }
+
+    // Oracle events wait for the oracle address to be known
+    let unsubscribe: (() => void) | null = null;
+    let stopped = false;
+    this.getOracleContract().then(
+      (oracle) => {
+        if (!stopped) unsubscribe = this.events.subscribe(oracle, event, filter, callback, options);
+      },
+      (error) => options.onError?.(error)
+    );
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+    };
+  }
+
+  /**
+   * Query past events of one type
+   *
+   * @param event - Event name
+   * @param filter - Match on escrowId, buyer, seller, ... (fields the event carries)
+   * @param fromBlock - First block to search (default: `contracts.deployBlock`)
+   * @param toBlock - Last block to search (default: latest)
+   */
+  async queryEvents<K extends RookEventName>(
+    event: K,
+    filter: RookEventFilter<K> = {},
+    fromBlock?: number,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<RookEventMap[K][]> {
+    await this.ensureNetwork();
+    return this.events.query(await this.contractForEvent(event), event, filter, this.eventsFromBlock(fromBlock), toBlock);
+  }
 
-    return this.oracleContract.operators(addr);
+  /**
+   * First block of an event scan: the caller's, else the deployment block
+   *
+   * Without either the scan starts at genesis, which most RPCs refuse or
+   * serve slowly: that is logged once.
+   */
+  private eventsFromBlock(fromBlock?: number): number {
+    if (fromBlock !== undefined) return fromBlock;
+    if (this.contracts.deployBlock) return this.contracts.deployBlock;
+    if (!this.warnedGenesisScan) {
+      this.warnedGenesisScan = true;
+      this.options.logger.warn('contracts.deployBlock is not set: scanning events from block 0');
+    }
+    return 0;
   }
 
   /**
-   * Listen for escrow creation events (requires WebSocket provider)
+   * Listen for escrow creation events
    */
-  onEscrowCreated(callback: (escrowId: string, buyer: string, seller: string, amount: bigint) => void) {
-    this.escrowContract.on('EscrowCreated', callback);
-    return () => this.escrowContract.off('EscrowCreated', callback);
+  onEscrowCreated(
+    callback: (event: EscrowCreatedEvent) => void,
+    filter: RookEventFilter<'EscrowCreated'> = {}
+  ): () => void {
+    return this.subscribe('EscrowCreated', callback, filter);
   }
 
   /**
    * Listen for escrow release events
    */
-  onEscrowReleased(callback: (escrowId: string, seller: string, amount: bigint) => void) {
-    this.escrowContract.on('EscrowReleased', callback);
-    return () => this.escrowContract.off('EscrowReleased', callback);
+  onEscrowReleased(
+    callback: (event: EscrowReleasedEvent) => void,
+    filter: RookEventFilter<'EscrowReleased'> = {}
+  ): () => void {
+    return this.subscribe('EscrowReleased', callback, filter);
+  }
+
+  // =================================================================
+  // WAITING
+  // =================================================================
+
+  /**
+   * Wait until an escrow reaches one of `statuses`
+   *
+   * Wakes on the escrow's events (WebSocket RPCs) and re-reads the escrow
+   * every polling interval, which also covers HTTP RPCs and dropped sockets.
+   *
+   * @param escrowId - Escrow identifier
+   * @param statuses - Status or statuses to wait for
+   * @param options - `timeoutMs` (WAIT_TIMEOUT), `signal` (ABORTED), `pollingInterval`
+   * @returns The escrow, in one of `statuses`
+   *
+   * @example
+   * ```typescript
+   * const escrow = await rook.waitForStatus(escrowId, ['Released', 'Refunded'], { timeoutMs: 10 * 60_000 });
+   * ```
+   */
+  async waitForStatus(
+    escrowId: string,
+    statuses: EscrowStatus | EscrowStatus[],
+    options: WaitOptions = {}
+  ): Promise<EscrowResult> {
+    const wanted = Array.isArray(statuses) ? statuses : [statuses];
+
+    return this.waitUntil(`escrow ${escrowId} to be ${wanted.join(' or ')}`, async () => {
+      const escrow = await this.getEscrow(escrowId);
+      if (escrow.buyer === ethers.ZeroAddress) {
+        throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+      }
+      return wanted.includes(escrow.status) ? escrow : undefined;
+    }, (wake) => STATUS_EVENTS.map((event) => this.subscribe(event, wake, { escrowId })), options);
+  }
+
+  /**
+   * Wait until the latest block is at least `blockNumber`
+   *
+   * @param blockNumber - Block to wait for
+   * @param options - `timeoutMs` (WAIT_TIMEOUT), `signal` (ABORTED), `pollingInterval`
+   * @returns The latest block number
+   */
+  async waitForBlock(blockNumber: number, options: WaitOptions = {}): Promise<number> {
+    return this.waitUntil(`block ${blockNumber}`, async () => {
+      const latest = await this.getBlockNumber();
+      return latest >= blockNumber ? latest : undefined;
+    }, (wake) => [this.onBlock(wake)], options);
+  }
+
+  /**
+   * Wait until a challenge can no longer be answered in time
+   *
+   * Resolves at the challenge deadline, when a claimTimeout() sent next is
+   * mined past it, or earlier once the seller responds, the oracle resolves
+   * the challenge or the escrow is disputed. A challenge still 'Active' can
+   * be claimed; null means it was resolved and cleared.
+   *
+   * @param escrowId - Escrow identifier
+   * @param options - `timeoutMs` (WAIT_TIMEOUT), `signal` (ABORTED), `pollingInterval`
+   * @returns The challenge as it stands then
+   *
+   * @example
+   * ```typescript
+   * const challenge = await rook.waitForChallengeDeadline(escrowId);
+   * if (challenge?.status === 'Active') await rook.claimTimeout(escrowId);
+   * ```
+   */
+  async waitForChallengeDeadline(escrowId: string, options: WaitOptions = {}): Promise<ChallengeDetails | null> {
+    const initial = await this.getChallenge(escrowId);
+    if (!initial) {
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_FOUND, `No challenge on escrow ${escrowId}`);
+    }
+
+    return this.waitUntil(`the challenge deadline of escrow ${escrowId}`, async () => {
+      const [challenge, escrow, latest] = await Promise.all([
+        this.getChallenge(escrowId),
+        this.getEscrow(escrowId),
+        this.getBlockNumber()
+      ]);
+      const open = challenge?.status === 'Active' && escrow.status === 'Challenged';
+      return !open || latest >= challenge!.deadline ? { challenge } : undefined;
+    }, (wake) => [
+      ...CHALLENGE_EVENTS.map((event) => this.subscribe(event, wake, { escrowId })),
+      this.onBlock(wake)
+    ], options).then(({ challenge }) => challenge);
+  }
+
+  private onBlock(listener: () => void): () => void {
+    this.provider.on('block', listener);
+    return () => { this.provider.off('block', listener); };
+  }
+
+  /**
+   * Re-run `check` until it returns a value
+   *
+   * Push triggers are only wired on WebSocket RPCs (HTTP subscriptions would
+   * poll logs on top of the state polling). Checks never overlap. RookErrors
+   * from `check` end the wait; other errors are logged and retried.
+   */
+  private waitUntil<T>(
+    what: string,
+    check: () => Promise<T | undefined>,
+    triggers: (wake: () => void) => Array<() => void>,
+    options: WaitOptions
+  ): Promise<T> {
+    const { signal, timeoutMs } = options;
+    const interval = options.pollingInterval ?? this.options.pollingInterval;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let running = false;
+      let rerun = false;
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+      let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+      let unsubscribers: Array<() => void> = [];
+
+      const finish = (error: Error | null, value?: T) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(pollTimer);
+        clearTimeout(timeoutTimer);
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve(value as T);
+      };
+
+      const onAbort = () => finish(new RookError(ErrorCodes.ABORTED, `Stopped waiting for ${what}`,
+        { reason: signal?.reason }));
+
+      const wake = async () => {
+        if (settled) return;
+        if (running) {
+          rerun = true;
+          return;
+        }
+        running = true;
+        clearTimeout(pollTimer);
+        try {
+          const value = await check();
+          if (value !== undefined) finish(null, value);
+        } catch (error: any) {
+          if (error instanceof RookError) finish(error);
+          else this.log(`Waiting for ${what}: ${error.shortMessage || error.message}`);
+        } finally {
+          running = false;
+          if (!settled) {
+            if (rerun) {
+              rerun = false;
+              wake();
+            } else {
+              pollTimer = setTimeout(wake, interval);
+            }
+          }
+        }
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timeoutTimer = setTimeout(() => finish(new RookError(ErrorCodes.WAIT_TIMEOUT,
+          `Timed out after ${timeoutMs}ms waiting for ${what}`, { timeoutMs })), timeoutMs);
+      }
+      if (this.provider instanceof ethers.WebSocketProvider) {
+        unsubscribers = triggers(() => { wake(); });
+      }
+      wake();
+    });
+  }
+
+  private async contractForEvent(event: RookEventName): Promise<Contract> {
+    return ORACLE_EVENTS.has(event) ? this.getOracleContract() : this.escrowContract;
   }
 }
 
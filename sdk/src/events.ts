@@ -0,0 +1,305 @@
+import { ethers, Contract, EventLog, Log, Provider, Result, WebSocketProvider } from 'ethers';
+import {
+  RookEventMap,
+  RookEventName,
+  RookEventFilter,
+  RookEventMeta,
+  SubscribeOptions
+} from './types';
+import { RookError, ErrorCodes } from './utils/errors';
+
+/**
+ * Events emitted by RookOracle (everything else comes from RookEscrow)
+ */
+export const ORACLE_EVENTS: ReadonlySet<RookEventName> = new Set<RookEventName>([
+  'ScoreUpdated',
+  'OperatorUpdated',
+  'WeightsUpdated',
+  'EscrowUpdated',
+  'RegistriesUpdated'
+]);
+
+type EventFields<K extends RookEventName> = Omit<RookEventMap[K], keyof RookEventMeta>;
+
+// Map raw ethers args to typed event objects
+const DECODERS: { [K in RookEventName]: (args: Result) => EventFields<K> } = {
+  EscrowCreated: (a) => ({
+    escrowId: a.escrowId,
+    buyer: a.buyer,
+    seller: a.seller,
+    amount: a.amount,
+    jobHash: a.jobHash,
+    trustThreshold: Number(a.trustThreshold)
+  }),
+  EscrowReleased: (a) => ({
+    escrowId: a.escrowId,
+    seller: a.seller,
+    amount: a.amount,
+    trustScore: Number(a.trustScore),
+    releaseReason: a.releaseReason
+  }),
+  EscrowRefunded: (a) => ({ escrowId: a.escrowId, buyer: a.buyer, amount: a.amount, reason: a.reason }),
+  EscrowDisputed: (a) => ({ escrowId: a.escrowId, initiator: a.initiator, evidence: a.evidence }),
+  DisputeResolved: (a) => ({ escrowId: a.escrowId, winner: a.winner, amount: a.amount, reason: a.reason }),
+  DisputeResolutionScheduled: (a) => ({
+    escrowId: a.escrowId,
+    winner: a.winner,
+    executeAfter: Number(a.executeAfter)
+  }),
+  DisputeResolutionCancelled: (a) => ({ escrowId: a.escrowId }),
+  ChallengeInitiated: (a) => ({
+    escrowId: a.escrowId,
+    challenger: a.challenger,
+    stake: a.stake,
+    deadline: Number(a.deadline)
+  }),
+  ChallengeResponded: (a) => ({ escrowId: a.escrowId, responseHash: a.responseHash }),
+  ChallengeResolved: (a) => ({
+    escrowId: a.escrowId,
+    passed: a.passed,
+    challenger: a.challenger,
+    stakeReturned: a.stakeReturned
+  }),
+  ChallengeStakeSlashed: (a) => ({
+    escrowId: a.escrowId,
+    challenger: a.challenger,
+    seller: a.seller,
+    slashedAmount: a.slashedAmount
+  }),
+  ConsentRecorded: (a) => ({ escrowId: a.escrowId, party: a.party }),
+  FeesCollected: (a) => ({ escrowId: a.escrowId, feeAmount: a.feeAmount }),
+  OracleUpdated: (a) => ({ oldOracle: a.oldOracle, newOracle: a.newOracle }),
+  ProtocolFeeUpdated: (a) => ({ oldFee: Number(a.oldFee), newFee: Number(a.newFee) }),
+  FeeRecipientUpdated: (a) => ({ oldRecipient: a.oldRecipient, newRecipient: a.newRecipient }),
+  TokensRescued: (a) => ({ token: a.token, to: a.to, amount: a.amount }),
+  TimelockScheduled: (a) => ({ actionId: a.actionId, executeAfter: Number(a.executeAfter) }),
+  TimelockExecuted: (a) => ({ actionId: a.actionId }),
+  TimelockCancelled: (a) => ({ actionId: a.actionId }),
+  Paused: (a) => ({ account: a.account }),
+  Unpaused: (a) => ({ account: a.account }),
+  ScoreUpdated: (a) => ({
+    agent: a.agent,
+    identity: Number(a.identity),
+    reputation: Number(a.reputation),
+    sybil: Number(a.sybil),
+    challengeBonus: Number(a.challengeBonus),
+    composite: Number(a.composite)
+  }),
+  OperatorUpdated: (a) => ({ operator: a.operator, status: a.status }),
+  WeightsUpdated: (a) => ({
+    identity: Number(a.identity),
+    reputation: Number(a.reputation),
+    sybil: Number(a.sybil),
+    history: Number(a.history),
+    challenge: Number(a.challenge)
+  }),
+  EscrowUpdated: (a) => ({ oldEscrow: a.oldEscrow, newEscrow: a.newEscrow }),
+  RegistriesUpdated: (a) => ({ identity: a.identity, reputation: a.reputation })
+};
+
+/**
+ * Decode a log into a typed event with block and transaction metadata
+ *
+ * @returns The decoded event, or null if the log is not a `name` event of `contract`
+ */
+export function decodeEvent<K extends RookEventName>(
+  contract: Contract,
+  name: K,
+  log: Log | EventLog
+): RookEventMap[K] | null {
+  let args: Result;
+  if (log instanceof EventLog && log.fragment?.name === name) {
+    args = log.args;
+  } else {
+    const parsed = contract.interface.parseLog(log);
+    if (!parsed || parsed.name !== name) return null;
+    args = parsed.args;
+  }
+
+  return {
+    ...DECODERS[name](args),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index
+  } as RookEventMap[K];
+}
+
+/**
+ * Decode a log of any known event type
+ *
+ * @returns Event name and decoded event, or null for unknown logs
+ */
+export function decodeAnyEvent(
+  contract: Contract,
+  log: Log | EventLog
+): { name: RookEventName; event: RookEventMap[RookEventName] } | null {
+  let parsed;
+  try {
+    parsed = contract.interface.parseLog(log);
+  } catch {
+    return null;
+  }
+  if (!parsed || !(parsed.name in DECODERS)) return null;
+
+  const name = parsed.name as RookEventName;
+  const event = decodeEvent(contract, name, log);
+  return event ? { name, event } : null;
+}
+
+/**
+ * Check a decoded event against a subscription filter (addresses compared case-insensitively)
+ */
+export function matchesFilter<K extends RookEventName>(
+  event: RookEventMap[K],
+  filter: RookEventFilter<K>
+): boolean {
+  return (Object.keys(filter) as Array<keyof RookEventFilter<K>>).every((field) => {
+    const expected = filter[field];
+    if (expected === undefined || expected === null) return true;
+    const actual: unknown = event[field];
+    return typeof actual === 'string' && actual.toLowerCase() === String(expected).toLowerCase();
+  });
+}
+
+/**
+ * Build an ethers topic filter, pushing filter fields into indexed topics where possible
+ */
+function buildTopicFilter<K extends RookEventName>(
+  contract: Contract,
+  name: K,
+  filter: RookEventFilter<K>
+) {
+  const fragment = contract.interface.getEvent(name);
+  if (!fragment) {
+    throw new RookError(ErrorCodes.UNKNOWN, `Event ${name} not found in contract ABI`);
+  }
+
+  const values = fragment.inputs
+    .filter((input) => input.indexed)
+    .map((input) => (filter as Record<string, string | undefined>)[input.name] ?? null);
+
+  return contract.filters[name](...values);
+}
+
+/**
+ * Event subscriptions and log queries for Rook contracts
+ *
+ * Uses push subscriptions on WebSocket providers and falls back to polling
+ * `queryFilter` on HTTP-only providers, where `eth_newFilter` is often
+ * unsupported or rate-limited.
+ */
+export class RookEvents {
+  constructor(
+    private provider: Provider,
+    private pollingInterval: number
+  ) {}
+
+  /**
+   * Query past events in a block range
+   */
+  async query<K extends RookEventName>(
+    contract: Contract,
+    name: K,
+    filter: RookEventFilter<K> = {},
+    fromBlock: number = 0,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<RookEventMap[K][]> {
+    const logs = await contract.queryFilter(buildTopicFilter(contract, name, filter), fromBlock, toBlock);
+    return logs
+      .map((log) => decodeEvent(contract, name, log))
+      .filter((event): event is RookEventMap[K] => event !== null && matchesFilter(event, filter));
+  }
+
+  /**
+   * Query every event whose first indexed topic is the escrow ID, in chain order
+   */
+  async queryEscrowLogs(
+    contract: Contract,
+    escrowId: string,
+    fromBlock: number = 0,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<Array<{ name: RookEventName; event: RookEventMap[RookEventName] }>> {
+    const logs = await this.provider.getLogs({
+      address: await contract.getAddress(),
+      topics: [null, ethers.zeroPadValue(escrowId, 32)],
+      fromBlock,
+      toBlock
+    });
+
+    return logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => decodeAnyEvent(contract, log))
+      .filter((entry): entry is { name: RookEventName; event: RookEventMap[RookEventName] } => entry !== null);
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * A callback that throws is reported to `onError`; later events are
+   * still delivered.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe<K extends RookEventName>(
+    contract: Contract,
+    name: K,
+    filter: RookEventFilter<K>,
+    callback: (event: RookEventMap[K]) => void,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const topicFilter = buildTopicFilter(contract, name, filter);
+    const deliver = (log: Log | EventLog) => {
+      const event = decodeEvent(contract, name, log);
+      if (!event || !matchesFilter(event, filter)) return;
+      try {
+        callback(event);
+      } catch (error: any) {
+        options.onError?.(error);
+      }
+    };
+
+    if (this.provider instanceof WebSocketProvider) {
+      const listener = (...args: any[]) => {
+        const payload = args[args.length - 1];
+        deliver(payload.log);
+      };
+      contract.on(topicFilter, listener);
+      return () => {
+        contract.off(topicFilter, listener);
+      };
+    }
+
+    // HTTP-only provider: poll queryFilter over new block ranges
+    const interval = options.pollingInterval ?? this.pollingInterval;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastBlock: number | null = options.fromBlock !== undefined ? options.fromBlock - 1 : null;
+
+    const poll = async () => {
+      try {
+        const latest = await this.provider.getBlockNumber();
+        if (lastBlock === null) {
+          lastBlock = latest;
+        } else if (latest > lastBlock) {
+          const logs = await contract.queryFilter(topicFilter, lastBlock + 1, latest);
+          lastBlock = latest;
+          for (const log of logs) {
+            if (stopped) return;
+            deliver(log);
+          }
+        }
+      } catch (error: any) {
+        options.onError?.(error);
+      }
+      if (!stopped) timer = setTimeout(poll, interval);
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
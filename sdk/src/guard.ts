@@ -0,0 +1,358 @@
+import { RookProtocol } from './client';
+import {
+  ChallengeGuardAlertType,
+  ChallengeGuardOptions,
+  GuardedChallenge,
+  ProofResult
+} from './types';
+import { RookError, ErrorCodes } from './utils/errors';
+import { CHALLENGE_BLOCKS, CHALLENGE_RESPONSE_WINDOW } from './utils/constants';
+
+// Queue label of respondChallenge() sends (proveIdentity included)
+const RESPONSE_OPERATION = 'Challenge response';
+
+interface TrackedChallenge extends GuardedChallenge {
+  /** Response seen on-chain: nothing left to watch */
+  answered: boolean;
+  atRisk: boolean;
+  /** Proof of a response sent but unconfirmed at the SDK timeout */
+  proof?: Pick<ProofResult, 'signature' | 'timestamp' | 'responseHash' | 'txHash'>;
+}
+
+/**
+ * Answers challenges on the signer's escrows as they come in
+ *
+ * Watches ChallengeInitiated for escrows the signer sells (and picks up those
+ * already challenged at start()), answers each with proveIdentity() and hands
+ * the signature to the oracle. Once `bumpWithinBlocks` of the response window
+ * are left, unconfirmed responses and the sends queued ahead of them are sped
+ * up every block. Requires `oracleUrl` in the config.
+ *
+ * @example
+ * ```typescript
+ * const guard = new ChallengeGuard(rook, {
+ *   onAlert: (alert) => pager.send(`${alert.type} on ${alert.escrowId}: ${alert.message}`)
+ * });
+ * await guard.start();
+ * ```
+ */
+export class ChallengeGuard {
+  private seller: string | null = null;
+  private challenges = new Map<string, TrackedChallenge>();
+  private controller: AbortController | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private bumpWithinBlocks: number;
+  private bumpPercent: number;
+  private retries: number;
+
+  constructor(
+    private rook: RookProtocol,
+    private options: ChallengeGuardOptions = {}
+  ) {
+    this.bumpWithinBlocks = options.bumpWithinBlocks ?? 10;
+    this.bumpPercent = Math.max(10, options.bumpPercent ?? 10);
+    this.retries = options.retries ?? 2;
+  }
+
+  /**
+   * Start watching; resolves once the challenges already open are picked up
+   */
+  async start(): Promise<void> {
+    if (this.controller) return;
+
+    // Fail now rather than at the first challenge
+    this.rook.getOracleClient();
+    this.seller = (await this.rook.getAddress()).toLowerCase();
+
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      this.unsubscribe = this.rook.subscribe('ChallengeInitiated', (event) => {
+        this.guard(event.escrowId);
+      }, {}, { onError: (error) => this.report(error) });
+      this.watchBlocks(controller.signal);
+
+      for await (const escrow of this.rook.listEscrows({ seller: this.seller, status: 'Challenged' })) {
+        if (controller.signal.aborted) break;
+        this.guard(escrow.id);
+      }
+    } catch (error) {
+      // Leave nothing running so start() can be retried
+      this.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop watching (responses already sent stay in the transaction queue)
+   */
+  stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.challenges.clear();
+  }
+
+  /**
+   * Challenges being answered
+   */
+  getChallenges(): GuardedChallenge[] {
+    return [...this.challenges.values()].map(({ escrowId, responseDeadline, state, attempts }) =>
+      ({ escrowId, responseDeadline, state, attempts }));
+  }
+
+  private async guard(escrowId: string): Promise<void> {
+    if (this.challenges.has(escrowId)) return;
+
+    try {
+      const [escrow, challenge] = await Promise.all([
+        this.rook.getEscrow(escrowId),
+        this.rook.getChallenge(escrowId)
+      ]);
+      // Seen twice (event and start-up scan) or stopped meanwhile
+      if (this.challenges.has(escrowId) || !this.controller) return;
+      if (escrow.seller.toLowerCase() !== this.seller || challenge?.status !== 'Active') return;
+
+      const tracked: TrackedChallenge = {
+        escrowId,
+        responseDeadline: challenge.deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW,
+        state: 'responding',
+        attempts: 0,
+        answered: false,
+        atRisk: false
+      };
+      this.challenges.set(escrowId, tracked);
+      await this.respond(tracked);
+    } catch (error: any) {
+      this.report(error);
+    }
+  }
+
+  /**
+   * Send the proof, retrying failed sends while the window is open
+   *
+   * Retries back off by 1, 2, 4... blocks; watchBlocks() reports the
+   * challenge missed if the window closes meanwhile.
+   */
+  private async respond(tracked: TrackedChallenge): Promise<void> {
+    while (this.isTracked(tracked)) {
+      tracked.attempts++;
+      try {
+        const proof = await this.rook.proveIdentity(tracked.escrowId);
+        if (!this.isTracked(tracked)) return;
+        tracked.answered = true;
+        await this.deliver(tracked, proof, 1);
+        return;
+      } catch (error: any) {
+        if (!this.isTracked(tracked)) return;
+        const details = error instanceof RookError ? error.details : undefined;
+
+        if (details?.txHash && details.signature) {
+          // Sent: watchBlocks() delivers the proof once the response is mined
+          tracked.state = 'pending';
+          tracked.proof = {
+            signature: details.signature,
+            timestamp: details.timestamp,
+            responseHash: details.responseHash,
+            txHash: details.txHash
+          };
+          return;
+        }
+        if (error.code === ErrorCodes.CHALLENGE_NOT_ACTIVE) {
+          // Answered or resolved elsewhere
+          this.challenges.delete(tracked.escrowId);
+          return;
+        }
+        if (error.code === ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED || tracked.attempts > this.retries) {
+          this.challenges.delete(tracked.escrowId);
+          const missed = error.code === ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED;
+          this.alert(missed ? 'missed' : 'failed', tracked,
+            missed ? 'Response window closed before the response was sent' : `Response failed: ${error.message}`,
+            await this.blocksLeft(tracked), error);
+          return;
+        }
+        this.report(error);
+        if (!await this.backOff(tracked)) return;
+      }
+    }
+  }
+
+  /**
+   * Wait before the next response attempt
+   *
+   * @returns Whether a response sent now can still be mined in the window
+   */
+  private async backOff(tracked: TrackedChallenge): Promise<boolean> {
+    const signal = this.controller?.signal;
+    if (!signal) return false;
+    try {
+      const target = Math.min(
+        await this.rook.getBlockNumber() + 2 ** (tracked.attempts - 1),
+        tracked.responseDeadline
+      );
+      const block = await this.rook.waitForBlock(target, { signal });
+      return block < tracked.responseDeadline;
+    } catch (error: any) {
+      if (error.code === ErrorCodes.ABORTED) return false;
+      // Could not read the chain: the retry budget still bounds the attempts
+      this.report(error);
+      return true;
+    }
+  }
+
+  /**
+   * Submit the proof to the oracle until it resolves the challenge
+   *
+   * @param attempts - Submissions already made (proveIdentity() makes one)
+   */
+  private async deliver(tracked: TrackedChallenge, proof: ProofResult, attempts: number): Promise<void> {
+    // An invalid signature stays invalid
+    while (!proof.resolved && proof.oracleError?.code !== ErrorCodes.INVALID_RESPONSE && attempts <= this.retries) {
+      attempts++;
+      try {
+        const submission = await this.rook.submitChallengeProof(proof.escrowId, proof.signature,
+          { timestamp: proof.timestamp });
+        proof = {
+          ...proof,
+          verified: submission.valid,
+          resolved: submission.resolved,
+          resolutionTxHash: submission.txHash,
+          oracleError: !submission.valid
+            ? new RookError(ErrorCodes.INVALID_RESPONSE, submission.message ?? 'Oracle rejected the challenge signature')
+            : !submission.resolved
+              ? new RookError(ErrorCodes.ORACLE_ERROR,
+                submission.error ?? 'Oracle verified the proof but did not resolve the challenge')
+              : undefined
+        };
+      } catch (error: any) {
+        proof = {
+          ...proof,
+          oracleError: error instanceof RookError ? error : new RookError(ErrorCodes.ORACLE_ERROR, error.message)
+        };
+      }
+    }
+
+    this.challenges.delete(tracked.escrowId);
+    if (proof.resolved) {
+      this.options.onResponse?.(proof);
+    } else {
+      this.alert('oracle_failed', tracked,
+        `Response is on-chain but the oracle did not resolve the challenge: ${proof.oracleError?.message}`,
+        await this.blocksLeft(tracked), proof.oracleError);
+    }
+  }
+
+  /**
+   * Follow responses on every block: deliver confirmed ones, alert and bump fees near the deadline
+   */
+  private async watchBlocks(signal: AbortSignal): Promise<void> {
+    let next = 0;
+    while (!signal.aborted) {
+      let block: number;
+      try {
+        block = await this.rook.waitForBlock(next, { signal });
+      } catch {
+        // Only ABORTED: failed polls are retried inside waitForBlock
+        return;
+      }
+      next = block + 1;
+
+      let bump = false;
+      for (const tracked of [...this.challenges.values()]) {
+        if (tracked.answered) continue;
+        try {
+          bump = await this.checkChallenge(tracked, block) || bump;
+        } catch (error: any) {
+          this.report(error);
+        }
+      }
+      if (bump) await this.bumpResponses();
+    }
+  }
+
+  /**
+   * @returns Whether the response needs a fee bump
+   */
+  private async checkChallenge(tracked: TrackedChallenge, block: number): Promise<boolean> {
+    const blocksLeft = tracked.responseDeadline - block;
+
+    // Pending responses are only confirmed by the chain
+    if (tracked.state === 'pending' || blocksLeft <= 0) {
+      const challenge = await this.rook.getChallenge(tracked.escrowId);
+      if (!this.isTracked(tracked) || tracked.answered) return false;
+
+      if (challenge?.status === 'Responded') {
+        if (tracked.proof) {
+          tracked.answered = true;
+          this.deliver(tracked, {
+            escrowId: tracked.escrowId,
+            method: 'wallet_signature',
+            ...tracked.proof,
+            verified: false,
+            resolved: false
+          }, 0).catch((error) => this.report(error));
+        }
+        return false;
+      }
+      if (challenge?.status !== 'Active') {
+        this.challenges.delete(tracked.escrowId);
+        return false;
+      }
+      if (blocksLeft <= 0) {
+        // A response sent now is mined after the deadline
+        this.challenges.delete(tracked.escrowId);
+        this.alert('missed', tracked, `Response window closed at block ${tracked.responseDeadline}`, blocksLeft);
+        return false;
+      }
+    }
+
+    if (blocksLeft > this.bumpWithinBlocks) return false;
+    if (!tracked.atRisk) {
+      tracked.atRisk = true;
+      this.alert('at_risk', tracked, `Response not mined with ${blocksLeft} blocks left, bumping fees`, blocksLeft);
+    }
+    return true;
+  }
+
+  /**
+   * Speed up pending challenge responses and every send ahead of them
+   */
+  private async bumpResponses(): Promise<void> {
+    const { pending } = this.rook.getQueueState();
+    const responses = pending.filter((tx) => tx.operation === RESPONSE_OPERATION);
+    if (responses.length === 0) return;
+
+    // Lower nonces must be mined first
+    const lastNonce = Math.max(...responses.map((tx) => tx.nonce));
+    for (const tx of pending.filter((tx) => tx.nonce <= lastNonce)) {
+      try {
+        await this.rook.speedUp(tx.hash, this.bumpPercent);
+      } catch (error: any) {
+        if (error.code !== ErrorCodes.TX_ALREADY_MINED) this.report(error);
+      }
+    }
+  }
+
+  private async blocksLeft(tracked: TrackedChallenge): Promise<number> {
+    return tracked.responseDeadline - await this.rook.getBlockNumber().catch(() => tracked.responseDeadline);
+  }
+
+  private isTracked(tracked: TrackedChallenge): boolean {
+    return this.challenges.get(tracked.escrowId) === tracked;
+  }
+
+  private alert(
+    type: ChallengeGuardAlertType,
+    tracked: TrackedChallenge,
+    message: string,
+    blocksLeft: number,
+    error?: RookError
+  ): void {
+    this.options.onAlert?.({ type, escrowId: tracked.escrowId, message, blocksLeft, error });
+  }
+
+  private report(error: Error): void {
+    this.options.onError?.(error);
+  }
+}
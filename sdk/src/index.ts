@@ -1,6 +1,25 @@
 export { RookProtocol } from './client';
 export type { RookProtocolOptions } from './client';
+export { RookAdmin } from './admin';
+export { RookOracleClient } from './oracle';
+export { ChallengeGuard } from './guard';
+export { MockRookProtocol } from './mock';
+export type { RookProtocolCore } from './mock';
+export { RookEvents, decodeEvent, ORACLE_EVENTS } from './events';
 export * from './types';
 export * from './utils/errors';
 export * from './utils/constants';
 export * from './utils/helpers';
+export * from './utils/signer';
+export * from './utils/revert';
+export * from './utils/permit';
+export * from './utils/proof';
+export * from './utils/queue';
+export * from './utils/fees';
+export * from './utils/rpc';
+export * from './utils/resolvers';
+export * from './utils/actions';
+export * from './utils/policy';
+export * from './utils/budget';
+export * from './utils/approvers';
+export * from './utils/logger';
@@ -0,0 +1,2179 @@
+import { ethers } from 'ethers';
+import type { RookProtocol } from './client';
+import {
+  AmountInput,
+  BuyerPolicy,
+  ChallengeDetails,
+  ChallengeParams,
+  ChallengeProofSubmission,
+  ChallengeResult,
+  ChallengeStatus,
+  DisputeDetails,
+  DisputeResult,
+  EscrowActions,
+  EscrowCreatedEvent,
+  EscrowListItem,
+  EscrowParams,
+  EscrowQuote,
+  EscrowReleasedEvent,
+  EscrowResult,
+  EscrowStatus,
+  EscrowTimeline,
+  EscrowTimelineEntry,
+  ListEscrowsParams,
+  MockRookOptions,
+  MockScores,
+  PendingDisputeResolution,
+  PolicyCheck,
+  PreviewStep,
+  ProofMethod,
+  ProofResult,
+  ReleaseConsent,
+  RookEventFilter,
+  RookEventMap,
+  RookEventMeta,
+  RookEventName,
+  SpendUsage,
+  SubscribeOptions,
+  TimelineOptions,
+  TransactionPreview,
+  TransactionQueueState,
+  TrustScoreBreakdown,
+  VerificationResult,
+  VerifyOptions,
+  WaitOptions
+} from './types';
+import {
+  CHAIN_IDS,
+  CHALLENGE_BLOCKS,
+  CHALLENGE_RESPONSE_WINDOW,
+  CHALLENGE_STAKE,
+  DEFAULT_EXPIRY,
+  DEFAULT_THRESHOLD,
+  SCORE_WEIGHTS
+} from './utils/constants';
+import { RookError, ErrorCodes } from './utils/errors';
+import { contractRevertError } from './utils/revert';
+import { matchesFilter } from './events';
+import { computeResponseHash, recoverChallengeSigner } from './utils/proof';
+import { getEscrowActions } from './utils/actions';
+import { SpendBudget } from './utils/budget';
+import { evaluatePolicy, mergePolicy, needsChallenge, policyNeedsScore, policyViolationError } from './utils/policy';
+import { getRecommendation, getRiskLevel, toUSDCDecimal } from './utils/helpers';
+
+// RookEscrow constants
+const ORACLE_TIMEOUT = 24 * 60 * 60;
+const CHALLENGE_COOLDOWN = 60 * 60;
+const CHALLENGE_SLASH_PERCENT = 50n;
+const MAX_FEE_BPS = 500;
+const DISPUTE_TIMELOCK_THRESHOLD = 10000n * 10n ** 6n;
+const DISPUTE_TIMELOCK_DELAY = 24 * 60 * 60;
+
+// RookOracle constants
+const MAX_SCORE_AGE = 60 * 60;
+const CHALLENGE_BONUS_DURATION = 30 * 24 * 60 * 60;
+const DEFAULT_HISTORY_SCORE = 40;
+
+const STAKE_UNITS = ethers.parseUnits(CHALLENGE_STAKE.toString(), 6);
+
+/**
+ * The part of RookProtocol MockRookProtocol implements
+ *
+ * Type agent code against it to run the same code on-chain and in tests.
+ * Everything but network setup (checkNetwork, getContracts), the oracle
+ * REST client and custom name resolvers.
+ */
+export type RookProtocolCore = Pick<RookProtocol,
+  | 'getAddress'
+  | 'getChainId'
+  | 'getBlockNumber'
+  | 'getBalance'
+  | 'getBalanceUnits'
+  | 'isOperator'
+  | 'getOracleTimeout'
+  | 'speedUp'
+  | 'cancel'
+  | 'getQueueState'
+  | 'createEscrow'
+  | 'quoteEscrow'
+  | 'checkPolicy'
+  | 'getSpendUsage'
+  | 'release'
+  | 'releaseWithConsent'
+  | 'refund'
+  | 'claimExpired'
+  | 'dispute'
+  | 'resolveDispute'
+  | 'executeDisputeResolution'
+  | 'cancelDisputeResolution'
+  | 'getEscrow'
+  | 'getChallenge'
+  | 'getDispute'
+  | 'getPendingDisputeResolution'
+  | 'getReleaseConsent'
+  | 'getAvailableActions'
+  | 'listEscrows'
+  | 'getEscrowTimeline'
+  | 'verify'
+  | 'challenge'
+  | 'respondChallenge'
+  | 'resolveChallenge'
+  | 'claimTimeout'
+  | 'proveIdentity'
+  | 'submitChallengeProof'
+  | 'previewCreateEscrow'
+  | 'previewRelease'
+  | 'previewReleaseWithConsent'
+  | 'previewRefund'
+  | 'previewDispute'
+  | 'previewClaimExpired'
+  | 'previewResolveDispute'
+  | 'previewExecuteDisputeResolution'
+  | 'previewCancelDisputeResolution'
+  | 'previewChallenge'
+  | 'previewRespondChallenge'
+  | 'previewResolveChallenge'
+  | 'previewClaimTimeout'
+  | 'previewProveIdentity'
+  | 'resolveName'
+  | 'lookupName'
+  | 'subscribe'
+  | 'queryEvents'
+  | 'onEscrowCreated'
+  | 'onEscrowReleased'
+  | 'waitForStatus'
+  | 'waitForBlock'
+  | 'waitForChallengeDeadline'
+>;
+
+interface MockEscrow {
+  buyer: string;
+  seller: string;
+  amount: bigint;
+  threshold: number;
+  createdAt: number;
+  expiresAt: number;
+  status: EscrowStatus;
+}
+
+interface MockChallenge {
+  challenger: string;
+  stake: bigint;
+  deadline: number;
+  status: ChallengeStatus;
+  passed: boolean;
+  responseHash: string;
+}
+
+interface MockDispute {
+  initiator: string;
+  evidence: string;
+  createdAt: number;
+  resolved: boolean;
+  winner: string;
+}
+
+interface MockScoreRecord {
+  identity: number;
+  reputation: number;
+  sybil: number;
+  challengeBonus: number;
+  lastUpdated: number;
+  challengeBonusTimestamp: number;
+}
+
+/**
+ * Block a write is mined in, with the events it emits
+ */
+interface MockBlock {
+  number: number;
+  timestamp: number;
+  txHash: string;
+  logs: Array<{ name: RookEventName; fields: object }>;
+}
+
+/**
+ * Chain state shared by connected instances (addresses are lowercased keys)
+ */
+interface MockState {
+  chainId: number;
+  blockNumber: number;
+  timestamp: number;
+  blockTime: number;
+  automine: boolean;
+  txCount: number;
+  paused: boolean;
+  owner: string | null;
+  operators: Set<string>;
+  feeBps: number;
+  feeRecipient: string | null;
+  balances: Map<string, bigint>;
+  escrowCount: number;
+  escrows: Map<string, MockEscrow>;
+  challenges: Map<string, MockChallenge>;
+  disputes: Map<string, MockDispute>;
+  pendingResolutions: Map<string, PendingDisputeResolution>;
+  consent: Map<string, Set<string>>;
+  lastChallengeTime: Map<string, number>;
+  buyerEscrows: Map<string, string[]>;
+  sellerEscrows: Map<string, string[]>;
+  totalEscrows: Map<string, number>;
+  completedEscrows: Map<string, number>;
+  scores: Map<string, MockScoreRecord>;
+  names: Map<string, string>;
+  /** Emitted events in chain order, with their block timestamps */
+  events: EscrowTimelineEntry[];
+  /** Block number of every mined transaction */
+  transactions: Map<string, number>;
+}
+
+/**
+ * In-memory RookProtocol for unit-testing agents without a chain
+ *
+ * Applies the RookEscrow and RookOracle rules to in-memory state: escrow
+ * status transitions, protocol fees, release consent, the oracle timeout,
+ * expiry, challenge block deadlines, response window and cooldown, disputes
+ * with the high-value timelock, and score breakdowns with staleness and
+ * challenge bonus expiry. Failures throw the RookError codes the SDK
+ * throws against a live deployment.
+ *
+ * The clock and block number only move when told to (`advanceTime`,
+ * `mineBlocks`) and, unless `automine` is off, by one block per write.
+ * `connect()` returns an instance sending as another address on the same
+ * state, so buyer, seller and challenger agents can run side by side.
+ * Writes emit the contracts' events, which subscriptions, event queries
+ * and waits see as soon as they are mined. Allowances, gas, permits and
+ * the transaction queue are not simulated, and the oracle service is
+ * stood in for by submitChallengeProof.
+ *
+ * @example
+ * ```typescript
+ * const buyer = new MockRookProtocol({ address: BUYER, operators: [ORACLE] });
+ * const seller = buyer.connect(SELLER);
+ * buyer.mint(BUYER, '100');
+ * buyer.setScores(SELLER, { identity: 90, reputation: 80, sybil: 70 });
+ *
+ * const escrow = await buyer.createEscrow({ amount: '100', recipient: SELLER, job: 'Audit' });
+ * buyer.advanceTime(24 * 60 * 60);
+ * await buyer.releaseWithConsent(escrow.id);
+ * await seller.releaseWithConsent(escrow.id);
+ * ```
+ */
+export class MockRookProtocol implements RookProtocolCore {
+  private state: MockState;
+  private address: string | null;
+  private policy: BuyerPolicy;
+  private budget: SpendBudget | null;
+  // Subscriptions and waits, woken after every change to the chain state
+  private watchers = new Set<() => void>();
+  // Writes started on this instance (previews tell pre-checks from reverts by it)
+  private writes = 0;
+
+  constructor(options: MockRookOptions = {}) {
+    this.address = options.address ? checkAddress(options.address) : null;
+    this.policy = options.policy ?? {};
+    // Budget windows follow the mock clock
+    this.budget = options.spending
+      ? new SpendBudget(options.spending, () => this.state.timestamp * 1000)
+      : null;
+    const owner = options.owner ?? options.address;
+    const feeBps = options.feeBps ?? 0;
+    if (feeBps < 0 || feeBps > MAX_FEE_BPS) {
+      throw new RookError(ErrorCodes.FEE_TOO_HIGH, `Fee must be between 0 and ${MAX_FEE_BPS} bps`);
+    }
+
+    this.state = {
+      chainId: options.chainId ?? CHAIN_IDS['base-sepolia'],
+      blockNumber: options.blockNumber ?? 1,
+      timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+      blockTime: options.blockTime ?? 2,
+      automine: options.automine ?? true,
+      txCount: 0,
+      paused: false,
+      owner: owner ? checkAddress(owner).toLowerCase() : null,
+      operators: new Set((options.operators ?? []).map((operator) => checkAddress(operator).toLowerCase())),
+      feeBps,
+      feeRecipient: options.feeRecipient ? checkAddress(options.feeRecipient) : null,
+      balances: new Map(),
+      escrowCount: 0,
+      escrows: new Map(),
+      challenges: new Map(),
+      disputes: new Map(),
+      pendingResolutions: new Map(),
+      consent: new Map(),
+      lastChallengeTime: new Map(),
+      buyerEscrows: new Map(),
+      sellerEscrows: new Map(),
+      totalEscrows: new Map(),
+      completedEscrows: new Map(),
+      scores: new Map(),
+      names: new Map(),
+      events: [],
+      transactions: new Map()
+    };
+  }
+
+  // =================================================================
+  // TEST CONTROLS
+  // =================================================================
+
+  /**
+   * Instance sending as `address`, on the same chain state
+   */
+  connect(address: string): MockRookProtocol {
+    const connected = new MockRookProtocol({ address });
+    connected.state = this.state;
+    connected.watchers = this.watchers;
+    return connected;
+  }
+
+  /**
+   * Move the clock forward (the latest block's timestamp)
+   */
+  advanceTime(seconds: number): void {
+    if (seconds < 0) {
+      throw new RookError(ErrorCodes.UNKNOWN, 'Time cannot go backwards');
+    }
+    this.state.timestamp += Math.floor(seconds);
+    this.notify();
+  }
+
+  /**
+   * Set the latest block's timestamp
+   */
+  setTime(timestamp: number): void {
+    this.advanceTime(timestamp - this.state.timestamp);
+  }
+
+  /**
+   * Mine empty blocks, `blockTime` apart
+   */
+  mineBlocks(count: number = 1): void {
+    if (count < 0) {
+      throw new RookError(ErrorCodes.UNKNOWN, 'Block number cannot go backwards');
+    }
+    this.state.blockNumber += Math.floor(count);
+    this.state.timestamp += Math.floor(count) * this.state.blockTime;
+    this.notify();
+  }
+
+  /**
+   * Credit USDC to an address
+   */
+  mint(address: string, amount: AmountInput): void {
+    const units = toUnits(amount);
+    if (units <= 0n) {
+      throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Amount must be greater than 0');
+    }
+    this.credit(this.addressOf(address), units);
+  }
+
+  /**
+   * Push scores for an agent as an oracle operator would (RookOracle.updateScores)
+   *
+   * Stamps them with the latest block's timestamp, which starts the
+   * MAX_SCORE_AGE window, and restarts the challenge bonus when it is above 0.
+   */
+  setScores(agent: string, scores: MockScores): void {
+    const challengeBonus = scores.challengeBonus ?? 0;
+    for (const value of [scores.identity, scores.reputation, scores.sybil, challengeBonus]) {
+      if (!Number.isInteger(value) || value < 0 || value > 100) {
+        throw contractRevertError('InvalidScore', 'Score update', 'RookOracle');
+      }
+    }
+
+    const key = this.addressOf(agent).toLowerCase();
+    const previous = this.state.scores.get(key);
+    this.state.scores.set(key, {
+      identity: scores.identity,
+      reputation: scores.reputation,
+      sybil: scores.sybil,
+      challengeBonus,
+      lastUpdated: this.state.timestamp,
+      challengeBonusTimestamp: challengeBonus > 0 ? this.state.timestamp : previous?.challengeBonusTimestamp ?? 0
+    });
+    this.emitNow('ScoreUpdated', {
+      agent: this.addressOf(agent),
+      identity: scores.identity,
+      reputation: scores.reputation,
+      sybil: scores.sybil,
+      challengeBonus,
+      composite: this.scoreAt(key, this.state.timestamp).composite
+    });
+  }
+
+  /**
+   * Set the protocol fee, and optionally its recipient (no fee is taken without one)
+   */
+  setProtocolFee(feeBps: number, recipient?: string): void {
+    if (feeBps < 0 || feeBps > MAX_FEE_BPS) {
+      throw contractRevertError('FeeTooHigh', 'Fee update');
+    }
+    const oldFee = this.state.feeBps;
+    this.state.feeBps = feeBps;
+    this.emitNow('ProtocolFeeUpdated', { oldFee, newFee: feeBps });
+    if (recipient !== undefined) {
+      const oldRecipient = this.state.feeRecipient ?? ethers.ZeroAddress;
+      this.state.feeRecipient = this.addressOf(recipient);
+      this.emitNow('FeeRecipientUpdated', { oldRecipient, newRecipient: this.state.feeRecipient });
+    }
+  }
+
+  /**
+   * Grant or revoke oracle operator rights
+   */
+  setOperator(address: string, status: boolean = true): void {
+    const key = this.addressOf(address).toLowerCase();
+    if (status) this.state.operators.add(key);
+    else this.state.operators.delete(key);
+    this.emitNow('OperatorUpdated', { operator: this.addressOf(address), status });
+  }
+
+  /**
+   * Pause or unpause the escrow contract
+   */
+  setPaused(paused: boolean): void {
+    if (paused === this.state.paused) return;
+    this.state.paused = paused;
+    const account = this.state.owner ? ethers.getAddress(this.state.owner) : ethers.ZeroAddress;
+    if (paused) this.emitNow('Paused', { account });
+    else this.emitNow('Unpaused', { account });
+  }
+
+  /**
+   * Make a name (@handle, ENS name) resolve to an address
+   */
+  registerName(name: string, address: string): void {
+    this.state.names.set(name.toLowerCase(), checkAddress(address));
+  }
+
+  // =================================================================
+  // CHAIN STATE
+  // =================================================================
+
+  getChainId(): number {
+    return this.state.chainId;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.requireSigner();
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.state.blockNumber;
+  }
+
+  /**
+   * Timestamp of the latest block
+   */
+  async getBlockTimestamp(): Promise<number> {
+    return this.state.timestamp;
+  }
+
+  async getBalance(address?: string): Promise<number> {
+    return Number(ethers.formatUnits(await this.getBalanceUnits(address), 6));
+  }
+
+  async getBalanceUnits(address?: string): Promise<bigint> {
+    const addr = address ? this.addressOf(address) : this.requireSigner();
+    return this.balanceOf(addr);
+  }
+
+  async isOperator(address?: string): Promise<boolean> {
+    const addr = address ? this.addressOf(address) : this.requireSigner();
+    return this.state.operators.has(addr.toLowerCase());
+  }
+
+  async getOracleTimeout(): Promise<number> {
+    return ORACLE_TIMEOUT;
+  }
+
+  async resolveName(name: string): Promise<string> {
+    return this.addressOf(name);
+  }
+
+  async lookupName(address: string): Promise<string | null> {
+    for (const [name, target] of this.state.names) {
+      if (target.toLowerCase() === address.toLowerCase()) return name;
+    }
+    return null;
+  }
+
+  // =================================================================
+  // ESCROW OPERATIONS
+  // =================================================================
+
+  async createEscrow(params: EscrowParams): Promise<EscrowResult> {
+    const operation = 'Escrow creation';
+    const { amount, seller, threshold } = this.checkCreateEscrow(params);
+    const policy = await this.checkPolicy(params);
+    if (!policy.allowed) throw policyViolationError(policy);
+    if (policy.challenge) {
+      await this.budget?.check({ kind: 'challenge', amount: STAKE_UNITS, counterparty: seller });
+    }
+    const reservation = await this.budget?.authorize({ kind: 'escrow', amount, counterparty: seller, job: params.job });
+
+    const result: EscrowResult = await this.spend(reservation, () => this.transact((block, buyer) => {
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (seller.toLowerCase() === buyer.toLowerCase()) throw contractRevertError('InvalidSeller', operation);
+      this.requireStakedBalance(buyer, amount, params.amount, policy.challenge);
+
+      const jobHash = ethers.keccak256(ethers.toUtf8Bytes(params.job));
+      const id = ethers.solidityPackedKeccak256(
+        ['address', 'address', 'uint256', 'bytes32', 'uint256', 'uint256'],
+        [buyer, seller, amount, jobHash, block.timestamp, this.state.escrowCount]
+      );
+      this.state.escrowCount++;
+      this.debit(buyer, amount);
+      this.state.escrows.set(id, {
+        buyer,
+        seller,
+        amount,
+        threshold,
+        createdAt: block.timestamp,
+        expiresAt: block.timestamp + DEFAULT_EXPIRY,
+        status: 'Active'
+      });
+      push(this.state.buyerEscrows, buyer, id);
+      push(this.state.sellerEscrows, seller, id);
+      increment(this.state.totalEscrows, seller);
+      emit(block, 'EscrowCreated', { escrowId: id, buyer, seller, amount, jobHash, trustThreshold: threshold });
+
+      return {
+        id,
+        buyer,
+        seller,
+        amount: Number(ethers.formatUnits(amount, 6)),
+        amountUnits: amount,
+        amountDecimal: toUSDCDecimal(amount),
+        job: params.job,
+        threshold,
+        status: 'Active' as EscrowStatus,
+        createdAt: block.timestamp,
+        expiresAt: block.timestamp + DEFAULT_EXPIRY,
+        txHash: block.txHash
+      };
+    }), (escrow) => escrow.id);
+
+    if (policy.challenge) {
+      const reason = params.requireChallenge
+        ? 'Challenge required by the buyer'
+        : `Seller is ${policy.verification!.risk_level} risk`;
+      try {
+        result.challenge = await this.challenge({ escrowId: result.id, reason });
+        result.status = 'Challenged';
+      } catch (error: any) {
+        result.challengeError = error instanceof RookError ? error : new RookError(ErrorCodes.UNKNOWN, error.message);
+      }
+    }
+    return result;
+  }
+
+  async quoteEscrow(params: EscrowParams): Promise<EscrowQuote> {
+    const amount = validateEscrowParams(params);
+    const threshold = params.threshold ?? DEFAULT_THRESHOLD;
+    const seller = this.addressOf(params.recipient);
+    const feeBps = this.getFeeBps();
+    const protocolFee = (amount * BigInt(feeBps)) / 10000n;
+    const score = await this.verify(seller).catch((e: any) =>
+      e instanceof RookError ? e : new RookError(ErrorCodes.UNKNOWN, e.message));
+    const verified = score instanceof RookError ? null : score;
+    const sellerScore = verified ? Math.round(verified.trust_score * 100) : 0;
+
+    let error: RookError | undefined;
+    try {
+      const buyer = this.requireSigner();
+      const policy = await this.checkPolicy(params);
+      if (!policy.allowed) throw policyViolationError(policy);
+      if (this.state.paused) throw contractRevertError('Pausable: paused', 'Escrow creation');
+      if (seller.toLowerCase() === buyer.toLowerCase()) throw contractRevertError('InvalidSeller', 'Escrow creation');
+      this.requireStakedBalance(buyer, amount, params.amount, policy.challenge);
+    } catch (e: any) {
+      error = e;
+    }
+
+    return {
+      seller,
+      amount,
+      feeBps,
+      protocolFee,
+      sellerNet: amount - protocolFee,
+      approvalRequired: 0n,
+      usesPermit: false,
+      totalGas: 0n,
+      gasPrice: 0n,
+      estimatedCost: 0n,
+      threshold,
+      sellerScore,
+      sellerScoreFresh: !!verified?.isFresh,
+      meetsThreshold: !!verified?.isFresh && sellerScore >= threshold,
+      scoreError: verified ? undefined : score as RookError,
+      dryRun: !!this.address,
+      ok: !error,
+      error
+    };
+  }
+  async checkPolicy(params: EscrowParams, buyer?: string): Promise<PolicyCheck> {
+    const amount = validateEscrowParams(params);
+    const seller = this.addressOf(params.recipient);
+    const policy = mergePolicy(this.policy, params.policy);
+
+    let verification = policyNeedsScore(policy) ? await this.verify(seller) : null;
+    if (verification && !verification.isFresh && policy.requireFresh === 'rescore') {
+      const stale = verification;
+      verification = await this.verify(seller, { requireFresh: 'rescore' }).catch((error) => {
+        if (error instanceof RookError && error.code === ErrorCodes.STALE_SCORE) return stale;
+        throw error;
+      });
+    }
+    const challenge = needsChallenge(policy, verification, params.requireChallenge);
+
+    const violations = evaluatePolicy(policy, {
+      amount,
+      seller,
+      verification,
+      allowlist: policy.allowlist?.map((agent) => this.addressOf(agent)),
+      denylist: policy.denylist?.map((agent) => this.addressOf(agent)),
+      challenge,
+      nextChallengeTime: challenge ? this.nextChallengeTime(buyer ? checkAddress(buyer) : this.requireSigner()) : 0,
+      now: this.state.timestamp
+    });
+    return { seller, allowed: violations.length === 0, violations, challenge, verification };
+  }
+
+  async getSpendUsage(): Promise<SpendUsage | null> {
+    return this.budget ? this.budget.getUsage() : null;
+  }
+
+  /**
+   * Release escrow as an oracle operator (RookOracle.triggerRelease), at the seller's current score
+   */
+  async release(escrowId: string): Promise<string> {
+    const operation = 'Escrow release';
+    const from = this.requireSigner();
+    if (!this.state.operators.has(from.toLowerCase())) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED,
+        'Only oracle operators can release escrows. Use releaseWithConsent() after timeout.');
+    }
+
+    return this.transact((block) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      const score = this.scoreAt(escrow?.seller ?? ethers.ZeroAddress, block.timestamp);
+      if (!score.isFresh) throw contractRevertError('StaleScore', operation, 'RookOracle');
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (!escrow) throw contractRevertError('EscrowNotFound', operation);
+      if (escrow.status !== 'Active') throw contractRevertError('EscrowNotActive', operation);
+      if (block.timestamp > escrow.expiresAt) throw contractRevertError('EscrowExpired', operation);
+      if (score.composite < escrow.threshold) throw contractRevertError('BelowThreshold', operation);
+
+      this.payRelease(block, escrowId, escrow, score.composite, 'oracle_release');
+      return block.txHash;
+    });
+  }
+
+  async releaseWithConsent(escrowId: string): Promise<string> {
+    const operation = 'Consent release';
+    this.requireSigner();
+    const escrow = this.state.escrows.get(key(escrowId));
+    if (escrow && escrow.status !== 'Active') {
+      throw new RookError(ErrorCodes.ESCROW_NOT_ACTIVE,
+        `Escrow is ${escrow.status.toLowerCase()}, not active`);
+    }
+    if (escrow && this.state.timestamp - escrow.createdAt < ORACLE_TIMEOUT) {
+      const hoursRemaining = Math.ceil((ORACLE_TIMEOUT - (this.state.timestamp - escrow.createdAt)) / 3600);
+      throw new RookError(ErrorCodes.ORACLE_TIMEOUT_NOT_MET,
+        `Oracle timeout not met. Wait ${hoursRemaining} more hours.`);
+    }
+
+    return this.transact((block, from) => {
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (!escrow) throw contractRevertError('EscrowNotFound', operation);
+      if (escrow.status !== 'Active') throw contractRevertError('EscrowNotActive', operation);
+      if (block.timestamp > escrow.expiresAt) throw contractRevertError('EscrowExpired', operation);
+      if (block.timestamp < escrow.createdAt + ORACLE_TIMEOUT) throw contractRevertError('OracleTimeoutNotMet', operation);
+      if (!isParty(escrow, from)) throw contractRevertError('NotAuthorized', operation);
+
+      const consent = this.state.consent.get(key(escrowId)) ?? new Set<string>();
+      consent.add(from.toLowerCase());
+      this.state.consent.set(key(escrowId), consent);
+      emit(block, 'ConsentRecorded', { escrowId, party: from });
+
+      if (consent.has(escrow.buyer.toLowerCase()) && consent.has(escrow.seller.toLowerCase())) {
+        this.state.consent.delete(key(escrowId));
+        this.payRelease(block, escrowId, escrow, 0, 'consent_release');
+      }
+      return block.txHash;
+    });
+  }
+
+  async refund(escrowId: string, reason: string): Promise<string> {
+    const operation = 'Refund';
+    this.requireSigner();
+    if (!reason || reason.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Refund reason is required');
+    }
+    if (reason.length > 1000) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Reason too long (max 1000 chars)');
+    }
+
+    return this.transact((block, from) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      if (!escrow || escrow.buyer.toLowerCase() !== from.toLowerCase()) throw contractRevertError('NotBuyer', operation);
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (escrow.status !== 'Active') throw contractRevertError('EscrowNotActive', operation);
+
+      escrow.status = 'Refunded';
+      this.credit(escrow.buyer, escrow.amount);
+      this.cleanup(escrowId);
+      emit(block, 'EscrowRefunded', { escrowId, buyer: escrow.buyer, amount: escrow.amount, reason });
+      return block.txHash;
+    });
+  }
+
+  async claimExpired(escrowId: string): Promise<string> {
+    const from = this.requireSigner();
+    const escrow = this.state.escrows.get(key(escrowId));
+    if (!escrow) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+    if (escrow.status !== 'Active') {
+      throw new RookError(ErrorCodes.ESCROW_NOT_ACTIVE);
+    }
+    if (escrow.buyer.toLowerCase() !== from.toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only the buyer can claim an expired escrow');
+    }
+
+    return this.transact((block) => {
+      if (block.timestamp <= escrow.expiresAt) {
+        const hoursRemaining = Math.ceil((escrow.expiresAt - block.timestamp) / 3600);
+        throw new RookError(ErrorCodes.ESCROW_NOT_EXPIRED,
+          `Escrow has not expired yet. ${hoursRemaining} more hours.`);
+      }
+
+      escrow.status = 'Refunded';
+      this.credit(escrow.buyer, escrow.amount);
+      this.cleanup(escrowId);
+      emit(block, 'EscrowRefunded', { escrowId, buyer: escrow.buyer, amount: escrow.amount, reason: 'Expired' });
+      return block.txHash;
+    });
+  }
+
+  async dispute(escrowId: string, evidence: string): Promise<string> {
+    const operation = 'Dispute filing';
+    this.requireSigner();
+    if (!evidence || evidence.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Evidence is required');
+    }
+    if (evidence.length > 1000) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Evidence too long (max 1000 chars)');
+    }
+
+    return this.transact((block, from) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (ethers.toUtf8Bytes(evidence).length > 1000) throw contractRevertError('EvidenceTooLong', operation);
+      if (!escrow) throw contractRevertError('EscrowNotFound', operation);
+      if (escrow.status !== 'Active' && escrow.status !== 'Challenged') {
+        throw contractRevertError('EscrowNotActive', operation);
+      }
+      if (!isParty(escrow, from)) throw contractRevertError('NotAuthorized', operation);
+
+      escrow.status = 'Disputed';
+      this.state.disputes.set(key(escrowId), {
+        initiator: from,
+        evidence,
+        createdAt: block.timestamp,
+        resolved: false,
+        winner: ethers.ZeroAddress
+      });
+      emit(block, 'EscrowDisputed', { escrowId, initiator: from, evidence });
+      return block.txHash;
+    });
+  }
+
+  /**
+   * Resolve dispute (owner only); 10,000 USDC or more is only scheduled behind the timelock
+   */
+  async resolveDispute(escrowId: string, winner: string, reason: string): Promise<DisputeResult> {
+    const operation = 'Dispute resolution';
+    this.requireSigner();
+    if (!ethers.isAddress(winner)) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Invalid winner address');
+    }
+
+    return this.transact((block, from) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      const dispute = this.state.disputes.get(key(escrowId));
+      this.requireOwner(from, operation);
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (!escrow || escrow.status !== 'Disputed') throw contractRevertError('EscrowNotDisputed', operation);
+      if (dispute?.resolved) throw contractRevertError('DisputeAlreadyResolved', operation);
+      if (!isParty(escrow, winner)) throw contractRevertError('NotAuthorized', operation);
+      if (this.state.pendingResolutions.has(key(escrowId))) throw contractRevertError('DisputeResolutionPending', operation);
+
+      const result = {
+        escrowId,
+        winner: ethers.getAddress(winner),
+        amount: Number(ethers.formatUnits(escrow.amount, 6)),
+        amountUnits: escrow.amount,
+        amountDecimal: toUSDCDecimal(escrow.amount),
+        reason,
+        txHash: block.txHash
+      };
+
+      if (escrow.amount >= DISPUTE_TIMELOCK_THRESHOLD) {
+        const executeAfter = block.timestamp + DISPUTE_TIMELOCK_DELAY;
+        this.state.pendingResolutions.set(key(escrowId), { winner: result.winner, reason, executeAfter, executed: false });
+        emit(block, 'DisputeResolutionScheduled', { escrowId, winner: result.winner, executeAfter });
+        return { ...result, scheduled: true, executeAfter };
+      }
+
+      this.payDisputeResolution(block, escrowId, escrow, result.winner, reason);
+      return { ...result, scheduled: false };
+    });
+  }
+
+  async executeDisputeResolution(escrowId: string): Promise<DisputeResult> {
+    const operation = 'Dispute resolution execution';
+    this.requireSigner();
+    const pending = this.requirePendingResolution(escrowId);
+
+    return this.transact((block, from) => {
+      if (block.timestamp < pending.executeAfter) {
+        const minutesRemaining = Math.ceil((pending.executeAfter - block.timestamp) / 60);
+        throw new RookError(ErrorCodes.TIMELOCK_NOT_READY,
+          `Dispute resolution timelock active. Wait ${minutesRemaining} more minutes.`);
+      }
+      this.requireOwner(from, operation);
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+
+      const escrow = this.state.escrows.get(key(escrowId))!;
+      pending.executed = true;
+      this.payDisputeResolution(block, escrowId, escrow, pending.winner, pending.reason);
+
+      return {
+        escrowId,
+        winner: pending.winner,
+        amount: Number(ethers.formatUnits(escrow.amount, 6)),
+        amountUnits: escrow.amount,
+        amountDecimal: toUSDCDecimal(escrow.amount),
+        reason: pending.reason,
+        txHash: block.txHash,
+        scheduled: false
+      };
+    });
+  }
+
+  async cancelDisputeResolution(escrowId: string): Promise<string> {
+    const operation = 'Dispute resolution cancellation';
+    this.requireSigner();
+    this.requirePendingResolution(escrowId);
+
+    return this.transact((block, from) => {
+      this.requireOwner(from, operation);
+      this.state.pendingResolutions.delete(key(escrowId));
+      emit(block, 'DisputeResolutionCancelled', { escrowId });
+      return block.txHash;
+    });
+  }
+
+  // =================================================================
+  // ESCROW QUERIES
+  // =================================================================
+
+  /**
+   * Get escrow details (zeroed, like the contract's, for an unknown ID)
+   */
+  async getEscrow(escrowId: string): Promise<EscrowResult> {
+    const escrow = this.state.escrows.get(key(escrowId));
+    const amount = escrow?.amount ?? 0n;
+    const [buyerName, sellerName] = escrow
+      ? await Promise.all([this.lookupName(escrow.buyer), this.lookupName(escrow.seller)])
+      : [null, null];
+
+    return {
+      id: escrowId,
+      buyer: escrow?.buyer ?? ethers.ZeroAddress,
+      seller: escrow?.seller ?? ethers.ZeroAddress,
+      buyerName: buyerName ?? undefined,
+      sellerName: sellerName ?? undefined,
+      amount: Number(ethers.formatUnits(amount, 6)),
+      amountUnits: amount,
+      amountDecimal: toUSDCDecimal(amount),
+      job: '', // Job hash only stored on-chain
+      threshold: escrow?.threshold ?? 0,
+      status: escrow?.status ?? 'Active',
+      createdAt: escrow?.createdAt ?? 0,
+      expiresAt: escrow?.expiresAt ?? 0
+    };
+  }
+
+  async getChallenge(escrowId: string): Promise<ChallengeDetails | null> {
+    const challenge = this.state.challenges.get(key(escrowId));
+    if (!challenge) return null;
+
+    return {
+      escrowId,
+      challenger: challenge.challenger,
+      stake: Number(ethers.formatUnits(challenge.stake, 6)),
+      stakeUnits: challenge.stake,
+      stakeDecimal: toUSDCDecimal(challenge.stake),
+      deadline: challenge.deadline,
+      status: challenge.status,
+      passed: challenge.passed,
+      responseHash: challenge.responseHash
+    };
+  }
+
+  async getDispute(escrowId: string): Promise<DisputeDetails | null> {
+    const dispute = this.state.disputes.get(key(escrowId));
+    if (!dispute) return null;
+
+    return { escrowId, ...dispute, pendingResolution: await this.getPendingDisputeResolution(escrowId) };
+  }
+
+  async getPendingDisputeResolution(escrowId: string): Promise<PendingDisputeResolution | null> {
+    const pending = this.state.pendingResolutions.get(key(escrowId));
+    return pending ? { ...pending } : null;
+  }
+
+  async getReleaseConsent(escrowId: string): Promise<ReleaseConsent> {
+    const escrow = this.state.escrows.get(key(escrowId));
+    if (!escrow) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+    const consent = this.state.consent.get(key(escrowId));
+    return {
+      escrowId,
+      buyer: consent?.has(escrow.buyer.toLowerCase()) ?? false,
+      seller: consent?.has(escrow.seller.toLowerCase()) ?? false
+    };
+  }
+
+  async getAvailableActions(escrowId: string, address: string): Promise<EscrowActions> {
+    const caller = this.addressOf(address);
+    const escrow = await this.getEscrow(escrowId);
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+    const isActive = escrow.status === 'Active';
+
+    const actions = getEscrowActions({
+      escrow,
+      challenge: await this.getChallenge(escrowId),
+      caller,
+      blockNumber: this.state.blockNumber,
+      now: this.state.timestamp,
+      isOperator: isActive && this.state.operators.has(caller.toLowerCase()),
+      oracleTimeout: ORACLE_TIMEOUT,
+      nextChallengeTime: this.nextChallengeTime(caller),
+      consent: isActive && isParty(escrow, caller) ? await this.getReleaseConsent(escrowId) : null,
+      paused: this.state.paused
+    });
+
+    return {
+      escrowId,
+      address: caller,
+      status: escrow.status,
+      blockNumber: this.state.blockNumber,
+      timestamp: this.state.timestamp,
+      actions
+    };
+  }
+
+  async *listEscrows(params: ListEscrowsParams): AsyncGenerator<EscrowListItem> {
+    if (!!params.buyer === !!params.seller) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Provide exactly one of buyer or seller');
+    }
+
+    const statuses = params.status === undefined
+      ? null
+      : Array.isArray(params.status) ? params.status : [params.status];
+
+    const party = this.addressOf((params.buyer ?? params.seller)!).toLowerCase();
+    const ids = (params.buyer ? this.state.buyerEscrows : this.state.sellerEscrows).get(party) ?? [];
+
+    for (let cursor = params.cursor ?? 0; cursor < ids.length; cursor++) {
+      const escrow = await this.getEscrow(ids[cursor]);
+      if (!statuses || statuses.includes(escrow.status)) {
+        yield { ...escrow, cursor: cursor + 1 };
+      }
+    }
+  }
+
+  /**
+   * Get the events of an escrow's lifecycle, in chain order
+   *
+   * @param escrowId - Escrow identifier
+   * @param options - Block range to search
+   */
+  async getEscrowTimeline(escrowId: string, options: TimelineOptions = {}): Promise<EscrowTimeline> {
+    const escrow = await this.getEscrow(escrowId);
+    if (escrow.buyer === ethers.ZeroAddress) {
+      throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+    }
+
+    const entries = this.state.events.filter(({ event }) =>
+      'escrowId' in event && key(event.escrowId) === key(escrowId) &&
+      inRange(event.blockNumber, options.fromBlock, options.toBlock));
+    return { escrowId, status: escrow.status, entries };
+  }
+
+  // =================================================================
+  // VERIFICATION
+  // =================================================================
+
+  /**
+   * Verify an agent's trust score, as of the latest block
+   *
+   * There is no oracle service: `offchain` reports the pushed scores as
+   * freshly computed, and `requireFresh: 'rescore'` pushes the agent's last
+   * scores again (throwing STALE_SCORE if it was never scored).
+   */
+  async verify(agent: string, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const address = this.addressOf(agent);
+    let score = this.scoreAt(address, this.state.timestamp);
+
+    if (!score.isFresh && options.requireFresh) {
+      const record = this.state.scores.get(address.toLowerCase());
+      if (options.requireFresh === 'rescore' && record) {
+        this.setScores(address, record);
+        score = this.scoreAt(address, this.state.timestamp);
+      }
+      if (!score.isFresh) {
+        const age = score.lastUpdated === null ? 'has never been scored' : `was last scored at ${score.lastUpdated}`;
+        throw new RookError(ErrorCodes.STALE_SCORE, `${agent} ${age} (MAX_SCORE_AGE is ${MAX_SCORE_AGE}s)`, {
+          address,
+          lastUpdated: score.lastUpdated,
+          maxScoreAge: MAX_SCORE_AGE
+        });
+      }
+    }
+
+    const trustScore = score.composite / 100;
+    const riskLevel = getRiskLevel(trustScore);
+    const name = ethers.isAddress(agent) ? await this.lookupName(address) : agent;
+
+    return {
+      agent,
+      address,
+      name: name ?? undefined,
+      trust_score: trustScore,
+      breakdown: score.breakdown,
+      risk_level: riskLevel,
+      recommendation: score.isFresh
+        ? getRecommendation(riskLevel)
+        : 'Score is stale: rescore before relying on it',
+      lastUpdated: score.lastUpdated,
+      isFresh: score.isFresh,
+      freshUntil: score.lastUpdated === null ? null : score.lastUpdated + MAX_SCORE_AGE,
+      challengeBonusExpiresAt: score.challengeBonusExpiresAt,
+      oracle_score: options.offchain
+        ? {
+          trust_score: score.freshComposite / 100,
+          breakdown: score.breakdown,
+          timestamp: this.state.timestamp * 1000
+        }
+        : undefined
+    };
+  }
+
+  // =================================================================
+  // CHALLENGES (Voight-Kampff)
+  // =================================================================
+
+  async challenge(params: ChallengeParams): Promise<ChallengeResult> {
+    const operation = 'Challenge initiation';
+    const challenger = this.requireSigner();
+    const nextChallengeTime = this.nextChallengeTime(challenger);
+    if (nextChallengeTime > this.state.timestamp) {
+      const minutesRemaining = Math.ceil((nextChallengeTime - this.state.timestamp) / 60);
+      throw new RookError(ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE,
+        `Challenge cooldown active. Wait ${minutesRemaining} more minutes.`);
+    }
+    const reservation = await this.budget?.authorize({
+      kind: 'challenge',
+      amount: STAKE_UNITS,
+      counterparty: this.state.escrows.get(key(params.escrowId))?.seller ?? ethers.ZeroAddress,
+      escrowId: params.escrowId
+    });
+
+    return this.spend(reservation, () => this.transact((block) => {
+      const escrow = this.state.escrows.get(key(params.escrowId));
+      const lastChallenge = this.state.lastChallengeTime.get(challenger.toLowerCase()) ?? 0;
+      if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+      if (!escrow) throw contractRevertError('EscrowNotFound', operation);
+      if (escrow.status !== 'Active') throw contractRevertError('EscrowNotActive', operation);
+      if (block.timestamp > escrow.expiresAt) throw contractRevertError('EscrowExpired', operation);
+      if (challenger.toLowerCase() === escrow.seller.toLowerCase()) throw contractRevertError('SelfChallenge', operation);
+      if (lastChallenge > 0 && block.timestamp < lastChallenge + CHALLENGE_COOLDOWN) {
+        throw contractRevertError('ChallengeCooldownActive', operation);
+      }
+      if (this.state.challenges.has(key(params.escrowId))) throw contractRevertError('ChallengeExists', operation);
+      if (this.balanceOf(challenger) < STAKE_UNITS) {
+        throw contractRevertError('ERC20: transfer amount exceeds balance', operation);
+      }
+
+      const deadline = block.number + CHALLENGE_BLOCKS;
+      this.debit(challenger, STAKE_UNITS);
+      this.state.lastChallengeTime.set(challenger.toLowerCase(), block.timestamp);
+      this.state.challenges.set(key(params.escrowId), {
+        challenger,
+        stake: STAKE_UNITS,
+        deadline,
+        status: 'Active',
+        passed: false,
+        responseHash: ethers.ZeroHash
+      });
+      escrow.status = 'Challenged';
+      emit(block, 'ChallengeInitiated', { escrowId: params.escrowId, challenger, stake: STAKE_UNITS, deadline });
+
+      return {
+        escrowId: params.escrowId,
+        challenger,
+        stake: CHALLENGE_STAKE,
+        stakeUnits: STAKE_UNITS,
+        stakeDecimal: toUSDCDecimal(STAKE_UNITS),
+        deadline,
+        reason: params.reason,
+        txHash: block.txHash
+      };
+    }), (challenge) => challenge.escrowId);
+  }
+
+  async respondChallenge(escrowId: string, responseData: string): Promise<string> {
+    this.requireSigner();
+    if (!responseData || responseData.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, 'Response data is required');
+    }
+    return this.respond(escrowId, ethers.keccak256(ethers.toUtf8Bytes(responseData)));
+  }
+
+  /**
+   * Resolve challenge as an oracle operator
+   *
+   * A pass slashes half the stake to the seller, reactivates the escrow and
+   * grants the seller the full challenge bonus; a fail refunds the buyer
+   * and returns the stake.
+   */
+  async resolveChallenge(escrowId: string, passed: boolean): Promise<string> {
+    const from = this.requireSigner();
+    if (!this.state.operators.has(from.toLowerCase())) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only oracle operators can resolve challenges');
+    }
+
+    return this.transact((block) => this.settleChallenge(block, escrowId, passed));
+  }
+
+  async claimTimeout(escrowId: string): Promise<string> {
+    const operation = 'Timeout claim';
+    this.requireSigner();
+    const deadline = this.state.challenges.get(key(escrowId))?.deadline ?? 0;
+    if (this.state.blockNumber <= deadline) {
+      const blocksRemaining = deadline - this.state.blockNumber;
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_EXPIRED,
+        `Challenge deadline not reached. ${blocksRemaining} blocks remaining.`);
+    }
+
+    return this.transact((block, from) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      const challenge = this.state.challenges.get(key(escrowId));
+      if (!escrow || !challenge || challenge.challenger.toLowerCase() !== from.toLowerCase()) {
+        throw contractRevertError('NotChallenger', operation);
+      }
+      if (challenge.status !== 'Active') throw contractRevertError('ChallengeNotActive', operation);
+      if (block.number <= challenge.deadline) throw contractRevertError('ChallengeNotExpired', operation);
+
+      escrow.status = 'Refunded';
+      this.credit(escrow.buyer, escrow.amount);
+      this.credit(challenge.challenger, challenge.stake);
+      this.cleanup(escrowId);
+      emit(block, 'ChallengeResolved', {
+        escrowId,
+        passed: false,
+        challenger: challenge.challenger,
+        stakeReturned: challenge.stake
+      });
+      return block.txHash;
+    });
+  }
+
+  /**
+   * Answer a challenge with a wallet signature, as the seller
+   *
+   * The proof is a placeholder signature the mock's oracle accepts for the
+   * seller (the mock holds no keys). It is committed on-chain with
+   * respondChallenge and then submitted with submitChallengeProof, which
+   * resolves the challenge as passed.
+   */
+  async proveIdentity(escrowId: string, method: ProofMethod = 'wallet_signature'): Promise<ProofResult> {
+    const { signature, timestamp, responseHash } = this.planProveIdentity(escrowId, method);
+    const txHash = await this.respond(escrowId, responseHash);
+
+    const result: ProofResult = {
+      escrowId,
+      method,
+      signature,
+      timestamp,
+      responseHash,
+      txHash,
+      verified: false,
+      resolved: false
+    };
+
+    try {
+      const submission = await this.submitChallengeProof(escrowId, signature, { timestamp });
+      result.verified = submission.valid;
+      result.resolved = submission.resolved;
+      result.resolutionTxHash = submission.txHash;
+      if (!submission.valid) {
+        result.oracleError = new RookError(ErrorCodes.INVALID_RESPONSE,
+          submission.message ?? 'Oracle rejected the challenge signature');
+      }
+    } catch (error: any) {
+      result.oracleError = error instanceof RookError ? error : new RookError(ErrorCodes.ORACLE_ERROR, error.message);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check a challenge proof as the oracle's /challenge endpoint does
+   *
+   * Accepts the seller's placeholder proof from proveIdentity and real
+   * signatures (signChallenge) by the seller. Unless `resolve` is false,
+   * a valid proof resolves the challenge as passed, as an operator would.
+   */
+  async submitChallengeProof(
+    escrowId: string,
+    signature: string,
+    options: { timestamp?: number; resolve?: boolean } = {}
+  ): Promise<ChallengeProofSubmission> {
+    const escrow = this.state.escrows.get(key(escrowId));
+    const challenge = this.state.challenges.get(key(escrowId));
+    if (!escrow || !challenge || challenge.status === 'Resolved') {
+      throw new RookError(ErrorCodes.ORACLE_ERROR, 'Escrow not found or already resolved');
+    }
+
+    if (!isChallengeProof(escrowId, signature, escrow.seller)) {
+      return {
+        escrowId,
+        valid: false,
+        resolved: false,
+        message: 'Signature verification failed - signer does not match escrow seller'
+      };
+    }
+    if (options.timestamp !== undefined &&
+      challenge.responseHash !== computeResponseHash(escrowId, signature, options.timestamp)) {
+      return {
+        escrowId,
+        valid: false,
+        resolved: false,
+        message: 'Response hash does not match the on-chain challenge response'
+      };
+    }
+    if (options.resolve === false) {
+      return { escrowId, valid: true, resolved: false };
+    }
+
+    // Sent by the oracle service's operator
+    const txHash = await this.transact((block) => this.settleChallenge(block, escrowId, true), ethers.ZeroAddress)
+      .catch((error) => {
+        throw new RookError(ErrorCodes.ORACLE_ERROR, error.message);
+      });
+    return { escrowId, valid: true, resolved: true, txHash };
+  }
+
+  // =================================================================
+  // PREVIEWS (dry-run on a copy of the state)
+  // =================================================================
+
+  /**
+   * Preview createEscrow (one step: there are no allowances to approve)
+   */
+  async previewCreateEscrow(params: EscrowParams): Promise<TransactionPreview> {
+    return this.preview('Escrow creation', 'createEscrow', (mock) => mock.createEscrow(params),
+      () => toUnits(params.amount));
+  }
+
+  /**
+   * Preview release (oracle operators only)
+   */
+  async previewRelease(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Escrow release', 'triggerRelease', (mock) => mock.release(escrowId),
+      () => this.state.escrows.get(key(escrowId))?.amount ?? 0n);
+  }
+
+  /**
+   * Preview releaseWithConsent (the fee applies once both parties have consented)
+   */
+  async previewReleaseWithConsent(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Consent release', 'releaseWithConsent', (mock) => mock.releaseWithConsent(escrowId),
+      () => this.state.escrows.get(key(escrowId))?.amount ?? 0n);
+  }
+
+  /**
+   * Preview refund
+   */
+  async previewRefund(escrowId: string, reason: string): Promise<TransactionPreview> {
+    return this.preview('Refund', 'refundEscrow', (mock) => mock.refund(escrowId, reason));
+  }
+
+  /**
+   * Preview dispute
+   */
+  async previewDispute(escrowId: string, evidence: string): Promise<TransactionPreview> {
+    return this.preview('Dispute filing', 'disputeEscrow', (mock) => mock.dispute(escrowId, evidence));
+  }
+
+  /**
+   * Preview claimExpired
+   */
+  async previewClaimExpired(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Expired escrow claim', 'claimExpired', (mock) => mock.claimExpired(escrowId));
+  }
+
+  /**
+   * Preview resolveDispute (owner only)
+   */
+  async previewResolveDispute(escrowId: string, winner: string, reason: string): Promise<TransactionPreview> {
+    return this.preview('Dispute resolution', 'resolveDispute', (mock) => mock.resolveDispute(escrowId, winner, reason));
+  }
+
+  /**
+   * Preview executeDisputeResolution (owner only)
+   */
+  async previewExecuteDisputeResolution(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Dispute resolution execution', 'executeDisputeResolution',
+      (mock) => mock.executeDisputeResolution(escrowId));
+  }
+
+  /**
+   * Preview cancelDisputeResolution (owner only)
+   */
+  async previewCancelDisputeResolution(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Dispute resolution cancellation', 'cancelDisputeResolution',
+      (mock) => mock.cancelDisputeResolution(escrowId));
+  }
+
+  /**
+   * Preview challenge
+   */
+  async previewChallenge(params: ChallengeParams): Promise<TransactionPreview> {
+    return this.preview('Challenge initiation', 'initiateChallenge', (mock) => mock.challenge(params));
+  }
+
+  /**
+   * Preview respondChallenge
+   */
+  async previewRespondChallenge(escrowId: string, responseData: string): Promise<TransactionPreview> {
+    return this.preview('Challenge response', 'respondChallenge', (mock) => mock.respondChallenge(escrowId, responseData));
+  }
+
+  /**
+   * Preview resolveChallenge (oracle operators only)
+   */
+  async previewResolveChallenge(escrowId: string, passed: boolean): Promise<TransactionPreview> {
+    return this.preview('Challenge resolution', 'resolveChallenge', (mock) => mock.resolveChallenge(escrowId, passed));
+  }
+
+  /**
+   * Preview claimTimeout
+   */
+  async previewClaimTimeout(escrowId: string): Promise<TransactionPreview> {
+    return this.preview('Timeout claim', 'claimChallengeTimeout', (mock) => mock.claimTimeout(escrowId));
+  }
+
+  /**
+   * Preview proveIdentity (the on-chain response; nothing is submitted to the oracle)
+   */
+  async previewProveIdentity(escrowId: string, method: ProofMethod = 'wallet_signature'): Promise<TransactionPreview> {
+    return this.preview('Challenge response', 'respondChallenge',
+      (mock) => mock.respond(escrowId, mock.planProveIdentity(escrowId, method).responseHash));
+  }
+
+  // =================================================================
+  // EVENTS
+  // =================================================================
+
+  /**
+   * Subscribe to a RookEscrow or RookOracle event
+   *
+   * Callbacks run as soon as the emitting write is mined (asynchronously,
+   * never inside the write); a callback that throws is reported to `onError`.
+   *
+   * @param event - Event name
+   * @param callback - Receives the decoded event with block and tx metadata
+   * @param filter - Match on escrowId, buyer, seller, ... (fields the event carries)
+   * @param options - `fromBlock` to also deliver past events, `onError`
+   * @returns Unsubscribe function
+   */
+  subscribe<K extends RookEventName>(
+    event: K,
+    callback: (event: RookEventMap[K]) => void,
+    filter: RookEventFilter<K> = {},
+    options: SubscribeOptions = {}
+  ): () => void {
+    const { fromBlock } = options;
+    let cursor = fromBlock === undefined ? this.state.events.length : 0;
+
+    const deliver = () => {
+      while (cursor < this.state.events.length) {
+        const entry = this.state.events[cursor++];
+        if (entry.type !== event || !inRange(entry.event.blockNumber, fromBlock)) continue;
+        const decoded = entry.event as RookEventMap[K];
+        if (!matchesFilter(decoded, filter)) continue;
+        try {
+          callback(decoded);
+        } catch (error: any) {
+          options.onError?.(error);
+        }
+      }
+    };
+
+    this.watchers.add(deliver);
+    if (fromBlock !== undefined) this.notify();
+    return () => { this.watchers.delete(deliver); };
+  }
+
+  /**
+   * Query past events of one type
+   *
+   * @param event - Event name
+   * @param filter - Match on escrowId, buyer, seller, ... (fields the event carries)
+   * @param fromBlock - First block to search (default: 0)
+   * @param toBlock - Last block to search (default: latest)
+   */
+  async queryEvents<K extends RookEventName>(
+    event: K,
+    filter: RookEventFilter<K> = {},
+    fromBlock?: number,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<RookEventMap[K][]> {
+    return this.state.events
+      .filter((entry) => entry.type === event && inRange(entry.event.blockNumber, fromBlock, toBlock))
+      .map((entry) => entry.event as RookEventMap[K])
+      .filter((decoded) => matchesFilter(decoded, filter));
+  }
+
+  /**
+   * Listen for escrow creation events
+   */
+  onEscrowCreated(
+    callback: (event: EscrowCreatedEvent) => void,
+    filter: RookEventFilter<'EscrowCreated'> = {}
+  ): () => void {
+    return this.subscribe('EscrowCreated', callback, filter);
+  }
+
+  /**
+   * Listen for escrow release events
+   */
+  onEscrowReleased(
+    callback: (event: EscrowReleasedEvent) => void,
+    filter: RookEventFilter<'EscrowReleased'> = {}
+  ): () => void {
+    return this.subscribe('EscrowReleased', callback, filter);
+  }
+
+  // =================================================================
+  // WAITING
+  // =================================================================
+
+  /**
+   * Wait until an escrow reaches one of `statuses`
+   *
+   * Re-checked after every write, `mineBlocks` and `advanceTime`.
+   */
+  async waitForStatus(
+    escrowId: string,
+    statuses: EscrowStatus | EscrowStatus[],
+    options: WaitOptions = {}
+  ): Promise<EscrowResult> {
+    const wanted = Array.isArray(statuses) ? statuses : [statuses];
+
+    return this.waitUntil(`escrow ${escrowId} to be ${wanted.join(' or ')}`, async () => {
+      const escrow = await this.getEscrow(escrowId);
+      if (escrow.buyer === ethers.ZeroAddress) {
+        throw new RookError(ErrorCodes.ESCROW_NOT_FOUND, `Escrow ${escrowId} not found`);
+      }
+      return wanted.includes(escrow.status) ? escrow : undefined;
+    }, options);
+  }
+
+  /**
+   * Wait until the latest block is at least `blockNumber` (blocks only come from writes and `mineBlocks`)
+   */
+  async waitForBlock(blockNumber: number, options: WaitOptions = {}): Promise<number> {
+    return this.waitUntil(`block ${blockNumber}`, async () => {
+      const latest = this.state.blockNumber;
+      return latest >= blockNumber ? latest : undefined;
+    }, options);
+  }
+
+  /**
+   * Wait until a challenge can no longer be answered in time
+   *
+   * Resolves at the challenge deadline, or earlier once the seller
+   * responds, the challenge is resolved or the escrow is disputed.
+   */
+  async waitForChallengeDeadline(escrowId: string, options: WaitOptions = {}): Promise<ChallengeDetails | null> {
+    const initial = await this.getChallenge(escrowId);
+    if (!initial) {
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_FOUND, `No challenge on escrow ${escrowId}`);
+    }
+
+    return this.waitUntil(`the challenge deadline of escrow ${escrowId}`, async () => {
+      const challenge = await this.getChallenge(escrowId);
+      const open = challenge?.status === 'Active' && this.state.escrows.get(key(escrowId))?.status === 'Challenged';
+      return !open || this.state.blockNumber >= challenge!.deadline ? { challenge } : undefined;
+    }, options).then(({ challenge }) => challenge);
+  }
+
+  // =================================================================
+  // TRANSACTIONS
+  // =================================================================
+
+  /**
+   * Writes are mined as they are sent: speeding one up throws TX_ALREADY_MINED
+   */
+  async speedUp(txHash: string): Promise<string> {
+    return this.requirePendingTransaction(txHash);
+  }
+
+  /**
+   * Writes are mined as they are sent: cancelling one throws TX_ALREADY_MINED
+   */
+  async cancel(txHash: string): Promise<string> {
+    return this.requirePendingTransaction(txHash);
+  }
+
+  /**
+   * Always empty: writes never wait in a queue
+   */
+  getQueueState(): TransactionQueueState {
+    return { queued: 0, pending: [], nextNonce: null };
+  }
+
+  // =================================================================
+  // INTERNALS
+  // =================================================================
+
+  /**
+   * Run a write in the next block (the latest one without automine)
+   *
+   * `apply` checks everything before it changes state: a throw reverts the
+   * write and mines nothing, events included.
+   */
+  private async transact<T>(
+    apply: (block: MockBlock, from: string) => T,
+    from: string = this.requireSigner()
+  ): Promise<T> {
+    const state = this.state;
+    const block: MockBlock = {
+      number: state.automine ? state.blockNumber + 1 : state.blockNumber,
+      timestamp: state.automine ? state.timestamp + state.blockTime : state.timestamp,
+      txHash: ethers.id(`rook-mock-tx:${state.txCount + 1}`),
+      logs: []
+    };
+    this.writes++;
+
+    const result = apply(block, from);
+    state.txCount++;
+    state.blockNumber = block.number;
+    state.timestamp = block.timestamp;
+    this.record(block);
+    return result;
+  }
+
+  /**
+   * Append a mined block's events to the log and wake subscriptions and waits
+   */
+  private record(block: MockBlock): void {
+    const events = this.state.events;
+    const blockHash = ethers.id(`rook-mock-block:${block.number}`);
+    let logIndex = 0;
+    for (let i = events.length - 1; i >= 0 && events[i].event.blockNumber === block.number; i--) logIndex++;
+
+    for (const { name, fields } of block.logs) {
+      const meta: RookEventMeta = { blockNumber: block.number, blockHash, transactionHash: block.txHash, logIndex: logIndex++ };
+      events.push({ type: name, timestamp: block.timestamp, event: { ...fields, ...meta } } as EscrowTimelineEntry);
+    }
+    this.state.transactions.set(block.txHash, block.number);
+    this.notify();
+  }
+
+  /**
+   * Emit an event of a test control in a transaction of the latest block
+   */
+  private emitNow<K extends RookEventName>(name: K, fields: Omit<RookEventMap[K], keyof RookEventMeta>): void {
+    const block: MockBlock = {
+      number: this.state.blockNumber,
+      timestamp: this.state.timestamp,
+      txHash: ethers.id(`rook-mock-tx:${++this.state.txCount}`),
+      logs: []
+    };
+    emit(block, name, fields);
+    this.record(block);
+  }
+
+  /**
+   * Wake subscriptions and waits once the current write has returned
+   */
+  private notify(): void {
+    queueMicrotask(() => {
+      for (const watcher of [...this.watchers]) {
+        if (this.watchers.has(watcher)) watcher();
+      }
+    });
+  }
+
+  /**
+   * Commit a challenge response hash, as the seller
+   */
+  private async respond(escrowId: string, responseHash: string): Promise<string> {
+    const operation = 'Challenge response';
+
+    return this.transact((block, from) => {
+      const escrow = this.state.escrows.get(key(escrowId));
+      const challenge = this.state.challenges.get(key(escrowId));
+      if (!escrow || escrow.seller.toLowerCase() !== from.toLowerCase()) throw contractRevertError('NotSeller', operation);
+      if (escrow.status !== 'Challenged') throw contractRevertError('EscrowNotActive', operation);
+      if (!challenge || challenge.status !== 'Active') throw contractRevertError('ChallengeNotActive', operation);
+      if (block.number > challenge.deadline) throw contractRevertError('ChallengeExpired', operation);
+      if (responseHash === ethers.ZeroHash) throw contractRevertError('InvalidResponseHash', operation);
+      if (block.number > challenge.deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW) {
+        throw contractRevertError('ChallengeResponseWindowExpired', operation);
+      }
+
+      challenge.status = 'Responded';
+      challenge.responseHash = responseHash;
+      emit(block, 'ChallengeResponded', { escrowId, responseHash });
+      return block.txHash;
+    });
+  }
+
+  /**
+   * Apply RookEscrow.resolveChallenge (the caller checks the operator)
+   */
+  private settleChallenge(block: MockBlock, escrowId: string, passed: boolean): string {
+    const operation = 'Challenge resolution';
+    const escrow = this.state.escrows.get(key(escrowId));
+    const challenge = this.state.challenges.get(key(escrowId));
+    if (this.state.paused) throw contractRevertError('Pausable: paused', operation);
+    if (!escrow || !challenge || (challenge.status !== 'Active' && challenge.status !== 'Responded')) {
+      throw contractRevertError('ChallengeNotActive', operation);
+    }
+    if (block.number > challenge.deadline) throw contractRevertError('ChallengeExpired', operation);
+
+    if (passed) {
+      const slashAmount = (challenge.stake * CHALLENGE_SLASH_PERCENT) / 100n;
+      escrow.status = 'Active';
+      this.credit(challenge.challenger, challenge.stake - slashAmount);
+      this.credit(escrow.seller, slashAmount);
+      this.state.challenges.delete(key(escrowId));
+
+      const score = this.state.scores.get(escrow.seller.toLowerCase());
+      this.state.scores.set(escrow.seller.toLowerCase(), {
+        identity: score?.identity ?? 0,
+        reputation: score?.reputation ?? 0,
+        sybil: score?.sybil ?? 0,
+        lastUpdated: score?.lastUpdated ?? 0,
+        challengeBonus: 100,
+        challengeBonusTimestamp: block.timestamp
+      });
+      emit(block, 'ChallengeStakeSlashed', {
+        escrowId,
+        challenger: challenge.challenger,
+        seller: escrow.seller,
+        slashedAmount: slashAmount
+      });
+      emit(block, 'ChallengeResolved', {
+        escrowId,
+        passed: true,
+        challenger: challenge.challenger,
+        stakeReturned: challenge.stake - slashAmount
+      });
+    } else {
+      escrow.status = 'Refunded';
+      this.credit(escrow.buyer, escrow.amount);
+      this.credit(challenge.challenger, challenge.stake);
+      this.cleanup(escrowId);
+      emit(block, 'ChallengeResolved', {
+        escrowId,
+        passed: false,
+        challenger: challenge.challenger,
+        stakeReturned: challenge.stake
+      });
+    }
+    return block.txHash;
+  }
+
+  /**
+   * Check the challenge and build the seller's proof and response hash
+   */
+  private planProveIdentity(
+    escrowId: string,
+    method: ProofMethod
+  ): { signature: string; timestamp: number; responseHash: string } {
+    const seller = this.requireSigner();
+    if (method === 'behavioral' || method === 'tee_attestation') {
+      throw new RookError(ErrorCodes.NOT_IMPLEMENTED, `${method} proofs are not supported yet. Use "wallet_signature".`);
+    }
+    if (method !== 'wallet_signature') {
+      throw new RookError(ErrorCodes.INVALID_METHOD);
+    }
+
+    const escrow = this.state.escrows.get(key(escrowId));
+    const challenge = this.state.challenges.get(key(escrowId));
+    if (!challenge || challenge.status !== 'Active') {
+      throw new RookError(ErrorCodes.CHALLENGE_NOT_ACTIVE, `No active challenge on escrow ${escrowId}`);
+    }
+    if (escrow?.seller.toLowerCase() !== seller.toLowerCase()) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, 'Only the seller can respond to a challenge');
+    }
+    // Mined in the next block at the earliest
+    const responseDeadline = challenge.deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW;
+    if (this.state.blockNumber + 1 > responseDeadline) {
+      throw new RookError(ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED,
+        `Challenge response window closed at block ${responseDeadline}`);
+    }
+
+    const signature = mockChallengeProof(escrowId, seller);
+    const timestamp = this.state.timestamp;
+    return { signature, timestamp, responseHash: computeResponseHash(escrowId, signature, timestamp) };
+  }
+
+  /**
+   * Run a write on a copy of the state and report it as RookProtocol's previews do
+   *
+   * Failures before the write is sent are reported with no steps, reverts
+   * on its step. Gas and calldata are not simulated: steps cost 0 and
+   * carry no data.
+   */
+  private async preview(
+    operation: string,
+    method: string,
+    write: (mock: MockRookProtocol) => Promise<unknown>,
+    feeOn?: () => bigint
+  ): Promise<TransactionPreview> {
+    const from = this.requireSigner();
+    const simulation = new MockRookProtocol({ address: from, policy: this.policy });
+    simulation.state = structuredClone(this.state);
+
+    let error: RookError | undefined;
+    try {
+      await write(simulation);
+    } catch (e: any) {
+      error = e instanceof RookError ? e : new RookError(ErrorCodes.UNKNOWN, e.message);
+    }
+
+    const steps: PreviewStep[] = simulation.writes === 0 ? [] : [{
+      operation,
+      method,
+      transaction: { to: ethers.ZeroAddress, from, data: '0x' },
+      gasLimit: 0n,
+      simulated: true,
+      error
+    }];
+    const protocolFee = steps.length > 0 && feeOn ? (feeOn() * BigInt(this.getFeeBps())) / 10000n : 0n;
+
+    return {
+      ok: !error,
+      steps,
+      error,
+      totalGas: 0n,
+      gasPrice: 0n,
+      estimatedCost: 0n,
+      protocolFee: Number(ethers.formatUnits(protocolFee, 6)),
+      protocolFeeUnits: protocolFee
+    };
+  }
+
+  /**
+   * Re-run `check` after every change to the chain state until it returns a value
+   *
+   * RookErrors from `check` end the wait, as in RookProtocol.
+   */
+  private waitUntil<T>(what: string, check: () => Promise<T | undefined>, options: WaitOptions): Promise<T> {
+    const { signal, timeoutMs } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (error: Error | null, value?: T) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutTimer);
+        this.watchers.delete(wake);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve(value as T);
+      };
+
+      const onAbort = () => finish(new RookError(ErrorCodes.ABORTED, `Stopped waiting for ${what}`,
+        { reason: signal?.reason }));
+
+      const wake = () => {
+        if (settled) return;
+        check().then(
+          (value) => { if (value !== undefined) finish(null, value); },
+          (error) => finish(error)
+        );
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timeoutTimer = setTimeout(() => finish(new RookError(ErrorCodes.WAIT_TIMEOUT,
+          `Timed out after ${timeoutMs}ms waiting for ${what}`, { timeoutMs })), timeoutMs);
+      }
+      this.watchers.add(wake);
+      wake();
+    });
+  }
+
+  private requirePendingTransaction(txHash: string): never {
+    const blockNumber = this.state.transactions.get(txHash.toLowerCase());
+    if (blockNumber === undefined) {
+      throw new RookError(ErrorCodes.TX_NOT_FOUND, `Transaction ${txHash} not found`);
+    }
+    throw new RookError(ErrorCodes.TX_ALREADY_MINED,
+      `Transaction ${txHash} was mined in block ${blockNumber}`, { txHash, blockNumber });
+  }
+
+  /**
+   * Run a write holding a budget reservation: spent once mined, given back if it reverts
+   */
+  private async spend<T extends { txHash: string }>(
+    reservation: string | undefined,
+    write: () => Promise<T>,
+    escrowId: (result: T) => string
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await write();
+    } catch (error) {
+      if (reservation) await this.budget!.release(reservation);
+      throw error;
+    }
+    if (reservation) await this.budget!.commit(reservation, { escrowId: escrowId(result), txHash: result.txHash });
+    return result;
+  }
+
+  private requireSigner(): string {
+    if (!this.address) {
+      throw new RookError(ErrorCodes.NO_SIGNER);
+    }
+    return this.address;
+  }
+
+  private requireOwner(from: string, operation: string): void {
+    if (from.toLowerCase() !== this.state.owner) {
+      throw contractRevertError('Ownable: caller is not the owner', operation);
+    }
+  }
+
+  private requirePendingResolution(escrowId: string): PendingDisputeResolution {
+    const pending = this.state.pendingResolutions.get(key(escrowId));
+    if (!pending) {
+      throw new RookError(ErrorCodes.DISPUTE_RESOLUTION_NOT_FOUND);
+    }
+    if (pending.executed) {
+      throw new RookError(ErrorCodes.ALREADY_EXECUTED, 'Dispute resolution already executed');
+    }
+    return pending;
+  }
+
+  /**
+   * Resolve an address or a name registered with registerName()
+   */
+  private addressOf(agent: string): string {
+    // Looked up first: isAddress narrows `agent` to never on its false branch
+    const address = this.state.names.get(agent.toLowerCase());
+    if (ethers.isAddress(agent)) return ethers.getAddress(agent);
+    if (!address) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, `Could not resolve ${agent}`);
+    }
+    return address;
+  }
+
+  /**
+   * Validate createEscrow params as the SDK does before sending
+   */
+  private checkCreateEscrow(params: EscrowParams): { amount: bigint; seller: string; threshold: number } {
+    this.requireSigner();
+    const amount = validateEscrowParams(params);
+    const seller = this.addressOf(params.recipient);
+
+    if (params.maxFeeBps !== undefined) {
+      const feeBps = this.getFeeBps();
+      if (feeBps > params.maxFeeBps) {
+        throw new RookError(ErrorCodes.FEE_TOO_HIGH,
+          `Protocol fee is ${feeBps} bps, above maxFeeBps ${params.maxFeeBps}`, { feeBps, maxFeeBps: params.maxFeeBps });
+      }
+    }
+    return { amount, seller, threshold: params.threshold || DEFAULT_THRESHOLD };
+  }
+
+  /**
+   * Balance check of createEscrow, with the challenge stake on top when it challenges
+   */
+  private requireStakedBalance(address: string, amount: bigint, requested: AmountInput, challenge: boolean): void {
+    if (!challenge) return this.requireBalance(address, amount, requested);
+    this.requireBalance(address, amount + STAKE_UNITS, `${requested} + ${CHALLENGE_STAKE} challenge stake`);
+  }
+
+  private requireBalance(address: string, amount: bigint, requested: AmountInput): void {
+    const balance = this.balanceOf(address);
+    if (balance < amount) {
+      throw new RookError(ErrorCodes.INSUFFICIENT_BALANCE,
+        `Insufficient USDC balance. Have: ${ethers.formatUnits(balance, 6)}, Need: ${requested}`);
+    }
+  }
+
+  /**
+   * Fee in basis points the contract would take (0 without a fee recipient)
+   */
+  private getFeeBps(): number {
+    return this.state.feeRecipient ? this.state.feeBps : 0;
+  }
+
+  private balanceOf(address: string): bigint {
+    return this.state.balances.get(address.toLowerCase()) ?? 0n;
+  }
+
+  private credit(address: string, amount: bigint): void {
+    this.state.balances.set(address.toLowerCase(), this.balanceOf(address) + amount);
+  }
+
+  private debit(address: string, amount: bigint): void {
+    this.state.balances.set(address.toLowerCase(), this.balanceOf(address) - amount);
+  }
+
+  /**
+   * Pay out a released escrow, less the protocol fee
+   */
+  private payRelease(
+    block: MockBlock,
+    escrowId: string,
+    escrow: MockEscrow,
+    trustScore: number,
+    reason: 'oracle_release' | 'consent_release'
+  ): void {
+    const fee = (escrow.amount * BigInt(this.getFeeBps())) / 10000n;
+    escrow.status = 'Released';
+    increment(this.state.completedEscrows, escrow.seller);
+    if (fee > 0n) {
+      this.credit(this.state.feeRecipient!, fee);
+      emit(block, 'FeesCollected', { escrowId, feeAmount: fee });
+    }
+    this.credit(escrow.seller, escrow.amount - fee);
+    this.cleanup(escrowId);
+    emit(block, 'EscrowReleased', {
+      escrowId,
+      seller: escrow.seller,
+      amount: escrow.amount - fee,
+      trustScore,
+      releaseReason: ethers.id(reason)
+    });
+  }
+
+  /**
+   * Pay the full amount to the dispute's winner (no protocol fee)
+   */
+  private payDisputeResolution(
+    block: MockBlock,
+    escrowId: string,
+    escrow: MockEscrow,
+    winner: string,
+    reason: string
+  ): void {
+    const dispute = this.state.disputes.get(key(escrowId));
+    if (dispute) {
+      dispute.resolved = true;
+      dispute.winner = winner;
+    }
+    if (winner.toLowerCase() === escrow.seller.toLowerCase()) {
+      escrow.status = 'Released';
+      increment(this.state.completedEscrows, escrow.seller);
+    } else {
+      escrow.status = 'Refunded';
+    }
+    this.credit(winner, escrow.amount);
+    this.cleanup(escrowId);
+    emit(block, 'DisputeResolved', { escrowId, winner, amount: escrow.amount, reason });
+  }
+
+  /**
+   * Drop the challenge and dispute of a finalized escrow, as the contract does
+   */
+  private cleanup(escrowId: string): void {
+    this.state.challenges.delete(key(escrowId));
+    this.state.disputes.delete(key(escrowId));
+  }
+
+  private nextChallengeTime(challenger: string): number {
+    const last = this.state.lastChallengeTime.get(challenger.toLowerCase()) ?? 0;
+    if (last === 0) return 0;
+    const next = last + CHALLENGE_COOLDOWN;
+    return this.state.timestamp >= next ? 0 : next;
+  }
+
+  /**
+   * Score of an agent as RookOracle computes it at `timestamp`
+   */
+  private scoreAt(address: string, timestamp: number): {
+    composite: number;
+    freshComposite: number;
+    breakdown: TrustScoreBreakdown;
+    lastUpdated: number | null;
+    isFresh: boolean;
+    challengeBonusExpiresAt: number | null;
+  } {
+    const record = this.state.scores.get(address.toLowerCase());
+    const total = this.state.totalEscrows.get(address.toLowerCase()) ?? 0;
+    const completed = this.state.completedEscrows.get(address.toLowerCase()) ?? 0;
+    const history = total === 0 ? DEFAULT_HISTORY_SCORE : Math.floor(Math.floor((completed * 10000) / total) / 100);
+
+    const lastUpdated = record && record.lastUpdated > 0 ? record.lastUpdated : null;
+    const isFresh = lastUpdated !== null && timestamp <= lastUpdated + MAX_SCORE_AGE;
+    const challengeBonusExpiresAt = record && record.challengeBonus > 0 && record.challengeBonusTimestamp > 0
+      ? record.challengeBonusTimestamp + CHALLENGE_BONUS_DURATION
+      : null;
+    const challengeBonus = challengeBonusExpiresAt !== null && timestamp <= challengeBonusExpiresAt
+      ? record!.challengeBonus
+      : 0;
+
+    const identity = record?.identity ?? 0;
+    const reputation = record?.reputation ?? 0;
+    const sybil = record?.sybil ?? 0;
+    const freshComposite = Math.floor((
+      identity * SCORE_WEIGHTS.identity +
+      reputation * SCORE_WEIGHTS.reputation +
+      sybil * SCORE_WEIGHTS.sybil +
+      history * SCORE_WEIGHTS.history +
+      challengeBonus * SCORE_WEIGHTS.challenge
+    ) / 100);
+
+    return {
+      composite: isFresh ? freshComposite : 0,
+      freshComposite,
+      breakdown: {
+        erc8004_identity: identity / 100,
+        reputation_signals: reputation / 100,
+        sybil_resistance: sybil / 100,
+        escrow_history: history / 100,
+        challenge_bonus: challengeBonus / 100
+      },
+      lastUpdated,
+      isFresh,
+      challengeBonusExpiresAt
+    };
+  }
+}
+
+function key(escrowId: string): string {
+  return escrowId.toLowerCase();
+}
+
+function emit<K extends RookEventName>(
+  block: MockBlock,
+  name: K,
+  fields: Omit<RookEventMap[K], keyof RookEventMeta>
+): void {
+  block.logs.push({ name, fields });
+}
+
+function inRange(blockNumber: number, fromBlock?: number, toBlock: number | 'latest' = 'latest'): boolean {
+  return blockNumber >= (fromBlock ?? 0) && (toBlock === 'latest' || blockNumber <= toBlock);
+}
+
+/**
+ * Stand-in for the seller's challenge signature (65 bytes, like a real one)
+ */
+function mockChallengeProof(escrowId: string, seller: string): string {
+  const digest = ethers.id(`rook-mock-proof:${key(escrowId)}:${seller.toLowerCase()}`);
+  return ethers.concat([digest, digest, '0x1b']);
+}
+
+/**
+ * Whether `signature` proves the seller's identity: its mock proof, or a real signature by it
+ */
+function isChallengeProof(escrowId: string, signature: string, seller: string): boolean {
+  if (signature === mockChallengeProof(escrowId, seller)) return true;
+  try {
+    return recoverChallengeSigner(escrowId, signature).toLowerCase() === seller.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+function checkAddress(address: string): string {
+  if (!ethers.isAddress(address)) {
+    throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid address: ${address}`);
+  }
+  return ethers.getAddress(address);
+}
+
+function isParty(escrow: { buyer: string; seller: string }, address: string): boolean {
+  return [escrow.buyer, escrow.seller].some((party) => party.toLowerCase() === address.toLowerCase());
+}
+
+function push(index: Map<string, string[]>, address: string, escrowId: string): void {
+  const ids = index.get(address.toLowerCase()) ?? [];
+  ids.push(escrowId);
+  index.set(address.toLowerCase(), ids);
+}
+
+function increment(counts: Map<string, number>, address: string): void {
+  counts.set(address.toLowerCase(), (counts.get(address.toLowerCase()) ?? 0) + 1);
+}
+
+function toUnits(amount: AmountInput): bigint {
+  if (typeof amount === 'bigint') return amount;
+  if (typeof amount === 'number' && isNaN(amount)) {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Amount is NaN');
+  }
+  try {
+    return ethers.parseUnits(amount.toString(), 6);
+  } catch {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Invalid amount format');
+  }
+}
+
+/**
+ * The SDK's createEscrow validation
+ */
+function validateEscrowParams(params: EscrowParams): bigint {
+  let amount: bigint;
+  try {
+    amount = toUnits(params.amount);
+  } catch {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Invalid amount format');
+  }
+  if (amount <= 0n) {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Amount must be greater than 0');
+  }
+  if (amount > ethers.parseUnits('1000000', 6)) {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, 'Amount exceeds maximum (1M USDC)');
+  }
+  if (!params.recipient || typeof params.recipient !== 'string') {
+    throw new RookError(ErrorCodes.INVALID_AGENT, 'Recipient is required');
+  }
+  if (!params.job || params.job.length === 0) {
+    throw new RookError(ErrorCodes.INVALID_AGENT, 'Job description is required');
+  }
+  if (params.job.length > 1000) {
+    throw new RookError(ErrorCodes.INVALID_AGENT, 'Job description too long (max 1000 chars)');
+  }
+  const threshold = params.threshold ?? DEFAULT_THRESHOLD;
+  if (threshold < 50 || threshold > 100) {
+    throw new RookError(ErrorCodes.INVALID_THRESHOLD, 'Threshold must be between 50 and 100');
+  }
+  return amount;
+}
@@ -0,0 +1,216 @@
+import { FetchRequest, FetchResponse, ethers } from 'ethers';
+import {
+  ChallengeProofSubmission,
+  OracleChallengeRequest,
+  OracleClientOptions,
+  OracleHealth,
+  OracleMetrics,
+  OracleRescoreResponse,
+  OracleResolveResponse,
+  OracleVerifyResponse,
+  OracleWebhookData,
+  OracleWebhookEvent,
+  OracleWebhookResponse
+} from './types';
+import { RookError, ErrorCodes } from './utils/errors';
+
+// Throttled or briefly unavailable (502-504 also covers a restarting oracle)
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+// Longer Retry-After waits fail instead (rate limit windows run for minutes)
+const MAX_RETRY_AFTER = 60000;
+
+interface OracleRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  body?: unknown;
+  /** Route requires the API key */
+  auth?: boolean;
+  /** Accept a body even with an error status */
+  accept?: (body: any) => boolean;
+}
+
+/**
+ * Typed client for the Rook oracle's REST API
+ *
+ * Network errors, timeouts, 429 and 502-504 answers are retried with
+ * exponential backoff (honouring a Retry-After of up to a minute). Other
+ * failures throw a RookError: UNAUTHORIZED on 401, ORACLE_ERROR otherwise,
+ * with the HTTP status and oracle message in `details`.
+ *
+ * @example
+ * ```typescript
+ * const oracle = new RookOracleClient({ url: 'https://oracle.rook.example', apiKey });
+ * const { score } = await oracle.verify('0x...');
+ * console.log(score.composite);
+ * ```
+ */
+export class RookOracleClient {
+  readonly url: string;
+  private apiKey: string | null;
+  private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+
+  constructor(options: OracleClientOptions) {
+    if (!options.url || !/^https?:\/\//i.test(options.url)) {
+      throw new RookError(ErrorCodes.ORACLE_ERROR, `Invalid oracle URL: ${options.url}`);
+    }
+    this.url = options.url.replace(/\/+$/, '');
+    this.apiKey = options.apiKey ?? null;
+    this.timeout = options.timeout ?? 10000;
+    this.retries = options.retries ?? 2;
+    this.retryDelay = options.retryDelay ?? 500;
+  }
+
+  /**
+   * Liveness and whether the oracle can compute scores
+   */
+  async health(): Promise<OracleHealth> {
+    return this.request({ method: 'GET', path: '/health' });
+  }
+
+  /**
+   * Per-operation latency stats and score cache hit rate (requires the API key)
+   */
+  async metrics(): Promise<OracleMetrics> {
+    return this.request({ method: 'GET', path: '/metrics', auth: true });
+  }
+
+  /**
+   * Compute a fresh trust score for an agent
+   *
+   * The score is computed off-chain and may differ from the on-chain score
+   * until an operator pushes it.
+   *
+   * @param agent - Agent address
+   * @param moltbookHandle - Moltbook handle the reputation and sybil scores use
+   */
+  async verify(agent: string, moltbookHandle?: string): Promise<OracleVerifyResponse> {
+    if (!ethers.isAddress(agent)) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid agent address: ${agent}`);
+    }
+    return this.request({ method: 'POST', path: '/verify', body: { agent, moltbookHandle } });
+  }
+
+  /**
+   * Compute a fresh trust score and push it on-chain (requires the API key)
+   *
+   * Resolves once the oracle's updateScores transaction is mined.
+   *
+   * @param agent - Agent address
+   * @param moltbookHandle - Moltbook handle the reputation and sybil scores use
+   */
+  async rescore(agent: string, moltbookHandle?: string): Promise<OracleRescoreResponse> {
+    if (!ethers.isAddress(agent)) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid agent address: ${agent}`);
+    }
+    return this.request({ method: 'POST', path: '/rescore', body: { agent, moltbookHandle }, auth: true });
+  }
+
+  /**
+   * Look up the wallet linked to a Moltbook handle
+   *
+   * @param handle - Moltbook handle, with or without '@'
+   */
+  async resolve(handle: string): Promise<OracleResolveResponse> {
+    const clean = handle.replace(/^@/, '');
+    return this.request({ method: 'GET', path: `/resolve/${encodeURIComponent(clean)}` });
+  }
+
+  /**
+   * Post a challenge proof (requires the API key)
+   *
+   * Verified-but-not-resolved answers (e.g. 403 from a read-only oracle) are
+   * returned, not thrown: check `valid` and `resolved`.
+   */
+  async submitChallenge(request: OracleChallengeRequest): Promise<ChallengeProofSubmission> {
+    return this.request({
+      method: 'POST',
+      path: '/challenge',
+      body: request,
+      auth: true,
+      accept: (body) => typeof body?.valid === 'boolean'
+    });
+  }
+
+  /**
+   * Notify the oracle of an escrow event (requires the API key)
+   *
+   * The oracle drops events it already processed: pass `timestamp` to tell
+   * repeated events of one escrow apart.
+   */
+  async sendWebhook(event: OracleWebhookEvent, data: OracleWebhookData): Promise<OracleWebhookResponse> {
+    return this.request({ method: 'POST', path: '/webhook', body: { event, data }, auth: true });
+  }
+
+  private async request<T>(options: OracleRequest): Promise<T> {
+    if (options.auth && !this.apiKey) {
+      throw new RookError(ErrorCodes.UNAUTHORIZED, `An oracle API key is required for ${options.path}`);
+    }
+    const label = `${options.method} ${options.path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: FetchResponse;
+      try {
+        response = await this.send(options);
+      } catch (error: any) {
+        if (attempt < this.retries) {
+          await sleep(this.retryDelay * 2 ** attempt);
+          continue;
+        }
+        throw new RookError(ErrorCodes.ORACLE_ERROR,
+          `Oracle unreachable (${label}): ${error.shortMessage || error.message}`);
+      }
+
+      if (RETRY_STATUSES.has(response.statusCode) && attempt < this.retries) {
+        const delay = this.retryDelayFor(attempt, response.getHeader('retry-after'));
+        if (delay <= MAX_RETRY_AFTER) {
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      let body: any = null;
+      try {
+        body = response.bodyJson;
+      } catch {
+        // Not JSON
+      }
+      if (response.ok() || (body && options.accept?.(body))) {
+        return body as T;
+      }
+
+      const code = response.statusCode === 401 ? ErrorCodes.UNAUTHORIZED : ErrorCodes.ORACLE_ERROR;
+      const message = body?.error ?? response.statusMessage;
+      throw new RookError(code, `Oracle rejected ${label} (${response.statusCode}): ${message}`, {
+        status: response.statusCode,
+        error: message
+      });
+    }
+  }
+
+  private async send(options: OracleRequest): Promise<FetchResponse> {
+    const request = new FetchRequest(`${this.url}${options.path}`);
+    request.method = options.method;
+    request.timeout = this.timeout;
+    // Retries are ours: don't wait out a throttle inside ethers
+    request.retryFunc = async () => false;
+    if (options.auth && this.apiKey) {
+      request.setHeader('x-api-key', this.apiKey);
+    }
+    if (options.body !== undefined) {
+      request.setHeader('content-type', 'application/json');
+      request.body = JSON.stringify(options.body);
+    }
+    return request.send();
+  }
+
+  private retryDelayFor(attempt: number, retryAfter?: string): number {
+    const seconds = Number(retryAfter);
+    return retryAfter && Number.isFinite(seconds) ? seconds * 1000 : this.retryDelay * 2 ** attempt;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
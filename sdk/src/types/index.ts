@@ -1,9 +1,82 @@
+import type { Eip1193Provider, Provider, Signer, Transaction, TypedDataDomain, TypedDataField } from 'ethers';
+import type { RookError } from '../utils/errors';
+
 export interface RookConfig {
-  network?: 'base-sepolia' | 'base';
+  /** Built-in network, or any name for a custom network (requires chainId, contracts and an RPC URL) */
+  network?: 'base-sepolia' | 'base' | (string & {});
+  /** Chain ID the RPC must report (default: the built-in network's) */
+  chainId?: number;
+  /** Contract addresses, overriding the built-in network's */
+  contracts?: Partial<RookContracts>;
   rpcUrl?: string;
+  /** Several RPC endpoints for failover (or quorum), tried in priority order. Mutually exclusive with `rpcUrl` */
+  rpcUrls?: Array<string | RpcEndpoint>;
+  /** Raw private key. Prefer `signer` to keep keys out of the agent process */
   privateKey?: string;
+  /** Injected ethers Signer, EIP-1193 wallet, or custom signing callbacks */
+  signer?: RookSigner;
+  /** Extra name resolvers, tried before the built-in ENS and Moltbook resolvers */
+  resolvers?: AgentResolver[];
+  /** Mainnet provider or RPC URL for ENS names (ENS is off without it: Base has no ENS registry) */
+  ensProvider?: Provider | string;
+  /** Where Moltbook @handles are looked up (default: the public Moltbook API) */
+  moltbook?: MoltbookResolverOptions;
+  /** Rook oracle service URL (challenge proofs are submitted there) */
+  oracleUrl?: string;
+  /** API key for the oracle's protected routes, sent as x-api-key */
+  oracleApiKey?: string;
+}
+
+/**
+ * Rook deployment addresses
+ */
+export interface RookContracts {
+  escrow: string;
+  /** Discovered from RookEscrow.oracle() when omitted */
+  oracle?: string;
+  usdc: string;
+  /** Block the Rook contracts were deployed at: event queries start there unless given `fromBlock` */
+  deployBlock?: number;
+}
+
+/**
+ * An RPC endpoint in a multi-RPC setup
+ */
+export interface RpcEndpoint {
+  url: string;
+  /** Lower is tried first (default: position in the list) */
+  priority?: number;
+  /** Vote weight in quorum mode (default: 1) */
+  weight?: number;
+  /** Time in ms before the next endpoint is also queried in quorum mode (default: 2000) */
+  stallTimeout?: number;
+}
+
+/**
+ * Custom signing backend (custodial signer service, HSM, MPC wallet)
+ *
+ * The SDK populates and serializes transactions itself; the backend only signs.
+ */
+export interface SigningCallbacks {
+  /** Address the backend signs for */
+  address: string;
+  /** Sign an unsigned transaction and return the signed serialized transaction */
+  signTransaction: (tx: Transaction) => Promise<string>;
+  /** Sign an EIP-191 personal message */
+  signMessage?: (message: string | Uint8Array) => Promise<string>;
+  /** Sign EIP-712 typed data */
+  signTypedData?: (
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>
+  ) => Promise<string>;
 }
 
+/**
+ * Anything the SDK can sign with
+ */
+export type RookSigner = Signer | Eip1193Provider | SigningCallbacks;
+
 /**
  * Amount type supporting multiple input formats for precision
  * - number: Simple amounts (may lose precision for very large values)
@@ -17,7 +90,12 @@ export interface EscrowParams {
   recipient: string;  // Address, @handle, or ENS
   job: string;
   threshold?: number;
+  /** Challenge the escrow right after creating it (stakes CHALLENGE_STAKE) */
   requireChallenge?: boolean;
+  /** Refuse to create the escrow (FEE_TOO_HIGH) if the protocol fee is above this, in basis points */
+  maxFeeBps?: number;
+  /** Rules for this escrow, over RookProtocolOptions.policy */
+  policy?: BuyerPolicy;
 }
 
 export type EscrowStatus = 'Active' | 'Released' | 'Refunded' | 'Disputed' | 'Challenged' | 'Unknown';
@@ -28,13 +106,82 @@ export interface EscrowResult {
   id: string;
   buyer: string;
   seller: string;
+  /** USDC as a number (may round; use amountUnits to reconcile) */
   amount: number;
+  /** Raw USDC units (6 decimals) */
+  amountUnits: bigint;
+  /** Exact decimal USDC, e.g. "100.5" */
+  amountDecimal: string;
   job: string;
   threshold: number;
   status: EscrowStatus;
   createdAt?: number;
   expiresAt?: number;
   txHash?: string;
+  /** Display name of the buyer (ENS name or @handle), if known */
+  buyerName?: string;
+  /** Display name of the seller (ENS name or @handle), if known */
+  sellerName?: string;
+  /** Challenge createEscrow started (requireChallenge or policy.challengeRiskLevels) */
+  challenge?: ChallengeResult;
+  /** Why that challenge failed (the escrow was created) */
+  challengeError?: RookError;
+}
+
+/**
+ * Escrow listing query (exactly one of buyer or seller)
+ */
+export type ListEscrowsParams = ({ buyer: string; seller?: never } | { seller: string; buyer?: never }) & {
+  /** Only yield escrows in these statuses */
+  status?: EscrowStatus | EscrowStatus[];
+  /** Position in the on-chain buyer/seller index to start from (default: 0) */
+  cursor?: number;
+  /** IDs fetched per contract call (default: 50) */
+  pageSize?: number;
+};
+
+/**
+ * Escrow yielded by listEscrows, with the cursor to resume after it
+ */
+export interface EscrowListItem extends EscrowResult {
+  cursor: number;
+}
+
+/**
+ * What an escrow costs the buyer and pays the seller, at current settings
+ *
+ * USDC values are raw units (6 decimals): format with formatUSDC or toUSDCDecimal.
+ */
+export interface EscrowQuote {
+  seller: string;
+  /** Gross amount the buyer locks */
+  amount: bigint;
+  /** Protocol fee in basis points (0 while no fee recipient is set) */
+  feeBps: number;
+  /** Taken from the amount on release */
+  protocolFee: bigint;
+  /** What the seller receives on release */
+  sellerNet: bigint;
+  /** Allowance an approve transaction must grant first (0n when covered or signed as a permit) */
+  approvalRequired: bigint;
+  usesPermit: boolean;
+  /** Gas of all transactions, and its upper-bound cost in wei (0n without a dry run) */
+  totalGas: bigint;
+  gasPrice: bigint;
+  estimatedCost: bigint;
+  threshold: number;
+  /** Seller's current on-chain score (0-100, the threshold's scale; 0 when stale or unread) */
+  sellerScore: number;
+  sellerScoreFresh: boolean;
+  /** The score would pass the threshold now */
+  meetsThreshold: boolean;
+  /** Why the seller's score could not be read (the score fields are then 0/false) */
+  scoreError?: RookError;
+  /** createEscrow was dry-run as the signer (false without a signer: approval and gas are unknown) */
+  dryRun: boolean;
+  /** createEscrow would go through (else see `error`, e.g. INSUFFICIENT_BALANCE or NO_SIGNER) */
+  ok: boolean;
+  error?: RookError;
 }
 
 export interface TrustScoreBreakdown {
@@ -48,10 +195,44 @@ export interface TrustScoreBreakdown {
 export interface VerificationResult {
   agent: string;
   address: string;
+  /** Display name of the agent (ENS name or @handle), if known */
+  name?: string;
   trust_score: number;
   breakdown: TrustScoreBreakdown;
   risk_level: RiskLevel;
   recommendation: string;
+  /** Unix time the oracle last pushed the agent's scores (null if never) */
+  lastUpdated: number | null;
+  /** Scores were pushed within MAX_SCORE_AGE. Stale scores count as a trust score of 0 on-chain */
+  isFresh: boolean;
+  /** Unix time the scores turn stale (null if never scored) */
+  freshUntil: number | null;
+  /** Unix time the challenge bonus expires, past or future (null without a bonus) */
+  challengeBonusExpiresAt: number | null;
+  /** Fresh off-chain score from the oracle (with `offchain: true`) */
+  oracle_score?: OracleScore;
+}
+
+/**
+ * Trust score computed by the oracle's POST /verify, not yet pushed on-chain
+ */
+export interface OracleScore {
+  trust_score: number;
+  breakdown: TrustScoreBreakdown;
+  /** When the oracle computed the score, in ms */
+  timestamp: number;
+}
+
+export interface VerifyOptions {
+  /** Also fetch a fresh score from the oracle (requires `oracleUrl`) */
+  offchain?: boolean;
+  /**
+   * Stale on-chain scores throw STALE_SCORE. With 'rescore', the oracle is
+   * first asked to push a fresh score on-chain (requires `oracleUrl` and `oracleApiKey`)
+   */
+  requireFresh?: boolean | 'rescore';
+  /** Moltbook handle the oracle scores the agent's reputation with (default: the agent, if given as @handle) */
+  moltbookHandle?: string;
 }
 
 export interface ChallengeParams {
@@ -64,11 +245,53 @@ export interface ChallengeResult {
   escrowId: string;
   challenger: string;
   stake: number;
+  /** Raw USDC units (6 decimals) */
+  stakeUnits: bigint;
+  /** Exact decimal USDC */
+  stakeDecimal: string;
   deadline: number;
   reason?: string;
   txHash: string;
 }
 
+/**
+ * How a seller proves its identity when challenged
+ */
+export type ProofMethod = 'wallet_signature' | 'behavioral' | 'tee_attestation';
+
+export interface ProofResult {
+  escrowId: string;
+  method: ProofMethod;
+  /** Seller's signature over the challenge digest */
+  signature: string;
+  /** Timestamp committed to in the response hash */
+  timestamp: number;
+  /** keccak256(escrowId, signature, timestamp), as RookEscrow.computeResponseHash */
+  responseHash: string;
+  /** respondChallenge transaction */
+  txHash: string;
+  /** The oracle verified the signature */
+  verified: boolean;
+  /** The oracle resolved the challenge on-chain */
+  resolved: boolean;
+  /** Oracle's resolveChallenge transaction */
+  resolutionTxHash?: string;
+  /** Why the oracle did not verify or resolve (resubmit with submitChallengeProof) */
+  oracleError?: RookError;
+}
+
+/**
+ * Oracle answer to a POST /challenge
+ */
+export interface ChallengeProofSubmission {
+  escrowId: string;
+  valid: boolean;
+  resolved: boolean;
+  txHash?: string;
+  message?: string;
+  error?: string;
+}
+
 export interface DisputeParams {
   escrowId: string;
   evidence: string;  // IPFS hash or text
@@ -79,30 +302,1070 @@ export interface DisputeResult {
   escrowId: string;
   winner: string;
   amount: number;
+  /** Raw USDC units (6 decimals) */
+  amountUnits: bigint;
+  /** Exact decimal USDC */
+  amountDecimal: string;
+  reason: string;
+  txHash: string;
+  /** High-value dispute: the resolution was only scheduled behind the timelock */
+  scheduled: boolean;
+  /** Unix time after which executeDisputeResolution() can run (scheduled resolutions only) */
+  executeAfter?: number;
+}
+
+export type ChallengeStatus = 'None' | 'Active' | 'Responded' | 'Resolved';
+
+/**
+ * On-chain challenge state of an escrow
+ */
+export interface ChallengeDetails {
+  escrowId: string;
+  challenger: string;
+  stake: number;
+  /** Raw USDC units (6 decimals) */
+  stakeUnits: bigint;
+  /** Exact decimal USDC */
+  stakeDecimal: string;
+  /** Response deadline (block number) */
+  deadline: number;
+  status: ChallengeStatus;
+  passed: boolean;
+  /** Zero hash until the seller responds */
+  responseHash: string;
+}
+
+/**
+ * A dispute resolution scheduled behind DISPUTE_TIMELOCK_DELAY
+ */
+export interface PendingDisputeResolution {
+  winner: string;
   reason: string;
+  /** Unix time after which it can be executed */
+  executeAfter: number;
+  executed: boolean;
+}
+
+/**
+ * On-chain dispute state of an escrow
+ */
+export interface DisputeDetails {
+  escrowId: string;
+  initiator: string;
+  evidence: string;
+  createdAt: number;
+  resolved: boolean;
+  /** Zero address until resolved */
+  winner: string;
+  pendingResolution: PendingDisputeResolution | null;
+}
+
+/**
+ * Which parties have consented to releaseWithConsent
+ */
+export interface ReleaseConsent {
+  escrowId: string;
+  buyer: boolean;
+  seller: boolean;
+}
+
+/**
+ * Escrow actions, named after the SDK methods that perform them
+ */
+export type EscrowAction =
+  | 'release'
+  | 'releaseWithConsent'
+  | 'refund'
+  | 'claimExpired'
+  | 'dispute'
+  | 'challenge'
+  | 'respondChallenge'
+  | 'claimTimeout';
+
+/**
+ * Whether an address can take an escrow action, and when
+ */
+export interface AvailableAction {
+  action: EscrowAction;
+  /** The action can be sent now */
+  allowed: boolean;
+  /** Why the action is not allowed now */
+  reason?: string;
+  /** Unix time (s) from which the action is allowed (time-gated actions only) */
+  earliestTime?: number;
+  /** Block from which the action is allowed (block-gated actions only) */
+  earliestBlock?: number;
+  /** Last unix time (s) at which the action is allowed */
+  latestTime?: number;
+  /** Last block at which the action is allowed */
+  latestBlock?: number;
+}
+
+/**
+ * Actions an address can take on an escrow, as of one block
+ */
+export interface EscrowActions {
+  escrowId: string;
+  address: string;
+  status: EscrowStatus;
+  /** Block the answer was computed at */
+  blockNumber: number;
+  /** Timestamp of that block */
+  timestamp: number;
+  actions: AvailableAction[];
+}
+
+// =================================================================
+// NAME RESOLUTION
+// =================================================================
+
+/**
+ * Maps agent names (ENS names, @handles, custom identifiers) to addresses
+ */
+export interface AgentResolver {
+  /** Resolver name, used to replace or remove it */
+  name: string;
+  /** Whether this resolver handles the name */
+  supports(name: string): boolean;
+  /** Address for the name, or null if it is not registered */
+  resolve(name: string): Promise<string | null>;
+  /** Display name for an address, or null if it has none */
+  reverse?(address: string): Promise<string | null>;
+}
+
+export interface MoltbookResolverOptions {
+  /** Rook oracle URL: handles are resolved through its /resolve endpoint */
+  oracleUrl?: string;
+  /** Moltbook API URL, used when no oracleUrl is set (default: https://api.moltbook.com) */
+  apiUrl?: string;
+  /** Moltbook API key */
+  apiKey?: string;
+  /** Request timeout in ms (default: 5000) */
+  timeout?: number;
+  /** Field of the Moltbook API's user profile holding the linked wallet (default: 'wallet') */
+  walletField?: string;
+}
+
+// =================================================================
+// PREVIEWS
+// =================================================================
+
+/**
+ * One transaction a write method would send
+ */
+export interface PreviewStep {
+  /** Human-readable step ('USDC approval', 'Escrow creation', ...) */
+  operation: string;
+  /** Contract method */
+  method: string;
+  /** Unsigned transaction */
+  transaction: { to: string; from: string; data: string };
+  /** Gas limit the SDK would send with (estimate x gasLimitMultiplier) */
+  gasLimit: bigint;
+  /**
+   * Whether the step was simulated with staticCall. Steps that depend on an
+   * earlier unsent step (e.g. createEscrow after a pending approve) are not.
+   */
+  simulated: boolean;
+  /** Decoded return value of the simulation */
+  result?: any;
+  /** Decoded revert, if the simulation failed */
+  error?: RookError;
+}
+
+/**
+ * Dry-run of a write method: what would be sent, what it costs, whether it reverts
+ */
+export interface TransactionPreview {
+  /** True if no SDK check or simulated step failed */
+  ok: boolean;
+  steps: PreviewStep[];
+  /** First failure (SDK pre-check or decoded revert) */
+  error?: RookError;
+  /** Sum of step gas limits */
+  totalGas: bigint;
+  /** Max fee per gas (or legacy gas price) in wei */
+  gasPrice: bigint;
+  /** Upper bound on network cost in wei (totalGas * gasPrice) */
+  estimatedCost: bigint;
+  /** Protocol fee taken from the escrow amount on release, in USDC */
+  protocolFee: number;
+  /** Protocol fee in raw USDC units */
+  protocolFeeUnits: bigint;
+}
+
+// =================================================================
+// FEES
+// =================================================================
+
+/**
+ * How the SDK prices transactions (all values in wei)
+ *
+ * - provider: fees suggested by the RPC (eth_maxPriorityFeePerGas / eth_gasPrice)
+ * - fixed: the given EIP-1559 fees
+ * - percentile: priority fee at a percentile of recent blocks (eth_feeHistory),
+ *   max fee of twice the next base fee plus the priority fee
+ *
+ * `maxFeeCap` bounds maxFeePerGas for every strategy.
+ */
+export type FeeStrategy =
+  | { type: 'provider'; maxFeeCap?: bigint }
+  | { type: 'fixed'; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; maxFeeCap?: bigint }
+  | { type: 'percentile'; percentile?: number; blocks?: number; maxFeeCap?: bigint };
+
+/**
+ * Fee fields for a transaction (EIP-1559, or gasPrice on legacy networks)
+ */
+export type TransactionFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+// =================================================================
+// POLICY
+// =================================================================
+
+/**
+ * Buyer guardrails createEscrow checks against the seller before locking funds
+ *
+ * Rules left out are not checked.
+ */
+export interface BuyerPolicy {
+  /** Largest escrow per seller risk level, in USDC as EscrowParams.amount (levels left out are uncapped) */
+  maxAmount?: Partial<Record<RiskLevel, AmountInput>>;
+  /** Lowest seller trust_score (0-1, as verify() reports it) */
+  minTrustScore?: number;
+  /** Only escrow with these sellers (addresses, @handles or ENS names) */
+  allowlist?: string[];
+  /** Never escrow with these sellers */
+  denylist?: string[];
+  /** Seller scores must be fresh on-chain (implied by the score rules); 'rescore' has the oracle push a fresh score first */
+  requireFresh?: boolean | 'rescore';
+  /** Challenge the escrow right after creating it when the seller has one of these risk levels */
+  challengeRiskLevels?: RiskLevel[];
+}
+
+export type PolicyRule = 'maxAmount' | 'minTrustScore' | 'allowlist' | 'denylist' | 'requireFresh' | 'challenge';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  /** The policy's bound (raw USDC units for maxAmount) */
+  limit?: string | number;
+  /** The escrow's or seller's value */
+  actual?: string | number;
+}
+
+/**
+ * Outcome of checking an escrow against the buyer policy
+ */
+export interface PolicyCheck {
+  seller: string;
+  /** Whether createEscrow would go ahead */
+  allowed: boolean;
+  violations: PolicyViolation[];
+  /** createEscrow challenges the escrow right after creating it */
+  challenge: boolean;
+  /** Seller's score (null when no rule needs it) */
+  verification: VerificationResult | null;
+}
+
+// =================================================================
+// SPENDING
+// =================================================================
+
+/**
+ * Spending caps and approvals for autonomous agents
+ *
+ * Caps are USDC, as EscrowParams.amount, over rolling windows: `daily` is the
+ * last 24 hours, the others the last 7 days. Escrow amounts and challenge
+ * stakes both count as spend; refunds do not give budget back. Caps left out
+ * are not checked.
+ */
+export interface SpendingOptions {
+  /** Total spend per 24 hours */
+  daily?: AmountInput;
+  /** Total spend per 7 days */
+  weekly?: AmountInput;
+  /** Escrowed with any one seller per 7 days */
+  perCounterparty?: AmountInput;
+  /** Challenge stakes per 7 days */
+  challengeStakes?: AmountInput;
+  /** Spends above this need `approve` to agree (without an approver they are rejected) */
+  approvalThreshold?: AmountInput;
+  /** Asked about spends above `approvalThreshold` (see webhookApprover, fileApprover, promptApprover) */
+  approve?: SpendApprover;
+  /** Where spend records and the decision log persist (default: memory, lost on restart) */
+  store?: SpendStore;
+  /** Called with every decision */
+  onDecision?: (decision: SpendDecision) => void;
+}
+
+export type SpendKind = 'escrow' | 'challenge';
+
+export type SpendRule = 'daily' | 'weekly' | 'perCounterparty' | 'challengeStakes' | 'approval';
+
+/**
+ * A spend awaiting approval
+ */
+export interface SpendRequest {
+  id: string;
+  kind: SpendKind;
+  /** Raw USDC units */
+  amount: bigint;
+  /** Exact decimal USDC */
+  amountDecimal: string;
+  /** Seller of the escrow */
+  counterparty: string;
+  /** Escrow challenged (challenge spends) */
+  escrowId?: string;
+  /** Job description (escrow spends) */
+  job?: string;
+  /** Spend so far in each window, this request excluded */
+  usage: SpendUsage;
+}
+
+/**
+ * Spend in the current windows, in raw USDC units
+ */
+export interface SpendUsage {
+  daily: bigint;
+  weekly: bigint;
+  challengeStakes: bigint;
+  /** Per seller (lowercase address) */
+  perCounterparty: Record<string, bigint>;
+}
+
+/**
+ * Decides on a spend above the approval threshold
+ *
+ * Resolve true to approve. Rejecting, resolving false or throwing all reject the spend.
+ */
+export type SpendApprover = (request: SpendRequest) => Promise<boolean> | boolean;
+
+/**
+ * One authorized spend (amounts as decimal strings of raw units, for JSON)
+ *
+ * `reserved` spends were authorized but not confirmed on-chain yet; they
+ * count against the caps, as they may still be mined.
+ */
+export interface SpendRecord {
+  id: string;
+  kind: SpendKind;
+  amount: string;
+  counterparty: string;
+  /** Unix time in ms */
+  timestamp: number;
+  status: 'reserved' | 'spent';
+  escrowId?: string;
+  txHash?: string;
+}
+
+/**
+ * Audit log entry for one authorization
+ */
+export interface SpendDecision {
+  requestId: string;
+  kind: SpendKind;
+  /** Raw USDC units, as a decimal string */
+  amount: string;
+  counterparty: string;
+  escrowId?: string;
+  /** allowed: within caps, no approval needed; approved/rejected: by the approver; denied: over a cap */
+  outcome: 'allowed' | 'approved' | 'rejected' | 'denied';
+  /** Cap broken or approval refused */
+  rule?: SpendRule;
+  reason?: string;
+  /** Unix time in ms */
+  timestamp: number;
+}
+
+/**
+ * Persistence for spend records and decisions (see FileSpendStore)
+ */
+export interface SpendStore {
+  /** Records saved last (empty on the first run) */
+  load(): Promise<SpendRecord[]>;
+  save(records: SpendRecord[]): Promise<void>;
+  /** Append a decision to the audit log */
+  log(decision: SpendDecision): Promise<void>;
+}
+
+// =================================================================
+// TRANSACTION QUEUE
+// =================================================================
+
+/**
+ * Snapshot of the signer's transaction queue
+ */
+export interface TransactionQueueState {
+  /** Submissions waiting for their turn to be sent */
+  queued: number;
+  /** Sent transactions awaiting confirmation */
+  pending: Array<{ hash: string; nonce: number; operation: string; sentAt: number }>;
+  /** Next locally assigned nonce (null until the first send, or after a resync) */
+  nextNonce: number | null;
+}
+
+// =================================================================
+// LOGGING AND HOOKS
+// =================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Receives SDK log messages (console, pino, winston, ...)
+ *
+ * `context` carries structured fields such as `operation`, `escrowId` or `txHash`.
+ */
+export interface RookLogger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Fields every transaction hook receives
+ */
+export interface TxHookEvent {
+  /** Label of the write, e.g. 'Escrow creation' */
+  operation: string;
+  /** Contract method called */
+  method: string;
+  /** Escrow the write acts on (escrow creation: set once confirmed) */
+  escrowId?: string;
+  /** When the write started, before preflight and gas estimation (ms since epoch) */
+  startedAt: number;
+}
+
+export interface TxSubmittedEvent extends TxHookEvent {
+  txHash: string;
+  nonce: number;
+  /** When the transaction was broadcast (ms since epoch) */
+  submittedAt: number;
+  /** ms from start to broadcast: preflight, gas estimation, queueing and signing */
+  submitMs: number;
+}
+
+export interface TxConfirmedEvent extends TxHookEvent {
+  /** Hash of the mined transaction (a speed-up's replacement if it won) */
+  txHash: string;
+  nonce: number;
+  blockNumber: number;
+  gasUsed: bigint;
+  submittedAt: number;
+  /** When the required confirmations were reached (ms since epoch) */
+  confirmedAt: number;
+  submitMs: number;
+  /** ms from broadcast to the required confirmations */
+  confirmMs: number;
+  /** ms from start to the required confirmations */
+  durationMs: number;
+}
+
+export interface TxFailedEvent extends TxHookEvent {
+  /** Where the write failed: preflight simulation, sending, or waiting for the receipt */
+  stage: 'preflight' | 'send' | 'confirm';
+  error: RookError;
+  /** Set when the transaction was broadcast (it may still be mined after a timeout) */
+  txHash?: string;
+  nonce?: number;
+  submittedAt?: number;
+  /** ms from start to the failure */
+  durationMs: number;
+}
+
+/**
+ * A USDC allowance granted to the escrow: an approve transaction, or a permit
+ * riding in createEscrowWithPermit / initiateChallengeWithPermit
+ */
+export interface ApprovalSentEvent extends TxHookEvent {
+  kind: 'approve' | 'permit';
+  spender: string;
+  /** Raw USDC units */
+  amount: bigint;
+  /** Transaction carrying the approval */
   txHash: string;
+  submittedAt: number;
+}
+
+export interface RpcErrorEvent {
+  /** Endpoint URL */
+  endpoint: string;
+  /** JSON-RPC methods of the failed request */
+  methods: string[];
+  error: Error;
+  /** Consecutive failures of the endpoint */
+  failures: number;
+  /** The endpoint is now skipped for the ejection period */
+  ejected: boolean;
+  /** ms the request took to fail */
+  durationMs: number;
+  timestamp: number;
+}
+
+/**
+ * Lifecycle callbacks, e.g. for metrics or audit trails
+ *
+ * Hooks are called synchronously and must not throw: errors are logged and
+ * otherwise ignored.
+ */
+export interface RookHooks {
+  onTxSubmitted?: (event: TxSubmittedEvent) => void;
+  onTxConfirmed?: (event: TxConfirmedEvent) => void;
+  onTxFailed?: (event: TxFailedEvent) => void;
+  onApprovalSent?: (event: ApprovalSentEvent) => void;
+  /** An RPC endpoint failed (rpcUrl / rpcUrls over HTTP; the request may be retried elsewhere) */
+  onRpcError?: (event: RpcErrorEvent) => void;
+}
+
+// =================================================================
+// EVENTS
+// =================================================================
+
+/**
+ * Block and transaction metadata attached to every decoded event
+ */
+export interface RookEventMeta {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
 }
 
-// Event types for listeners
-export interface EscrowCreatedEvent {
+// RookEscrow events
+
+export interface EscrowCreatedEvent extends RookEventMeta {
   escrowId: string;
   buyer: string;
   seller: string;
   amount: bigint;
+  jobHash: string;
   trustThreshold: number;
-  expiresAt: number;
 }
 
-export interface EscrowReleasedEvent {
+export interface EscrowReleasedEvent extends RookEventMeta {
   escrowId: string;
   seller: string;
   amount: bigint;
   trustScore: number;
+  releaseReason: string;
+}
+
+export interface EscrowRefundedEvent extends RookEventMeta {
+  escrowId: string;
+  buyer: string;
+  amount: bigint;
+  reason: string;
+}
+
+export interface EscrowDisputedEvent extends RookEventMeta {
+  escrowId: string;
+  initiator: string;
+  evidence: string;
+}
+
+export interface DisputeResolvedEvent extends RookEventMeta {
+  escrowId: string;
+  winner: string;
+  amount: bigint;
+  reason: string;
+}
+
+export interface DisputeResolutionScheduledEvent extends RookEventMeta {
+  escrowId: string;
+  winner: string;
+  executeAfter: number;
+}
+
+export interface DisputeResolutionCancelledEvent extends RookEventMeta {
+  escrowId: string;
 }
 
-export interface ChallengeInitiatedEvent {
+export interface ChallengeInitiatedEvent extends RookEventMeta {
   escrowId: string;
   challenger: string;
   stake: bigint;
   deadline: number;
 }
+
+export interface ChallengeRespondedEvent extends RookEventMeta {
+  escrowId: string;
+  responseHash: string;
+}
+
+export interface ChallengeResolvedEvent extends RookEventMeta {
+  escrowId: string;
+  passed: boolean;
+  challenger: string;
+  stakeReturned: bigint;
+}
+
+export interface ChallengeStakeSlashedEvent extends RookEventMeta {
+  escrowId: string;
+  challenger: string;
+  seller: string;
+  slashedAmount: bigint;
+}
+
+export interface ConsentRecordedEvent extends RookEventMeta {
+  escrowId: string;
+  party: string;
+}
+
+export interface FeesCollectedEvent extends RookEventMeta {
+  escrowId: string;
+  feeAmount: bigint;
+}
+
+export interface OracleUpdatedEvent extends RookEventMeta {
+  oldOracle: string;
+  newOracle: string;
+}
+
+export interface ProtocolFeeUpdatedEvent extends RookEventMeta {
+  oldFee: number;
+  newFee: number;
+}
+
+export interface FeeRecipientUpdatedEvent extends RookEventMeta {
+  oldRecipient: string;
+  newRecipient: string;
+}
+
+export interface TokensRescuedEvent extends RookEventMeta {
+  token: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface TimelockScheduledEvent extends RookEventMeta {
+  actionId: string;
+  executeAfter: number;
+}
+
+export interface TimelockExecutedEvent extends RookEventMeta {
+  actionId: string;
+}
+
+export interface TimelockCancelledEvent extends RookEventMeta {
+  actionId: string;
+}
+
+export interface PausedEvent extends RookEventMeta {
+  account: string;
+}
+
+export interface UnpausedEvent extends RookEventMeta {
+  account: string;
+}
+
+// RookOracle events
+
+export interface ScoreUpdatedEvent extends RookEventMeta {
+  agent: string;
+  identity: number;
+  reputation: number;
+  sybil: number;
+  challengeBonus: number;
+  composite: number;
+}
+
+export interface OperatorUpdatedEvent extends RookEventMeta {
+  operator: string;
+  status: boolean;
+}
+
+export interface WeightsUpdatedEvent extends RookEventMeta {
+  identity: number;
+  reputation: number;
+  sybil: number;
+  history: number;
+  challenge: number;
+}
+
+export interface EscrowUpdatedEvent extends RookEventMeta {
+  oldEscrow: string;
+  newEscrow: string;
+}
+
+export interface RegistriesUpdatedEvent extends RookEventMeta {
+  identity: string;
+  reputation: string;
+}
+
+/**
+ * Event name to decoded event type, for every RookEscrow and RookOracle event
+ */
+export interface RookEventMap {
+  EscrowCreated: EscrowCreatedEvent;
+  EscrowReleased: EscrowReleasedEvent;
+  EscrowRefunded: EscrowRefundedEvent;
+  EscrowDisputed: EscrowDisputedEvent;
+  DisputeResolved: DisputeResolvedEvent;
+  DisputeResolutionScheduled: DisputeResolutionScheduledEvent;
+  DisputeResolutionCancelled: DisputeResolutionCancelledEvent;
+  ChallengeInitiated: ChallengeInitiatedEvent;
+  ChallengeResponded: ChallengeRespondedEvent;
+  ChallengeResolved: ChallengeResolvedEvent;
+  ChallengeStakeSlashed: ChallengeStakeSlashedEvent;
+  ConsentRecorded: ConsentRecordedEvent;
+  FeesCollected: FeesCollectedEvent;
+  OracleUpdated: OracleUpdatedEvent;
+  ProtocolFeeUpdated: ProtocolFeeUpdatedEvent;
+  FeeRecipientUpdated: FeeRecipientUpdatedEvent;
+  TokensRescued: TokensRescuedEvent;
+  TimelockScheduled: TimelockScheduledEvent;
+  TimelockExecuted: TimelockExecutedEvent;
+  TimelockCancelled: TimelockCancelledEvent;
+  Paused: PausedEvent;
+  Unpaused: UnpausedEvent;
+  ScoreUpdated: ScoreUpdatedEvent;
+  OperatorUpdated: OperatorUpdatedEvent;
+  WeightsUpdated: WeightsUpdatedEvent;
+  EscrowUpdated: EscrowUpdatedEvent;
+  RegistriesUpdated: RegistriesUpdatedEvent;
+}
+
+export type RookEventName = keyof RookEventMap;
+
+/** Event fields that subscriptions can filter on */
+export type FilterableEventField =
+  'escrowId' | 'buyer' | 'seller' | 'challenger' | 'initiator' | 'winner' | 'party' | 'agent' | 'operator';
+
+/**
+ * Subscription filter: only the filterable fields the event actually carries
+ */
+export type RookEventFilter<K extends RookEventName> = {
+  [F in Extract<keyof RookEventMap[K], FilterableEventField>]?: string;
+};
+
+/**
+ * One decoded event in an escrow's lifecycle
+ */
+export type EscrowTimelineEntry = {
+  [K in RookEventName]: {
+    type: K;
+    /** Block timestamp (seconds) */
+    timestamp: number;
+    event: RookEventMap[K];
+  }
+}[RookEventName];
+
+export interface EscrowTimeline {
+  escrowId: string;
+  /** Current on-chain status */
+  status: EscrowStatus;
+  /** Events in chain order */
+  entries: EscrowTimelineEntry[];
+}
+
+export interface TimelineOptions {
+  /** First block to search (default: `contracts.deployBlock`) */
+  fromBlock?: number;
+  /** Last block to search (default: latest) */
+  toBlock?: number | 'latest';
+}
+
+export interface SubscribeOptions {
+  /** Polling interval in ms when the provider is HTTP-only (default: RookProtocolOptions.pollingInterval) */
+  pollingInterval?: number;
+  /** Also deliver events from this block onwards (polling mode only, default: latest) */
+  fromBlock?: number;
+  /** Called when polling fails or the callback throws; delivery keeps going */
+  onError?: (error: Error) => void;
+}
+
+// =================================================================
+// WAITING
+// =================================================================
+
+export interface WaitOptions {
+  /** Give up with WAIT_TIMEOUT after this many ms (default: wait until aborted) */
+  timeoutMs?: number;
+  /** Stop waiting (rejects with ABORTED) */
+  signal?: AbortSignal;
+  /** How often the chain state is re-read in ms (default: RookProtocolOptions.pollingInterval) */
+  pollingInterval?: number;
+}
+
+// =================================================================
+// CHALLENGE GUARD
+// =================================================================
+
+export interface ChallengeGuardOptions {
+  /** Start bumping fees when this many blocks of the response window are left (default: 10) */
+  bumpWithinBlocks?: number;
+  /** Fee increase per bump, percent (min and default: 10) */
+  bumpPercent?: number;
+  /** Further attempts after a failed response (1, 2, 4... blocks apart) or oracle submission (default: 2) */
+  retries?: number;
+  /** Called when a challenge is at risk or could not be answered */
+  onAlert?: (alert: ChallengeGuardAlert) => void;
+  /** Called once a challenge is answered on-chain and the proof reached the oracle */
+  onResponse?: (proof: ProofResult) => void;
+  /** Called when the guard hits an error it keeps going after */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * - at_risk: the response is not mined and the window is closing (fees are being bumped)
+ * - missed: the response window closed without a response
+ * - failed: the response could not be sent
+ * - oracle_failed: the response is on-chain but the oracle did not resolve the challenge
+ */
+export type ChallengeGuardAlertType = 'at_risk' | 'missed' | 'failed' | 'oracle_failed';
+
+export interface ChallengeGuardAlert {
+  type: ChallengeGuardAlertType;
+  escrowId: string;
+  message: string;
+  /** Blocks left to get the response mined (negative once the window closed) */
+  blocksLeft: number;
+  error?: RookError;
+}
+
+/**
+ * A challenge the guard is answering
+ */
+export interface GuardedChallenge {
+  escrowId: string;
+  /** Last block a response can be mined in */
+  responseDeadline: number;
+  /** responding: proof being sent; pending: sent, awaiting the receipt */
+  state: 'responding' | 'pending';
+  attempts: number;
+}
+
+// =================================================================
+// ADMIN
+// =================================================================
+
+/**
+ * RookOracle scoring weights (must sum to 100)
+ */
+export interface ScoreWeights {
+  identity: number;
+  reputation: number;
+  sybil: number;
+  history: number;
+  challenge: number;
+}
+
+/**
+ * A RookEscrow admin action scheduled behind TIMELOCK_DELAY
+ */
+export interface TimelockAction {
+  actionId: string;
+  action: 'setOracle';
+  /** Oracle address the action sets (unknown if scheduled through another contract, e.g. a multisig) */
+  oracle?: string;
+  /** Unix time after which it can be executed */
+  executeAfter: number;
+  executed: boolean;
+  /** executeAfter has passed and the action has not been executed */
+  ready: boolean;
+  /** Transaction that scheduled it */
+  txHash: string;
+}
+
+/**
+ * RookEscrow owner-controlled settings
+ */
+export interface EscrowAdminConfig {
+  owner: string;
+  oracle: string;
+  /** Protocol fee in basis points */
+  protocolFeeBps: number;
+  maxFeeBps: number;
+  /** Zero address = no fee is collected */
+  feeRecipient: string;
+  paused: boolean;
+  /** Delay of timelocked admin actions, in seconds */
+  timelockDelay: number;
+}
+
+/**
+ * RookOracle owner-controlled settings
+ */
+export interface OracleAdminConfig {
+  owner: string;
+  escrow: string;
+  identityRegistry: string;
+  reputationRegistry: string;
+  weights: ScoreWeights;
+}
+
+export interface TimelockQueryOptions {
+  /** Block to scan TimelockScheduled events from (default: `contracts.deployBlock`) */
+  fromBlock?: number;
+  /** Include executed actions (default: false) */
+  includeExecuted?: boolean;
+}
+
+// =================================================================
+// ORACLE API
+// =================================================================
+
+export interface OracleClientOptions {
+  /** Rook oracle service URL */
+  url: string;
+  /** API key for /challenge, /rescore, /webhook and /metrics, sent as x-api-key */
+  apiKey?: string;
+  /** Per-request timeout in ms (default: 10000) */
+  timeout?: number;
+  /** Retries after network errors, timeouts, 429 and 502-504 answers (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled on every retry (default: 500) */
+  retryDelay?: number;
+}
+
+/**
+ * Trust score computed by the oracle, each component 0-100
+ */
+export interface TrustScoreResult {
+  identity: number;
+  reputation: number;
+  sybil: number;
+  history: number;
+  challengeBonus: number;
+  composite: number;
+}
+
+/**
+ * Oracle answer to a POST /verify
+ */
+export interface OracleVerifyResponse {
+  agent: string;
+  score: TrustScoreResult;
+  /** When the score was computed, in ms */
+  timestamp: number;
+}
+
+/**
+ * Oracle answer to a POST /rescore
+ */
+export interface OracleRescoreResponse extends OracleVerifyResponse {
+  /** updateScores transaction */
+  txHash: string;
+}
+
+/**
+ * Oracle answer to a GET /resolve/:handle
+ */
+export interface OracleResolveResponse {
+  handle: string;
+  address: string;
+}
+
+export interface OracleHealth {
+  status: 'ok';
+  service: string;
+  /** Process uptime in seconds */
+  uptime: number;
+  /** A scoring service is configured (POST /verify answers 503 otherwise) */
+  scoring: boolean;
+}
+
+/**
+ * Latency and success stats of one oracle operation, in ms
+ */
+export interface OracleOperationStats {
+  operation: string;
+  count: number;
+  average: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  /** Percentage, e.g. "99.50%" */
+  successRate: string;
+}
+
+export interface OracleMetrics {
+  stats: OracleOperationStats[];
+  /** Score cache hit rate, 0-100 */
+  cacheHitRate: number;
+}
+
+/**
+ * Body of a POST /challenge
+ */
+export interface OracleChallengeRequest {
+  escrowId: string;
+  /** Seller signature over the challenge digest */
+  signature: string;
+  /** Timestamp committed in the on-chain response hash (the oracle then checks the hash too) */
+  timestamp?: number;
+  /** 'resolve' to resolve the challenge on-chain as passed */
+  action?: 'resolve';
+}
+
+export type OracleWebhookEvent =
+  | 'escrow.created'
+  | 'escrow.challenged'
+  | 'escrow.disputed'
+  | 'escrow.release_requested';
+
+export interface OracleWebhookData {
+  escrowId: string;
+  seller?: string;
+  moltbookHandle?: string;
+  challenger?: string;
+  evidence?: string;
+  /** Distinguishes repeated events of one escrow (the oracle drops duplicates) */
+  timestamp?: number;
+}
+
+/**
+ * Oracle answer to a POST /webhook
+ */
+export interface OracleWebhookResponse {
+  received: boolean;
+  /** The event was already processed */
+  duplicate?: boolean;
+  /** Processing failed after the event was received */
+  error?: string;
+}
+
+// =================================================================
+// MOCK
+// =================================================================
+
+export interface MockRookOptions {
+  /** Address the instance sends as (without one, writes throw NO_SIGNER) */
+  address?: string;
+  /** Escrow owner, who resolves disputes (default: `address`) */
+  owner?: string;
+  /** Oracle operators, who release escrows and resolve challenges */
+  operators?: string[];
+  /** Timestamp of the latest block (default: now) */
+  timestamp?: number;
+  /** Latest block number (default: 1) */
+  blockNumber?: number;
+  /** Seconds between blocks (default: 2, as on Base) */
+  blockTime?: number;
+  /** Mine each write in a block of its own, as a live chain does (default: true) */
+  automine?: boolean;
+  /** Protocol fee in basis points (default: 0) */
+  feeBps?: number;
+  /** Where protocol fees go (no fee is taken without one) */
+  feeRecipient?: string;
+  /** Chain ID getChainId reports (default: Base Sepolia's) */
+  chainId?: number;
+  /** Buyer rules createEscrow enforces, as RookProtocolOptions.policy */
+  policy?: BuyerPolicy;
+  /** Spending caps and approvals, as RookProtocolOptions.spending (windows follow the mock clock) */
+  spending?: SpendingOptions;
+}
+
+/**
+ * Scores an oracle operator pushes with updateScores, each 0-100
+ *
+ * The escrow history score is derived from the agent's escrows, as on-chain.
+ */
+export interface MockScores {
+  identity: number;
+  reputation: number;
+  sybil: number;
+  challengeBonus?: number;
+}
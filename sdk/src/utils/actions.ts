@@ -0,0 +1,134 @@
+import {
+  AvailableAction,
+  ChallengeDetails,
+  EscrowAction,
+  EscrowResult,
+  ReleaseConsent
+} from '../types';
+import { CHALLENGE_BLOCKS, CHALLENGE_RESPONSE_WINDOW } from './constants';
+
+/**
+ * Chain state getEscrowActions decides on
+ */
+export interface EscrowActionState {
+  escrow: EscrowResult;
+  challenge: ChallengeDetails | null;
+  /** Address of the caller to advise */
+  caller: string;
+  /** Latest block and its timestamp */
+  blockNumber: number;
+  now: number;
+  /** The caller is an oracle operator */
+  isOperator: boolean;
+  /** RookEscrow.ORACLE_TIMEOUT, in seconds */
+  oracleTimeout: number;
+  /** RookEscrow.getNextChallengeTime of the caller (0 if allowed now) */
+  nextChallengeTime: number;
+  /** Consent so far (needed while the escrow is active and the caller a party) */
+  consent: ReleaseConsent | null;
+  /** RookEscrow is paused (release, consent, refund, dispute and challenge revert) */
+  paused: boolean;
+}
+
+/**
+ * Apply the contract's rules to decide which escrow actions the caller can take
+ */
+export function getEscrowActions(state: EscrowActionState): AvailableAction[] {
+  const { escrow, challenge, caller, now, consent } = state;
+  // A transaction sent now is mined in the next block at the earliest
+  const nextBlock = state.blockNumber + 1;
+
+  const isBuyer = caller.toLowerCase() === escrow.buyer.toLowerCase();
+  const isSeller = caller.toLowerCase() === escrow.seller.toLowerCase();
+  const isParty = isBuyer || isSeller;
+  const isActive = escrow.status === 'Active';
+  const expiresAt = escrow.expiresAt!;
+  const expired = now > expiresAt;
+  const notActive = `Escrow is ${escrow.status.toLowerCase()}, not active`;
+  const paused = 'Protocol is paused';
+
+  const actions: AvailableAction[] = [];
+  const allow = (action: EscrowAction, gate: Omit<AvailableAction, 'action' | 'allowed'> = {}) =>
+    actions.push({ action, allowed: true, ...gate });
+  const deny = (action: EscrowAction, reason: string, gate: Omit<AvailableAction, 'action' | 'allowed' | 'reason'> = {}) =>
+    actions.push({ action, allowed: false, reason, ...gate });
+
+  // release, releaseWithConsent, refund, dispute and challenge are whenNotPaused;
+  // claimExpired, respondChallenge and claimTimeout stay open while paused
+
+  // release: oracle operator, while active and unexpired
+  if (state.paused) deny('release', paused);
+  else if (!isActive) deny('release', notActive);
+  else if (!state.isOperator) deny('release', 'Only oracle operators can release escrows');
+  else if (expired) deny('release', 'Escrow has expired');
+  else allow('release', { latestTime: expiresAt });
+
+  // releaseWithConsent: either party, after the oracle timeout and before expiry
+  const consentOpens = escrow.createdAt! + state.oracleTimeout;
+  if (state.paused) deny('releaseWithConsent', paused);
+  else if (!isActive) deny('releaseWithConsent', notActive);
+  else if (!isParty) deny('releaseWithConsent', 'Only the buyer or seller can consent to release');
+  else if (expired) deny('releaseWithConsent', 'Escrow has expired');
+  else if (now < consentOpens) {
+    deny('releaseWithConsent', 'Oracle timeout has not passed yet',
+      { earliestTime: consentOpens, latestTime: expiresAt });
+  } else if (consent && (isBuyer ? consent.buyer : consent.seller)) {
+    deny('releaseWithConsent', `Already consented, waiting for the ${isBuyer ? 'seller' : 'buyer'}`);
+  } else allow('releaseWithConsent', { earliestTime: consentOpens, latestTime: expiresAt });
+
+  // refund: buyer, while active
+  if (state.paused) deny('refund', paused);
+  else if (!isActive) deny('refund', notActive);
+  else if (!isBuyer) deny('refund', 'Only the buyer can refund');
+  else allow('refund');
+
+  // claimExpired: buyer, once an active escrow has expired
+  if (!isActive) deny('claimExpired', notActive);
+  else if (!isBuyer) deny('claimExpired', 'Only the buyer can claim an expired escrow');
+  else if (!expired) deny('claimExpired', 'Escrow has not expired yet', { earliestTime: expiresAt + 1 });
+  else allow('claimExpired', { earliestTime: expiresAt + 1 });
+
+  // dispute: either party, while active or challenged
+  if (state.paused) deny('dispute', paused);
+  else if (escrow.status !== 'Active' && escrow.status !== 'Challenged') {
+    deny('dispute', `Escrow is ${escrow.status.toLowerCase()}, not active or challenged`);
+  } else if (!isParty) deny('dispute', 'Only the buyer or seller can dispute');
+  else allow('dispute');
+
+  // challenge: anyone but the seller, once per escrow, outside the caller's cooldown
+  if (state.paused) deny('challenge', paused);
+  else if (!isActive) deny('challenge', notActive);
+  else if (isSeller) deny('challenge', 'The seller cannot challenge their own escrow');
+  else if (expired) deny('challenge', 'Escrow has expired');
+  else if (challenge && challenge.status !== 'None') deny('challenge', 'A challenge already exists for this escrow');
+  else if (state.nextChallengeTime > expiresAt) deny('challenge', 'Challenge cooldown ends after the escrow expires');
+  else if (state.nextChallengeTime > now) {
+    deny('challenge', 'Challenge cooldown is still active for this address',
+      { earliestTime: state.nextChallengeTime, latestTime: expiresAt });
+  } else allow('challenge', { latestTime: expiresAt });
+
+  // respondChallenge: seller, within the response window of an active challenge
+  const responseDeadline = challenge
+    ? challenge.deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW
+    : 0;
+  if (!challenge || challenge.status !== 'Active') {
+    deny('respondChallenge', challenge?.status === 'Responded'
+      ? 'Challenge already answered, awaiting oracle resolution'
+      : 'No active challenge');
+  } else if (!isSeller) deny('respondChallenge', 'Only the seller can respond to a challenge');
+  else if (nextBlock > responseDeadline) deny('respondChallenge', 'Challenge response window has closed');
+  else allow('respondChallenge', { latestBlock: responseDeadline });
+
+  // claimTimeout: challenger, after the deadline of an unanswered challenge
+  if (!challenge || challenge.status !== 'Active') {
+    deny('claimTimeout', challenge?.status === 'Responded'
+      ? 'Seller responded to the challenge'
+      : 'No active challenge');
+  } else if (caller.toLowerCase() !== challenge.challenger.toLowerCase()) {
+    deny('claimTimeout', 'Only the challenger can claim the timeout');
+  } else if (nextBlock <= challenge.deadline) {
+    deny('claimTimeout', 'Challenge deadline has not been reached yet', { earliestBlock: challenge.deadline + 1 });
+  } else allow('claimTimeout', { earliestBlock: challenge.deadline + 1 });
+
+  return actions;
+}
@@ -0,0 +1,115 @@
+import { FetchRequest } from 'ethers';
+import { SpendApprover, SpendRequest } from '../types';
+import { RookError, ErrorCodes } from './errors';
+
+/**
+ * JSON form of a spend request (bigints as decimal strings)
+ */
+function serializeRequest(request: SpendRequest): string {
+  return JSON.stringify(request, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2);
+}
+
+/**
+ * Ask an HTTP endpoint
+ *
+ * POSTs the request as JSON and approves when the endpoint answers 2xx with
+ * `{ "approved": true }`. The endpoint may hold the request open while a
+ * human decides, up to `timeout`.
+ *
+ * @param url - Approval endpoint
+ * @param options - Extra `headers` (e.g. authorization), `timeout` in ms (default: 5 minutes)
+ */
+export function webhookApprover(
+  url: string,
+  options: { headers?: Record<string, string>; timeout?: number } = {}
+): SpendApprover {
+  return async (request) => {
+    const fetch = new FetchRequest(url);
+    fetch.method = 'POST';
+    fetch.timeout = options.timeout ?? 5 * 60 * 1000;
+    fetch.setHeader('content-type', 'application/json');
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      fetch.setHeader(name, value);
+    }
+    fetch.body = serializeRequest(request);
+
+    const response = await fetch.send();
+    if (!response.ok()) {
+      throw new RookError(ErrorCodes.NETWORK_ERROR,
+        `Approval webhook answered ${response.statusCode} ${response.statusMessage}`);
+    }
+    return response.bodyJson?.approved === true;
+  };
+}
+
+/**
+ * Queue requests as files for an operator (Node.js only)
+ *
+ * Writes `<dir>/pending/<id>.json` and waits for the operator to move it to
+ * `<dir>/approved/` or `<dir>/rejected/`. Unanswered requests are rejected
+ * after `timeout` and removed from pending.
+ *
+ * @param dir - Queue directory
+ * @param options - `timeout` in ms (default: 15 minutes), `pollInterval` in ms (default: 2000)
+ */
+export function fileApprover(
+  dir: string,
+  options: { timeout?: number; pollInterval?: number } = {}
+): SpendApprover {
+  const timeout = options.timeout ?? 15 * 60 * 1000;
+  const pollInterval = options.pollInterval ?? 2000;
+
+  return async (request) => {
+    const [fs, path] = await Promise.all([import('fs/promises'), import('path')]);
+    const file = `${request.id}.json`;
+    const pending = path.join(dir, 'pending', file);
+    const exists = (folder: string) => fs.access(path.join(dir, folder, file)).then(() => true, () => false);
+
+    await fs.mkdir(path.join(dir, 'pending'), { recursive: true });
+    await fs.writeFile(pending, serializeRequest(request));
+
+    const giveUpAt = Date.now() + timeout;
+    while (Date.now() < giveUpAt) {
+      if (await exists('approved')) return true;
+      if (await exists('rejected')) return false;
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+    await fs.rm(pending, { force: true });
+    return false;
+  };
+}
+
+/**
+ * Ask on the terminal (Node.js only)
+ *
+ * Prompts one request at a time and approves on "y" or "yes".
+ *
+ * @param options - Streams to use (default: process.stdin and process.stdout)
+ */
+export function promptApprover(
+  options: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}
+): SpendApprover {
+  // Concurrent spends would interleave their prompts
+  let turn: Promise<unknown> = Promise.resolve();
+
+  return (request) => {
+    const ask = turn.then(async () => {
+      const readline = await import('readline');
+      const rl = readline.createInterface({
+        input: options.input ?? process.stdin,
+        output: options.output ?? process.stdout
+      });
+      const subject = request.kind === 'escrow'
+        ? `escrow of ${request.amountDecimal} USDC with ${request.counterparty}${request.job ? ` (${request.job})` : ''}`
+        : `challenge stake of ${request.amountDecimal} USDC on ${request.escrowId}`;
+      try {
+        const answer = await new Promise<string>((resolve) => rl.question(`Approve ${subject}? [y/N] `, resolve));
+        return /^y(es)?$/i.test(answer.trim());
+      } finally {
+        rl.close();
+      }
+    });
+    turn = ask.catch(() => undefined);
+    return ask;
+  };
+}
@@ -0,0 +1,334 @@
+import { ethers } from 'ethers';
+import {
+  AmountInput,
+  SpendDecision,
+  SpendKind,
+  SpendRecord,
+  SpendRule,
+  SpendStore,
+  SpendUsage,
+  SpendingOptions
+} from '../types';
+import { RookError, ErrorCodes } from './errors';
+import { toUSDCDecimal } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+/**
+ * A spend to authorize
+ */
+export interface Spend {
+  kind: SpendKind;
+  /** Raw USDC units */
+  amount: bigint;
+  /** Seller of the escrow */
+  counterparty: string;
+  escrowId?: string;
+  job?: string;
+}
+
+/**
+ * Spend records kept in memory (lost on restart)
+ */
+export class MemorySpendStore implements SpendStore {
+  readonly decisions: SpendDecision[] = [];
+  private records: SpendRecord[] = [];
+
+  async load(): Promise<SpendRecord[]> {
+    return this.records.map((record) => ({ ...record }));
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    this.records = records.map((record) => ({ ...record }));
+  }
+
+  async log(decision: SpendDecision): Promise<void> {
+    this.decisions.push(decision);
+  }
+}
+
+/**
+ * Spend records in a JSON file, decisions appended to a JSON Lines log (Node.js only)
+ *
+ * The records file is written aside and renamed over, so a crash mid-write
+ * leaves the previous state. The log defaults to the records path with
+ * `.log.jsonl` in place of `.json`.
+ */
+export class FileSpendStore implements SpendStore {
+  readonly logPath: string;
+
+  constructor(readonly path: string, logPath?: string) {
+    this.logPath = logPath ?? path.replace(/(\.json)?$/, '.log.jsonl');
+  }
+
+  async load(): Promise<SpendRecord[]> {
+    const fs = await import('fs/promises');
+    let text: string;
+    try {
+      text = await fs.readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    return JSON.parse(text).records ?? [];
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    const [fs, path] = await Promise.all([import('fs/promises'), import('path')]);
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ version: 1, records }, null, 2));
+    await fs.rename(temp, this.path);
+  }
+
+  async log(decision: SpendDecision): Promise<void> {
+    const [fs, path] = await Promise.all([import('fs/promises'), import('path')]);
+    await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+    await fs.appendFile(this.logPath, JSON.stringify(decision) + '\n');
+  }
+}
+
+/**
+ * Enforces SpendingOptions for one signer
+ *
+ * Spends are reserved when authorized, so concurrent requests cannot both
+ * fit under a cap, then confirmed with commit() or given back with
+ * release(). Reserved spends found in the store after a restart keep
+ * counting, as their transactions may have been mined. Records older than
+ * the weekly window are pruned on save.
+ */
+export class SpendBudget {
+  private records: SpendRecord[] = [];
+  private loaded: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private store: SpendStore;
+  private caps: Record<Exclude<SpendRule, 'approval'>, bigint | null>;
+  private approvalThreshold: bigint | null;
+
+  /**
+   * @param options - Caps, approver and store
+   * @param clock - Current time in ms (default: Date.now)
+   */
+  constructor(private options: SpendingOptions, private clock: () => number = Date.now) {
+    this.store = options.store ?? new MemorySpendStore();
+    this.caps = {
+      daily: toCap(options.daily),
+      weekly: toCap(options.weekly),
+      perCounterparty: toCap(options.perCounterparty),
+      challengeStakes: toCap(options.challengeStakes)
+    };
+    this.approvalThreshold = toCap(options.approvalThreshold);
+  }
+
+  /**
+   * Reserve a spend: within every cap and, above the approval threshold, approved
+   *
+   * Throws BUDGET_EXCEEDED (`details: { rule, limit, used, amount }`) or
+   * APPROVAL_REJECTED (`details: { requestId, reason }`).
+   *
+   * @returns Reservation id for commit() or release()
+   */
+  async authorize(spend: Spend): Promise<string> {
+    await this.load();
+    const id = ethers.hexlify(ethers.randomBytes(8));
+    const now = this.clock();
+    const usage = this.usageAt(now);
+
+    const broken = this.brokenCap(spend, usage);
+    if (broken) {
+      await this.decide(id, spend, 'denied', broken.rule, broken.error.message);
+      throw broken.error;
+    }
+
+    // Reserved before asking, so spends authorized meanwhile count it
+    const record: SpendRecord = {
+      id,
+      kind: spend.kind,
+      amount: spend.amount.toString(),
+      counterparty: spend.counterparty.toLowerCase(),
+      timestamp: now,
+      status: 'reserved',
+      escrowId: spend.escrowId
+    };
+    this.records.push(record);
+
+    try {
+      if (this.approvalThreshold === null || spend.amount <= this.approvalThreshold) {
+        await this.decide(id, spend, 'allowed');
+      } else {
+        const reason = await this.askApproval(id, spend, usage);
+        if (reason) {
+          await this.decide(id, spend, 'rejected', 'approval', reason);
+          throw new RookError(ErrorCodes.APPROVAL_REJECTED,
+            `${describe(spend)} was not approved: ${reason}`, { requestId: id, reason });
+        }
+        await this.decide(id, spend, 'approved', 'approval');
+      }
+      await this.persist();
+    } catch (error) {
+      this.records = this.records.filter((r) => r !== record);
+      throw error;
+    }
+    return id;
+  }
+
+  /**
+   * Check a spend against the caps without reserving it (a broken cap is logged as denied)
+   */
+  async check(spend: Spend): Promise<void> {
+    await this.load();
+    const broken = this.brokenCap(spend, this.usageAt(this.clock()));
+    if (broken) {
+      await this.decide(ethers.hexlify(ethers.randomBytes(8)), spend, 'denied', broken.rule, broken.error.message);
+      throw broken.error;
+    }
+  }
+
+  /**
+   * Mark a reserved spend as confirmed on-chain
+   */
+  async commit(id: string, details: { escrowId?: string; txHash?: string } = {}): Promise<void> {
+    const record = this.records.find((r) => r.id === id);
+    if (!record) return;
+    record.status = 'spent';
+    if (details.escrowId) record.escrowId = details.escrowId;
+    if (details.txHash) record.txHash = details.txHash;
+    await this.persist();
+  }
+
+  /**
+   * Give a reserved spend back (its transaction was never sent or reverted)
+   */
+  async release(id: string): Promise<void> {
+    this.records = this.records.filter((r) => r.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Spend in the current windows, reserved spends included
+   */
+  async getUsage(): Promise<SpendUsage> {
+    await this.load();
+    return this.usageAt(this.clock());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then((records) => {
+        this.records = [...records, ...this.records];
+      }).catch((error) => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const since = this.clock() - WEEK;
+    this.records = this.records.filter((r) => r.timestamp > since);
+    const snapshot = this.records.map((r) => ({ ...r }));
+    // Saves land in order
+    const run = this.saving.catch(() => undefined).then(() => this.store.save(snapshot));
+    this.saving = run;
+    return run;
+  }
+
+  private usageAt(now: number): SpendUsage {
+    const usage: SpendUsage = { daily: 0n, weekly: 0n, challengeStakes: 0n, perCounterparty: {} };
+    for (const record of this.records) {
+      if (record.timestamp <= now - WEEK) continue;
+      const amount = BigInt(record.amount);
+      usage.weekly += amount;
+      if (record.timestamp > now - DAY) usage.daily += amount;
+      if (record.kind === 'challenge') {
+        usage.challengeStakes += amount;
+      } else {
+        usage.perCounterparty[record.counterparty] = (usage.perCounterparty[record.counterparty] ?? 0n) + amount;
+      }
+    }
+    return usage;
+  }
+
+  private brokenCap(spend: Spend, usage: SpendUsage): { rule: SpendRule; error: RookError } | null {
+    const counterparty = spend.counterparty.toLowerCase();
+    const checks: Array<[Exclude<SpendRule, 'approval'>, bigint, string]> = [
+      ['daily', usage.daily, 'daily'],
+      ['weekly', usage.weekly, 'weekly']
+    ];
+    if (spend.kind === 'escrow') {
+      checks.push(['perCounterparty', usage.perCounterparty[counterparty] ?? 0n, 'per-seller']);
+    } else {
+      checks.push(['challengeStakes', usage.challengeStakes, 'weekly challenge stake']);
+    }
+
+    for (const [rule, used, label] of checks) {
+      const limit = this.caps[rule];
+      if (limit === null || used + spend.amount <= limit) continue;
+      return {
+        rule,
+        error: new RookError(ErrorCodes.BUDGET_EXCEEDED,
+          `${describe(spend)} would exceed the ${label} budget (${toUSDCDecimal(used)} of ${toUSDCDecimal(limit)} USDC used)`,
+          { rule, limit, used, amount: spend.amount })
+      };
+    }
+    return null;
+  }
+
+  /**
+   * @returns Why the spend was not approved (null if approved)
+   */
+  private async askApproval(id: string, spend: Spend, usage: SpendUsage): Promise<string | null> {
+    if (!this.options.approve) return `above ${toUSDCDecimal(this.approvalThreshold!)} USDC and no approver is set`;
+    try {
+      const approved = await this.options.approve({
+        id,
+        ...spend,
+        amountDecimal: toUSDCDecimal(spend.amount),
+        usage
+      });
+      return approved === true ? null : 'rejected by the approver';
+    } catch (error: any) {
+      return `approver failed: ${error.message}`;
+    }
+  }
+
+  private async decide(
+    id: string,
+    spend: Spend,
+    outcome: SpendDecision['outcome'],
+    rule?: SpendRule,
+    reason?: string
+  ): Promise<void> {
+    const decision: SpendDecision = {
+      requestId: id,
+      kind: spend.kind,
+      amount: spend.amount.toString(),
+      counterparty: spend.counterparty,
+      escrowId: spend.escrowId,
+      outcome,
+      rule,
+      reason,
+      timestamp: this.clock()
+    };
+    this.options.onDecision?.(decision);
+    await this.store.log(decision);
+  }
+}
+
+function describe(spend: Spend): string {
+  const amount = `${toUSDCDecimal(spend.amount)} USDC`;
+  return spend.kind === 'escrow'
+    ? `Escrow of ${amount} with ${spend.counterparty}`
+    : `Challenge stake of ${amount} on ${spend.escrowId}`;
+}
+
+function toCap(amount?: AmountInput): bigint | null {
+  if (amount === undefined) return null;
+  try {
+    return typeof amount === 'bigint' ? amount : ethers.parseUnits(amount.toString(), 6);
+  } catch {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, `Invalid spending limit: ${amount}`);
+  }
+}
@@ -1,14 +1,17 @@
-// Contract addresses by network
-export const CONTRACTS: Record<string, { escrow: string; oracle: string; usdc: string }> = {
+// Contract addresses by network (zero = not deployed yet, pass RookConfig.contracts),
+// with the block the Rook contracts were deployed at (event scans start there)
+export const CONTRACTS: Record<string, { escrow: string; oracle: string; usdc: string; deployBlock: number }> = {
   'base-sepolia': {
-    escrow: process.env.ROOK_ESCROW_ADDRESS || '0x0000000000000000000000000000000000000000',
-    oracle: process.env.ROOK_ORACLE_ADDRESS || '0x0000000000000000000000000000000000000000',
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' // Base Sepolia USDC
+    escrow: '0x0000000000000000000000000000000000000000',
+    oracle: '0x0000000000000000000000000000000000000000',
+    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia USDC
+    deployBlock: 0
   },
   'base': {
-    escrow: process.env.ROOK_ESCROW_ADDRESS || '0x0000000000000000000000000000000000000000',
-    oracle: process.env.ROOK_ORACLE_ADDRESS || '0x0000000000000000000000000000000000000000',
-    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' // Base Mainnet USDC
+    escrow: '0x0000000000000000000000000000000000000000',
+    oracle: '0x0000000000000000000000000000000000000000',
+    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base Mainnet USDC
+    deployBlock: 0
   }
 };
 
@@ -21,6 +24,9 @@ export const CHALLENGE_STAKE = 5;
 // Challenge timeout in blocks (~2 minutes on Base)
 export const CHALLENGE_BLOCKS = 50;
 
+// Blocks after initiation in which the seller can respond to a challenge
+export const CHALLENGE_RESPONSE_WINDOW = 25;
+
 // Default escrow expiry (7 days in seconds)
 export const DEFAULT_EXPIRY = 7 * 24 * 60 * 60;
 
@@ -40,3 +46,9 @@ export const RISK_LEVELS = {
   ELEVATED: { min: 0.50, action: 'Manual review recommended' },
   HIGH: { min: 0, action: 'Challenge required' }
 };
+
+// Chain IDs by network
+export const CHAIN_IDS: Record<string, number> = {
+  'base-sepolia': 84532,
+  'base': 8453
+};
@@ -1,6 +1,8 @@
 export enum ErrorCodes {
   NO_SIGNER = 'NO_SIGNER',
+  INVALID_SIGNER = 'INVALID_SIGNER',
   INVALID_NETWORK = 'INVALID_NETWORK',
+  CHAIN_MISMATCH = 'CHAIN_MISMATCH',
   INVALID_AGENT = 'INVALID_AGENT',
   INVALID_METHOD = 'INVALID_METHOD',
   INVALID_AMOUNT = 'INVALID_AMOUNT',
@@ -18,6 +20,41 @@ export enum ErrorCodes {
   NOT_IMPLEMENTED = 'NOT_IMPLEMENTED',
   ORACLE_ERROR = 'ORACLE_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  // Decoded contract reverts
+  ESCROW_EXPIRED = 'ESCROW_EXPIRED',
+  ESCROW_NOT_EXPIRED = 'ESCROW_NOT_EXPIRED',
+  ESCROW_NOT_DISPUTED = 'ESCROW_NOT_DISPUTED',
+  CHALLENGE_NOT_ACTIVE = 'CHALLENGE_NOT_ACTIVE',
+  CHALLENGE_COOLDOWN_ACTIVE = 'CHALLENGE_COOLDOWN_ACTIVE',
+  CHALLENGE_RESPONSE_WINDOW_EXPIRED = 'CHALLENGE_RESPONSE_WINDOW_EXPIRED',
+  SELF_CHALLENGE = 'SELF_CHALLENGE',
+  INVALID_RESPONSE = 'INVALID_RESPONSE',
+  ORACLE_TIMEOUT_NOT_MET = 'ORACLE_TIMEOUT_NOT_MET',
+  EVIDENCE_TOO_LONG = 'EVIDENCE_TOO_LONG',
+  DISPUTE_NOT_FOUND = 'DISPUTE_NOT_FOUND',
+  DISPUTE_ALREADY_RESOLVED = 'DISPUTE_ALREADY_RESOLVED',
+  DISPUTE_RESOLUTION_PENDING = 'DISPUTE_RESOLUTION_PENDING',
+  DISPUTE_RESOLUTION_NOT_FOUND = 'DISPUTE_RESOLUTION_NOT_FOUND',
+  TIMELOCK_NOT_READY = 'TIMELOCK_NOT_READY',
+  TIMELOCK_NOT_FOUND = 'TIMELOCK_NOT_FOUND',
+  ALREADY_EXECUTED = 'ALREADY_EXECUTED',
+  FEE_TOO_HIGH = 'FEE_TOO_HIGH',
+  INVALID_SCORE = 'INVALID_SCORE',
+  INVALID_WEIGHTS = 'INVALID_WEIGHTS',
+  STALE_SCORE = 'STALE_SCORE',
+  POLICY_VIOLATION = 'POLICY_VIOLATION',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
+  APPROVAL_REJECTED = 'APPROVAL_REJECTED',
+  CONTRACT_PAUSED = 'CONTRACT_PAUSED',
+  CONTRACT_REVERT = 'CONTRACT_REVERT',
+  // Transaction lifecycle
+  FEE_CAP_EXCEEDED = 'FEE_CAP_EXCEEDED',
+  TX_NOT_FOUND = 'TX_NOT_FOUND',
+  TX_ALREADY_MINED = 'TX_ALREADY_MINED',
+  TX_CANCELLED = 'TX_CANCELLED',
+  // Waits
+  WAIT_TIMEOUT = 'WAIT_TIMEOUT',
+  ABORTED = 'ABORTED',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -35,8 +72,10 @@ export class RookError extends Error {
 
 function getDefaultMessage(code: ErrorCodes): string {
   const messages: Record<ErrorCodes, string> = {
-    [ErrorCodes.NO_SIGNER]: 'No signer available. Provide a private key in config.',
-    [ErrorCodes.INVALID_NETWORK]: 'Invalid network specified. Use "base-sepolia" or "base".',
+    [ErrorCodes.NO_SIGNER]: 'No signer available. Provide a signer or private key in config.',
+    [ErrorCodes.INVALID_SIGNER]: 'Invalid signer. Use an ethers Signer, EIP-1193 provider, or signing callbacks.',
+    [ErrorCodes.INVALID_NETWORK]: 'Invalid network specified. Use "base-sepolia", "base", or a custom network with chainId and contracts.',
+    [ErrorCodes.CHAIN_MISMATCH]: 'Connected chain does not match the configured network.',
     [ErrorCodes.INVALID_AGENT]: 'Invalid agent identifier. Use address, @handle, or ENS.',
     [ErrorCodes.INVALID_METHOD]: 'Invalid proof method. Use "wallet_signature" or "behavioral".',
     [ErrorCodes.INVALID_AMOUNT]: 'Invalid amount specified.',
@@ -54,6 +93,38 @@ function getDefaultMessage(code: ErrorCodes): string {
     [ErrorCodes.NOT_IMPLEMENTED]: 'This feature is not yet implemented.',
     [ErrorCodes.ORACLE_ERROR]: 'Oracle error occurred.',
     [ErrorCodes.NETWORK_ERROR]: 'Network connection error.',
+    [ErrorCodes.ESCROW_EXPIRED]: 'Escrow has expired.',
+    [ErrorCodes.ESCROW_NOT_EXPIRED]: 'Escrow has not expired yet.',
+    [ErrorCodes.ESCROW_NOT_DISPUTED]: 'Escrow is not disputed.',
+    [ErrorCodes.CHALLENGE_NOT_ACTIVE]: 'Challenge is not active.',
+    [ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE]: 'Challenge cooldown is still active for this address.',
+    [ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED]: 'Challenge response window has closed.',
+    [ErrorCodes.SELF_CHALLENGE]: 'Sellers cannot challenge their own escrow.',
+    [ErrorCodes.INVALID_RESPONSE]: 'Invalid challenge response.',
+    [ErrorCodes.ORACLE_TIMEOUT_NOT_MET]: 'Oracle timeout has not passed yet.',
+    [ErrorCodes.EVIDENCE_TOO_LONG]: 'Evidence is too long (max 1000 bytes).',
+    [ErrorCodes.DISPUTE_NOT_FOUND]: 'Dispute not found.',
+    [ErrorCodes.DISPUTE_ALREADY_RESOLVED]: 'Dispute has already been resolved.',
+    [ErrorCodes.DISPUTE_RESOLUTION_PENDING]: 'A dispute resolution is already scheduled.',
+    [ErrorCodes.DISPUTE_RESOLUTION_NOT_FOUND]: 'No pending dispute resolution.',
+    [ErrorCodes.TIMELOCK_NOT_READY]: 'Timelock delay has not passed yet.',
+    [ErrorCodes.TIMELOCK_NOT_FOUND]: 'Timelock action not found.',
+    [ErrorCodes.ALREADY_EXECUTED]: 'Action has already been executed.',
+    [ErrorCodes.FEE_TOO_HIGH]: 'Protocol fee is too high.',
+    [ErrorCodes.INVALID_SCORE]: 'Scores must be between 0 and 100.',
+    [ErrorCodes.INVALID_WEIGHTS]: 'Score weights must sum to 100.',
+    [ErrorCodes.STALE_SCORE]: 'Trust score is stale.',
+    [ErrorCodes.POLICY_VIOLATION]: 'Escrow violates the buyer policy.',
+    [ErrorCodes.BUDGET_EXCEEDED]: 'Spending budget exceeded.',
+    [ErrorCodes.APPROVAL_REJECTED]: 'Spend was not approved.',
+    [ErrorCodes.CONTRACT_PAUSED]: 'Contract is paused.',
+    [ErrorCodes.CONTRACT_REVERT]: 'Contract call reverted.',
+    [ErrorCodes.FEE_CAP_EXCEEDED]: 'Transaction fee exceeds the configured max fee cap.',
+    [ErrorCodes.TX_NOT_FOUND]: 'Transaction not found.',
+    [ErrorCodes.TX_ALREADY_MINED]: 'Transaction is already mined.',
+    [ErrorCodes.TX_CANCELLED]: 'Transaction was cancelled by a replacement.',
+    [ErrorCodes.WAIT_TIMEOUT]: 'Timed out waiting for the chain state.',
+    [ErrorCodes.ABORTED]: 'Wait was aborted.',
     [ErrorCodes.UNKNOWN]: 'An unknown error occurred.'
   };
   
@@ -0,0 +1,151 @@
+import { FallbackProvider, JsonRpcApiProvider, Provider, toQuantity } from 'ethers';
+import { FeeStrategy, RookLogger, TransactionFees } from '../types';
+import { RookError, ErrorCodes } from './errors';
+import { silentLogger } from './logger';
+
+// Minimum bump nodes accept for a same-nonce replacement is 10%
+export const MIN_FEE_BUMP_PERCENT = 10;
+
+/**
+ * Compute transaction fees for a strategy
+ *
+ * @param logger - Told when the percentile strategy falls back to provider fees
+ */
+export async function resolveFees(
+  provider: Provider,
+  strategy: FeeStrategy,
+  logger: RookLogger = silentLogger
+): Promise<TransactionFees> {
+  let fees: TransactionFees;
+
+  switch (strategy.type) {
+    case 'fixed':
+      fees = { maxFeePerGas: strategy.maxFeePerGas, maxPriorityFeePerGas: strategy.maxPriorityFeePerGas };
+      break;
+    case 'percentile':
+      fees = await percentileFees(provider, strategy.percentile ?? 50, strategy.blocks ?? 10, logger);
+      break;
+    default:
+      fees = await providerFees(provider);
+  }
+
+  return capFees(fees, strategy.maxFeeCap);
+}
+
+/**
+ * Clamp fees to a max fee cap
+ */
+export function capFees(fees: TransactionFees, cap?: bigint): TransactionFees {
+  if (cap === undefined) return fees;
+  if ('gasPrice' in fees) {
+    return { gasPrice: fees.gasPrice > cap ? cap : fees.gasPrice };
+  }
+  const maxFeePerGas = fees.maxFeePerGas > cap ? cap : fees.maxFeePerGas;
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : fees.maxPriorityFeePerGas
+  };
+}
+
+/**
+ * Bump the fees of a pending transaction for replacement
+ *
+ * Uses the larger of the bumped original fees and the current strategy fees.
+ *
+ * @throws FEE_CAP_EXCEEDED if the bumped fee is above the cap (the replacement would be rejected)
+ */
+export function bumpFees(
+  original: TransactionFees,
+  current: TransactionFees,
+  bumpPercent: number,
+  cap?: bigint
+): TransactionFees {
+  const percent = BigInt(Math.max(MIN_FEE_BUMP_PERCENT, Math.ceil(bumpPercent)));
+  const bump = (value: bigint) => (value * (100n + percent) + 99n) / 100n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+  let fees: TransactionFees;
+  if ('gasPrice' in original) {
+    const currentPrice = 'gasPrice' in current ? current.gasPrice : current.maxFeePerGas;
+    fees = { gasPrice: max(bump(original.gasPrice), currentPrice) };
+  } else {
+    const currentFees = 'gasPrice' in current
+      ? { maxFeePerGas: current.gasPrice, maxPriorityFeePerGas: current.gasPrice }
+      : current;
+    const maxPriorityFeePerGas = max(bump(original.maxPriorityFeePerGas), currentFees.maxPriorityFeePerGas);
+    fees = {
+      maxFeePerGas: max(max(bump(original.maxFeePerGas), currentFees.maxFeePerGas), maxPriorityFeePerGas),
+      maxPriorityFeePerGas
+    };
+  }
+
+  const price = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+  if (cap !== undefined && price > cap) {
+    throw new RookError(ErrorCodes.FEE_CAP_EXCEEDED,
+      `Replacement fee ${price} wei exceeds the max fee cap of ${cap} wei`);
+  }
+  return fees;
+}
+
+async function providerFees(provider: Provider): Promise<TransactionFees> {
+  const feeData = await provider.getFeeData();
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+  }
+  if (feeData.gasPrice === null) {
+    throw new RookError(ErrorCodes.NETWORK_ERROR, 'Provider returned no fee data');
+  }
+  return { gasPrice: feeData.gasPrice };
+}
+
+async function percentileFees(
+  provider: Provider,
+  percentile: number,
+  blocks: number,
+  logger: RookLogger
+): Promise<TransactionFees> {
+  let history: any;
+  try {
+    history = await feeHistory(provider, [toQuantity(blocks), 'latest', [percentile]]);
+  } catch (error: any) {
+    logger.warn(`eth_feeHistory failed, using provider fees: ${error.shortMessage ?? error.message}`);
+    return providerFees(provider);
+  }
+  if (!history) {
+    logger.warn('Provider has no JSON-RPC endpoint for eth_feeHistory, using provider fees');
+    return providerFees(provider);
+  }
+
+  const rewards: bigint[] = (history.reward ?? [])
+    .map((reward: string[]) => BigInt(reward[0]))
+    .sort((a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+  // Last entry is the base fee of the next block
+  const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+
+  return { maxFeePerGas: baseFee * 2n + maxPriorityFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * eth_feeHistory through the first JSON-RPC endpoint of a provider
+ * (a FallbackProvider's by priority), or null if it has none
+ */
+async function feeHistory(provider: Provider, params: unknown[]): Promise<any | null> {
+  if (provider instanceof FallbackProvider) {
+    const configs = [...provider.providerConfigs].sort((a, b) => a.priority - b.priority);
+    for (const [index, config] of configs.entries()) {
+      try {
+        const history = await feeHistory(config.provider, params);
+        if (history) return history;
+      } catch (error) {
+        if (index === configs.length - 1) throw error;
+      }
+    }
+    return null;
+  }
+  if (provider instanceof JsonRpcApiProvider) {
+    return provider.send('eth_feeHistory', params);
+  }
+  return null;
+}
@@ -1,15 +1,33 @@
 import { ethers } from 'ethers';
 
+// Decimal strings parseUnits takes at USDC precision
+const USDC_DECIMAL = /^-?\d+(\.\d{1,6})?$/;
+
 /**
  * Format USDC amount for display
+ *
+ * bigint is raw USDC units. bigints and decimal strings are rounded to cents
+ * exactly, without going through a JavaScript number.
  */
 export function formatUSDC(amount: number | string | bigint): string {
-  const num = typeof amount === 'bigint' 
-    ? Number(ethers.formatUnits(amount, 6))
-    : typeof amount === 'string' 
-      ? Number(amount) 
-      : amount;
-  return `$${num.toFixed(2)} USDC`;
+  if (typeof amount === 'string' && USDC_DECIMAL.test(amount.trim())) {
+    amount = ethers.parseUnits(amount.trim(), 6);
+  }
+  if (typeof amount === 'bigint') {
+    const abs = amount < 0n ? -amount : amount;
+    // Half up, from 6 decimals to 2
+    const cents = (abs + 5000n) / 10000n;
+    const sign = amount < 0n && cents > 0n ? '-' : '';
+    return `$${sign}${cents / 100n}.${(cents % 100n).toString().padStart(2, '0')} USDC`;
+  }
+  return `$${Number(amount).toFixed(2)} USDC`;
+}
+
+/**
+ * Exact decimal string of raw USDC units (e.g. 1500000n -> "1.5")
+ */
+export function toUSDCDecimal(units: bigint): string {
+  return ethers.formatUnits(units, 6).replace(/\.0$/, '');
 }
 
 /**
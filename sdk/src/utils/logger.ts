@@ -0,0 +1,36 @@
+import { LogLevel, RookLogger } from '../types';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger writing to the console, prefixed (the `debug` option's logger)
+ *
+ * @param minLevel - Lowest level written (default: 'debug')
+ * @param prefix - Put before every message (default: '[RookProtocol]')
+ */
+export function consoleLogger(minLevel: LogLevel = 'debug', prefix: string = '[RookProtocol]'): RookLogger {
+  const enabled = (level: LogLevel) => LEVELS.indexOf(level) >= LEVELS.indexOf(minLevel);
+  const write = (level: LogLevel, print: (...data: unknown[]) => void) =>
+    (message: string, context?: Record<string, unknown>) => {
+      if (!enabled(level)) return;
+      if (context && Object.keys(context).length > 0) print(`${prefix} ${message}`, context);
+      else print(`${prefix} ${message}`);
+    };
+
+  return {
+    debug: write('debug', console.log),
+    info: write('info', console.log),
+    warn: write('warn', console.warn),
+    error: write('error', console.error)
+  };
+}
+
+/**
+ * Logger that drops everything (the default without `debug`)
+ */
+export const silentLogger: RookLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
@@ -0,0 +1,80 @@
+import { Contract, Signature, Signer, TypedDataDomain, TypedDataEncoder } from 'ethers';
+
+/**
+ * EIP-2612 permit signature, split for the contract's permit entry points
+ */
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+/**
+ * Find the EIP-712 domain of a permit token
+ *
+ * Tokens don't agree on how to expose their domain version, so candidate
+ * domains are checked against the token's DOMAIN_SEPARATOR.
+ *
+ * @returns The domain, or null if the token does not support permit
+ */
+export async function getPermitDomain(token: Contract, chainId: bigint): Promise<TypedDataDomain | null> {
+  let name: string;
+  let separator: string;
+  try {
+    [name, separator] = await Promise.all([token.name(), token.DOMAIN_SEPARATOR()]);
+  } catch {
+    return null;
+  }
+
+  const versions = ['2', '1'];
+  try {
+    versions.unshift(await token.version());
+  } catch {
+    // No version() getter (OpenZeppelin ERC20Permit uses "1")
+  }
+
+  const verifyingContract = await token.getAddress();
+  for (const version of versions) {
+    const domain = { name, version, chainId, verifyingContract };
+    if (TypedDataEncoder.hashDomain(domain) === separator) {
+      return domain;
+    }
+  }
+  return null;
+}
+
+/**
+ * Sign an EIP-2612 permit for `spender` to pull `value` tokens from the signer
+ */
+export async function signPermit(
+  signer: Signer,
+  token: Contract,
+  domain: TypedDataDomain,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const nonce = await token.nonces(owner);
+
+  const signature = Signature.from(await signer.signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline
+  }));
+
+  return { deadline, v: signature.v, r: signature.r, s: signature.s };
+}
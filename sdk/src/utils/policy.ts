@@ -0,0 +1,150 @@
+import { ethers } from 'ethers';
+import {
+  AmountInput,
+  BuyerPolicy,
+  PolicyCheck,
+  PolicyViolation,
+  VerificationResult
+} from '../types';
+import { RookError, ErrorCodes } from './errors';
+import { toUSDCDecimal } from './helpers';
+
+/**
+ * Escrow and seller state evaluatePolicy decides on
+ */
+export interface PolicyState {
+  /** Escrow amount in raw USDC units */
+  amount: bigint;
+  /** Seller address */
+  seller: string;
+  /** Seller's verify() result (null when no rule needs it) */
+  verification: VerificationResult | null;
+  /** Resolved allowlist and denylist addresses */
+  allowlist?: string[];
+  denylist?: string[];
+  /** createEscrow will challenge the escrow (see needsChallenge) */
+  challenge: boolean;
+  /** RookEscrow.getNextChallengeTime of the buyer (0 if allowed now) */
+  nextChallengeTime: number;
+  /** Latest block timestamp */
+  now: number;
+}
+
+/**
+ * Merge per-escrow rules over the default policy
+ */
+export function mergePolicy(base: BuyerPolicy, override: BuyerPolicy = {}): BuyerPolicy {
+  const defined = Object.entries(override).filter(([, value]) => value !== undefined);
+  return { ...base, ...Object.fromEntries(defined) };
+}
+
+/**
+ * Whether a rule needs the seller's score
+ */
+export function policyNeedsScore(policy: BuyerPolicy): boolean {
+  return policy.maxAmount !== undefined || policy.minTrustScore !== undefined
+    || !!policy.requireFresh || (policy.challengeRiskLevels?.length ?? 0) > 0;
+}
+
+/**
+ * Whether createEscrow challenges the escrow it creates
+ *
+ * A stale score's risk level says nothing about the seller (it reads as
+ * HIGH), so it never triggers a challenge: evaluatePolicy rejects it instead.
+ */
+export function needsChallenge(
+  policy: BuyerPolicy,
+  verification: VerificationResult | null,
+  requireChallenge: boolean = false
+): boolean {
+  return requireChallenge
+    || (!!verification?.isFresh && !!policy.challengeRiskLevels?.includes(verification.risk_level));
+}
+
+/**
+ * Apply a buyer policy to a prospective escrow
+ *
+ * Score rules only apply to fresh scores: a stale one breaks `requireFresh`
+ * whether or not the policy sets it, rather than being judged as a score of 0.
+ *
+ * @returns Every rule the escrow breaks (empty if it may be created)
+ */
+export function evaluatePolicy(policy: BuyerPolicy, state: PolicyState): PolicyViolation[] {
+  const { amount, seller, verification } = state;
+  const violations: PolicyViolation[] = [];
+  const isSeller = (address: string) => address.toLowerCase() === seller.toLowerCase();
+
+  if (state.denylist?.some(isSeller)) {
+    violations.push({ rule: 'denylist', message: `Seller ${seller} is on the denylist`, actual: seller });
+  }
+  if (state.allowlist && !state.allowlist.some(isSeller)) {
+    violations.push({ rule: 'allowlist', message: `Seller ${seller} is not on the allowlist`, actual: seller });
+  }
+
+  if (verification && !verification.isFresh) {
+    const rescore = policy.requireFresh === 'rescore' ? '' : `; set requireFresh: 'rescore' to rescore first`;
+    violations.push({
+      rule: 'requireFresh',
+      message: verification.lastUpdated === null
+        ? `Seller ${seller} has never been scored${rescore}`
+        : `Seller score is stale (last updated at ${verification.lastUpdated})${rescore}`,
+      actual: verification.lastUpdated ?? undefined
+    });
+  } else if (verification) {
+    if (policy.minTrustScore !== undefined && verification.trust_score < policy.minTrustScore) {
+      violations.push({
+        rule: 'minTrustScore',
+        message: `Seller trust score ${verification.trust_score} is below the minimum ${policy.minTrustScore}`,
+        limit: policy.minTrustScore,
+        actual: verification.trust_score
+      });
+    }
+
+    const cap = policy.maxAmount?.[verification.risk_level];
+    if (cap !== undefined) {
+      const limit = toUnits(cap);
+      if (amount > limit) {
+        violations.push({
+          rule: 'maxAmount',
+          message: `${toUSDCDecimal(amount)} USDC is above the ${toUSDCDecimal(limit)} USDC cap for ${verification.risk_level} risk sellers`,
+          limit: limit.toString(),
+          actual: amount.toString()
+        });
+      }
+    }
+  }
+
+  if (state.challenge && state.nextChallengeTime > state.now) {
+    violations.push({
+      rule: 'challenge',
+      message: `A challenge is required but the buyer's challenge cooldown runs until ${state.nextChallengeTime}`,
+      limit: state.nextChallengeTime,
+      actual: state.now
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * POLICY_VIOLATION error for a failed check, naming the first rule broken
+ *
+ * `details` holds the seller, the rules broken and every violation.
+ */
+export function policyViolationError(check: PolicyCheck): RookError {
+  const [first, ...rest] = check.violations;
+  const more = rest.length > 0 ? ` (and ${rest.length} more)` : '';
+  return new RookError(ErrorCodes.POLICY_VIOLATION, `Buyer policy violated: ${first.message}${more}`, {
+    seller: check.seller,
+    rules: check.violations.map((violation) => violation.rule),
+    violations: check.violations
+  });
+}
+
+function toUnits(amount: AmountInput): bigint {
+  try {
+    return typeof amount === 'bigint' ? amount : ethers.parseUnits(amount.toString(), 6);
+  } catch {
+    throw new RookError(ErrorCodes.INVALID_AMOUNT, `Invalid policy amount: ${amount}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { Signer, ethers } from 'ethers';
+
+/**
+ * Digest a seller signs to prove control of its wallet for a challenge
+ *
+ * Matches the oracle's verifyChallenge: keccak256(abi.encodePacked(escrowId)),
+ * signed as an EIP-191 personal message.
+ */
+export function challengeDigest(escrowId: string): string {
+  return ethers.keccak256(ethers.solidityPacked(['bytes32'], [escrowId]));
+}
+
+/**
+ * Sign the challenge digest of an escrow
+ */
+export async function signChallenge(signer: Signer, escrowId: string): Promise<string> {
+  return signer.signMessage(ethers.getBytes(challengeDigest(escrowId)));
+}
+
+/**
+ * Address that signed a challenge proof
+ */
+export function recoverChallengeSigner(escrowId: string, signature: string): string {
+  return ethers.verifyMessage(ethers.getBytes(challengeDigest(escrowId)), signature);
+}
+
+/**
+ * Canonical challenge response hash, as RookEscrow.computeResponseHash:
+ * keccak256(abi.encodePacked(escrowId, signature, timestamp))
+ */
+export function computeResponseHash(escrowId: string, signature: string, timestamp: number | bigint): string {
+  return ethers.keccak256(
+    ethers.solidityPacked(['bytes32', 'bytes', 'uint256'], [escrowId, signature, timestamp])
+  );
+}
@@ -0,0 +1,180 @@
+import { TransactionResponse, ethers } from 'ethers';
+import { TransactionQueueState } from '../types';
+import { RookError, ErrorCodes } from './errors';
+
+/**
+ * Check whether a send failed because of the nonce (stale local nonce,
+ * another process sending from the same wallet, or a same-nonce tx in the mempool)
+ */
+export function isNonceError(error: any): boolean {
+  if (error?.code === 'NONCE_EXPIRED' || error?.code === 'REPLACEMENT_UNDERPRICED') {
+    return true;
+  }
+  const message = String(error?.info?.error?.message ?? error?.error?.message ?? error?.message ?? '');
+  return /nonce too (low|high)|invalid nonce|replacement (transaction )?underpriced/i.test(message);
+}
+
+/**
+ * Check whether a send failed because the node already has this exact
+ * transaction (an earlier broadcast of it got through)
+ */
+export function isAlreadyKnownError(error: any): boolean {
+  if (error?.code === 'ALREADY_EXISTS') return true;
+  const message = String(error?.info?.error?.message ?? error?.error?.message ?? error?.message ?? '');
+  return /already known|known transaction|already imported|already exists/i.test(message);
+}
+
+/**
+ * Hash of the transaction a failed eth_sendRawTransaction carried, if any
+ * (eth_sendTransaction is signed by the node, so its hash is not known)
+ */
+export function sentTransactionHash(error: any): string | null {
+  const payload = error?.payload ?? error?.info?.payload;
+  const raw = payload?.method === 'eth_sendRawTransaction' ? payload.params?.[0] : null;
+  return typeof raw === 'string' && ethers.isHexString(raw) ? ethers.keccak256(raw) : null;
+}
+
+/**
+ * Serializes transaction submissions from one signer and assigns nonces locally
+ *
+ * Only the send step is serialized: confirmations of queued transactions
+ * overlap. The local nonce is seeded from the pending transaction count and
+ * resynced after any failed send. A send the node reports as already known
+ * went out earlier: it is looked up by hash, never re-signed.
+ */
+export class TransactionQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private nextNonce: number | null = null;
+  private queued = 0;
+  private pending = new Map<string, { nonce: number; operation: string; sentAt: number }>();
+
+  constructor(
+    private fetchNonce: () => Promise<number>,
+    private fetchTransaction: (hash: string) => Promise<TransactionResponse | null>,
+    private maxRetries: number = 3
+  ) {}
+
+  /**
+   * Send a transaction once all earlier submissions have been sent
+   *
+   * Aborting while the job is still queued drops it: the promise rejects with
+   * ABORTED and nothing is sent. Once sending has started, aborting has no effect.
+   *
+   * @param operation - Label reported in queue state
+   * @param send - Sends the transaction with the given nonce
+   * @param signal - Drops the job if aborted before its turn
+   */
+  submit(
+    operation: string,
+    send: (nonce: number) => Promise<TransactionResponse>,
+    signal?: AbortSignal
+  ): Promise<TransactionResponse> {
+    if (signal?.aborted) return Promise.reject(droppedError(operation));
+
+    this.queued++;
+    let state: 'queued' | 'sending' | 'dropped' = 'queued';
+
+    return new Promise<TransactionResponse>((resolve, reject) => {
+      const onAbort = () => {
+        if (state !== 'queued') return;
+        state = 'dropped';
+        this.queued--;
+        reject(droppedError(operation));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const run = async () => {
+        signal?.removeEventListener('abort', onAbort);
+        if (state === 'dropped') return;
+        state = 'sending';
+        this.queued--;
+        try {
+          resolve(await this.sendWithRetry(operation, send));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      this.tail = this.tail.then(run, run);
+    });
+  }
+
+  /**
+   * Stop tracking a sent transaction (confirmed, failed or abandoned)
+   */
+  complete(hash: string): void {
+    this.pending.delete(hash);
+  }
+
+  /**
+   * Track a same-nonce replacement (speed-up or cancel) in place of the original
+   */
+  replace(hash: string, replacementHash: string): void {
+    const tx = this.pending.get(hash);
+    if (!tx) return;
+    this.pending.delete(hash);
+    this.pending.set(replacementHash, { ...tx, sentAt: Date.now() });
+  }
+
+  /**
+   * Forget the local nonce so the next send reads it from the chain
+   */
+  reset(): void {
+    this.nextNonce = null;
+  }
+
+  getState(): TransactionQueueState {
+    return {
+      queued: this.queued,
+      pending: [...this.pending.entries()].map(([hash, tx]) => ({ hash, ...tx })),
+      nextNonce: this.nextNonce
+    };
+  }
+
+  private async sendWithRetry(
+    operation: string,
+    send: (nonce: number) => Promise<TransactionResponse>
+  ): Promise<TransactionResponse> {
+    for (let attempt = 0; ; attempt++) {
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.fetchNonce();
+      }
+      const nonce = this.nextNonce;
+
+      try {
+        const tx = await send(nonce);
+        this.nextNonce = nonce + 1;
+        this.pending.set(tx.hash, { nonce, operation, sentAt: Date.now() });
+        return tx;
+      } catch (error) {
+        if (isAlreadyKnownError(error)) return this.alreadySent(operation, nonce, error);
+        // The nonce may or may not have been consumed: resync before the next send
+        this.nextNonce = null;
+        if (!isNonceError(error) || attempt >= this.maxRetries) throw error;
+      }
+    }
+  }
+
+  /**
+   * Treat an already-known send as sent: return the original transaction
+   */
+  private async alreadySent(operation: string, nonce: number, error: unknown): Promise<TransactionResponse> {
+    this.nextNonce = nonce + 1;
+    const hash = sentTransactionHash(error);
+    const tx = hash ? await this.fetchTransaction(hash).catch(() => null) : null;
+    if (tx) {
+      this.pending.set(tx.hash, { nonce, operation, sentAt: Date.now() });
+      return tx;
+    }
+    if (hash) this.pending.set(hash, { nonce, operation, sentAt: Date.now() });
+    throw new RookError(ErrorCodes.NETWORK_ERROR,
+      hash
+        ? `${operation} was already sent as ${hash}, which the node did not return`
+        : `${operation} was already sent with nonce ${nonce}`,
+      { txHash: hash ?? undefined, nonce, operation, pending: true });
+  }
+}
+
+function droppedError(operation: string): RookError {
+  return new RookError(ErrorCodes.ABORTED, `${operation} was dropped from the queue before it was sent`,
+    { operation });
+}
@@ -0,0 +1,203 @@
+import { FetchRequest, Provider, getAddress, isAddress } from 'ethers';
+import { AgentResolver, MoltbookResolverOptions } from '../types';
+import { RookError, ErrorCodes } from './errors';
+
+// Default cache lifetime of resolved names (5 minutes)
+export const DEFAULT_RESOLVER_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * ENS resolver (forward lookups verified by the provider on reverse)
+ *
+ * Base has no ENS registry: pass a mainnet provider. Without one (null),
+ * ENS names fail with INVALID_AGENT instead of being looked up.
+ */
+export function createEnsResolver(provider: Provider | null): AgentResolver {
+  const supports = (name: string) => !name.startsWith('@') && name.includes('.');
+  if (!provider) {
+    return {
+      name: 'ens',
+      supports,
+      resolve: async (name) => {
+        throw new RookError(ErrorCodes.INVALID_AGENT,
+          `Cannot resolve ${name}: ENS is off (set config.ensProvider to a mainnet provider or RPC URL)`);
+      }
+    };
+  }
+  return {
+    name: 'ens',
+    supports,
+    resolve: (name) => provider.resolveName(name),
+    reverse: (address) => provider.lookupAddress(address)
+  };
+}
+
+/**
+ * Moltbook @handle resolver, through a Rook oracle or the Moltbook API
+ *
+ * The oracle's GET /resolve/:handle answers `{ handle, address }`. The
+ * Moltbook API answers the user profile, whose linked wallet is read from
+ * `walletField`. A handle without a linked wallet fails with INVALID_AGENT.
+ */
+export function createMoltbookResolver(options: MoltbookResolverOptions = {}): AgentResolver {
+  const apiUrl = (options.apiUrl ?? 'https://api.moltbook.com').replace(/\/+$/, '');
+  const oracleUrl = options.oracleUrl?.replace(/\/+$/, '');
+  const walletField = options.walletField ?? 'wallet';
+
+  return {
+    name: 'moltbook',
+    supports: (name) => /^@[\w.-]+$/.test(name),
+    async resolve(name) {
+      const handle = encodeURIComponent(name.slice(1));
+      const request = new FetchRequest(oracleUrl ? `${oracleUrl}/resolve/${handle}` : `${apiUrl}/users/${handle}`);
+      request.timeout = options.timeout ?? 5000;
+      if (!oracleUrl && options.apiKey) {
+        request.setHeader('authorization', `Bearer ${options.apiKey}`);
+      }
+
+      const response = await request.send();
+      if (response.statusCode === 404) return null;
+      response.assertOk();
+
+      const body = response.bodyJson;
+      if (typeof body !== 'object' || body === null) {
+        throw new RookError(ErrorCodes.NETWORK_ERROR, `Unexpected ${oracleUrl ? 'oracle' : 'Moltbook'} response for ${name}`);
+      }
+      const address = oracleUrl ? body.address : body[walletField];
+      if (address === undefined || address === null || address === '') {
+        throw new RookError(ErrorCodes.INVALID_AGENT, oracleUrl
+          ? `Oracle response for ${name} has no address`
+          : `${name} has no wallet linked on Moltbook (no "${walletField}" in the profile; fields: ${Object.keys(body).join(', ')})`);
+      }
+      if (typeof address !== 'string' || !isAddress(address)) {
+        throw new RookError(ErrorCodes.INVALID_AGENT, `Moltbook wallet of ${name} is not an address: ${address}`);
+      }
+      return address;
+    }
+  };
+}
+
+/**
+ * Resolves agent names through an ordered list of resolvers, with a cache
+ *
+ * Forward results are cached for `cacheTtl` ms and also seed the reverse
+ * cache, so an address resolved from @handle displays as that handle.
+ */
+export class ResolverRegistry {
+  private resolvers: AgentResolver[];
+  private forwardCache = new Map<string, { address: string; expires: number }>();
+  private reverseCache = new Map<string, { name: string | null; expires: number }>();
+
+  constructor(resolvers: AgentResolver[] = [], private cacheTtl: number = DEFAULT_RESOLVER_CACHE_TTL) {
+    this.resolvers = [...resolvers];
+  }
+
+  /**
+   * Add a resolver ahead of the existing ones, or replace the one with the same name
+   */
+  register(resolver: AgentResolver): void {
+    const index = this.resolvers.findIndex((r) => r.name === resolver.name);
+    if (index >= 0) {
+      this.resolvers[index] = resolver;
+    } else {
+      this.resolvers.unshift(resolver);
+    }
+    this.clearCache();
+  }
+
+  /**
+   * Remove a resolver by name
+   */
+  unregister(name: string): boolean {
+    const before = this.resolvers.length;
+    this.resolvers = this.resolvers.filter((r) => r.name !== name);
+    this.clearCache();
+    return this.resolvers.length < before;
+  }
+
+  /**
+   * Resolve an address, ENS name, @handle or custom identifier to an address
+   *
+   * @returns The checksummed address
+   * @throws INVALID_AGENT if no resolver handles the name or it is not registered
+   * @throws NETWORK_ERROR if every resolver that handles the name failed
+   */
+  async resolve(name: string): Promise<string> {
+    const key = name.toLowerCase();
+    if (isAddress(name)) return getAddress(name);
+
+    const cached = this.forwardCache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.address;
+
+    const candidates = this.resolvers.filter((resolver) => resolver.supports(name));
+    if (candidates.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_AGENT, `Invalid agent identifier: ${name}`);
+    }
+
+    let failed = false;
+    let failure: unknown;
+    for (const resolver of candidates) {
+      let address: string | null;
+      try {
+        address = await resolver.resolve(name);
+      } catch (error) {
+        failed = true;
+        failure = error;
+        continue;
+      }
+      if (!address) continue;
+      if (!isAddress(address)) {
+        throw new RookError(ErrorCodes.INVALID_AGENT, `Resolver ${resolver.name} returned an invalid address for ${name}`);
+      }
+
+      const checksummed = getAddress(address);
+      const expires = Date.now() + this.cacheTtl;
+      this.forwardCache.set(key, { address: checksummed, expires });
+      this.reverseCache.set(checksummed, { name, expires });
+      return checksummed;
+    }
+
+    if (failure instanceof RookError) throw failure;
+    if (failed) {
+      const reason = failure instanceof Error
+        ? (failure as Error & { shortMessage?: string }).shortMessage ?? failure.message
+        : String(failure);
+      throw new RookError(ErrorCodes.NETWORK_ERROR, `Could not resolve ${name}: ${reason}`);
+    }
+    throw new RookError(ErrorCodes.INVALID_AGENT, `Could not resolve ${name}`);
+  }
+
+  /**
+   * Display name for an address, or null if no resolver knows one
+   *
+   * Lookup failures are treated as "no name" (and not cached).
+   */
+  async reverse(address: string): Promise<string | null> {
+    const key = getAddress(address);
+    const cached = this.reverseCache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.name;
+
+    let failed = false;
+    for (const resolver of this.resolvers) {
+      if (!resolver.reverse) continue;
+      try {
+        const name = await resolver.reverse(key);
+        if (name) {
+          this.reverseCache.set(key, { name, expires: Date.now() + this.cacheTtl });
+          return name;
+        }
+      } catch {
+        failed = true;
+      }
+    }
+
+    if (!failed) {
+      this.reverseCache.set(key, { name: null, expires: Date.now() + this.cacheTtl });
+    }
+    return null;
+  }
+
+  clearCache(): void {
+    this.forwardCache.clear();
+    this.reverseCache.clear();
+  }
+}
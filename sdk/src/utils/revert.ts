@@ -0,0 +1,220 @@
+import { Interface, ErrorDescription, isHexString } from 'ethers';
+import { RookError, ErrorCodes } from './errors';
+import RookEscrowABI from '../abi/RookEscrow.json';
+import RookOracleABI from '../abi/RookOracle.json';
+
+/**
+ * Structured details attached to RookErrors decoded from a revert
+ */
+export interface ContractErrorDetails {
+  /** Contract that declares the error ('RookEscrow', 'RookOracle'), if known */
+  contract?: string;
+  /** Custom error name, or 'Error' / 'Panic' for built-in reverts */
+  error: string;
+  /** Decoded error arguments by name (or position) */
+  args: Record<string, any>;
+  /** 4-byte selector */
+  selector: string;
+  /** SDK operation that reverted */
+  operation: string;
+}
+
+const INTERFACES = [
+  { contract: 'RookEscrow', iface: new Interface(RookEscrowABI) },
+  { contract: 'RookOracle', iface: new Interface(RookOracleABI) }
+];
+
+// Contract custom error -> SDK error code and message
+const CONTRACT_ERRORS: Record<string, [ErrorCodes, string]> = {
+  InvalidAmount: [ErrorCodes.INVALID_AMOUNT, 'Invalid amount'],
+  InvalidSeller: [ErrorCodes.INVALID_AGENT, 'Invalid seller (zero address or the buyer)'],
+  InvalidThreshold: [ErrorCodes.INVALID_THRESHOLD, 'Threshold must be between 50 and 100'],
+  InvalidAddress: [ErrorCodes.INVALID_AGENT, 'Invalid address'],
+  EscrowNotActive: [ErrorCodes.ESCROW_NOT_ACTIVE, 'Escrow is not active'],
+  EscrowNotFound: [ErrorCodes.ESCROW_NOT_FOUND, 'Escrow not found'],
+  EscrowNotDisputed: [ErrorCodes.ESCROW_NOT_DISPUTED, 'Escrow is not disputed'],
+  EscrowExpired: [ErrorCodes.ESCROW_EXPIRED, 'Escrow has expired'],
+  EscrowNotExpired: [ErrorCodes.ESCROW_NOT_EXPIRED, 'Escrow has not expired yet'],
+  NotAuthorized: [ErrorCodes.UNAUTHORIZED, 'Caller is not authorized'],
+  NotBuyer: [ErrorCodes.UNAUTHORIZED, 'Caller is not the buyer'],
+  NotSeller: [ErrorCodes.UNAUTHORIZED, 'Caller is not the seller'],
+  NotOracle: [ErrorCodes.UNAUTHORIZED, 'Caller is not the oracle'],
+  NotChallenger: [ErrorCodes.UNAUTHORIZED, 'Caller is not the challenger'],
+  NotOperator: [ErrorCodes.UNAUTHORIZED, 'Caller is not an oracle operator'],
+  BothPartiesRequired: [ErrorCodes.UNAUTHORIZED, 'Both parties must consent'],
+  ChallengeExists: [ErrorCodes.CHALLENGE_EXISTS, 'A challenge already exists for this escrow'],
+  ChallengeNotFound: [ErrorCodes.CHALLENGE_NOT_FOUND, 'Challenge not found'],
+  ChallengeNotActive: [ErrorCodes.CHALLENGE_NOT_ACTIVE, 'Challenge is not active'],
+  ChallengeExpired: [ErrorCodes.CHALLENGE_EXPIRED, 'Challenge deadline has passed'],
+  ChallengeNotExpired: [ErrorCodes.CHALLENGE_NOT_EXPIRED, 'Challenge deadline has not been reached'],
+  DeadlineNotPassed: [ErrorCodes.CHALLENGE_NOT_EXPIRED, 'Deadline has not passed'],
+  ChallengeCooldownActive: [ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE, 'Challenge cooldown is still active'],
+  SelfChallenge: [ErrorCodes.SELF_CHALLENGE, 'Sellers cannot challenge their own escrow'],
+  ChallengeResponseWindowExpired: [ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED, 'Challenge response window has closed'],
+  InvalidResponseHash: [ErrorCodes.INVALID_RESPONSE, 'Response hash must not be empty'],
+  DisputeNotFound: [ErrorCodes.DISPUTE_NOT_FOUND, 'Dispute not found'],
+  DisputeAlreadyResolved: [ErrorCodes.DISPUTE_ALREADY_RESOLVED, 'Dispute has already been resolved'],
+  DisputeResolutionPending: [ErrorCodes.DISPUTE_RESOLUTION_PENDING, 'A dispute resolution is already scheduled'],
+  DisputeResolutionNotFound: [ErrorCodes.DISPUTE_RESOLUTION_NOT_FOUND, 'No pending dispute resolution'],
+  DisputeResolutionNotReady: [ErrorCodes.TIMELOCK_NOT_READY, 'Dispute resolution timelock has not passed'],
+  DisputeResolutionAlreadyExecuted: [ErrorCodes.ALREADY_EXECUTED, 'Dispute resolution already executed'],
+  OracleTimeoutNotMet: [ErrorCodes.ORACLE_TIMEOUT_NOT_MET, 'Oracle timeout has not passed'],
+  TransferFailed: [ErrorCodes.TRANSFER_FAILED, 'Token transfer failed'],
+  EvidenceTooLong: [ErrorCodes.EVIDENCE_TOO_LONG, 'Evidence too long (max 1000 bytes)'],
+  BelowThreshold: [ErrorCodes.BELOW_THRESHOLD, 'Trust score below escrow threshold'],
+  FeeTooHigh: [ErrorCodes.FEE_TOO_HIGH, 'Fee exceeds MAX_FEE_BPS'],
+  CannotRescueUSDC: [ErrorCodes.CONTRACT_REVERT, 'USDC cannot be rescued'],
+  TimelockNotReady: [ErrorCodes.TIMELOCK_NOT_READY, 'Timelock delay has not passed'],
+  TimelockNotFound: [ErrorCodes.TIMELOCK_NOT_FOUND, 'Timelock action not found'],
+  TimelockAlreadyExecuted: [ErrorCodes.ALREADY_EXECUTED, 'Timelock action already executed'],
+  InvalidScore: [ErrorCodes.INVALID_SCORE, 'Scores must be between 0 and 100'],
+  StaleScore: [ErrorCodes.STALE_SCORE, 'Seller score is stale'],
+  InvalidWeights: [ErrorCodes.INVALID_WEIGHTS, 'Weights must sum to 100']
+};
+
+// OpenZeppelin 4.x require() reasons
+const REASON_ERRORS: Record<string, ErrorCodes> = {
+  'Pausable: paused': ErrorCodes.CONTRACT_PAUSED,
+  'Ownable: caller is not the owner': ErrorCodes.UNAUTHORIZED,
+  'ERC20: transfer amount exceeds balance': ErrorCodes.INSUFFICIENT_BALANCE,
+  'ERC20: insufficient allowance': ErrorCodes.TRANSFER_FAILED
+};
+
+/**
+ * Find raw revert data in an ethers / JSON-RPC error
+ */
+export function findRevertData(error: any): string | null {
+  const candidates = [
+    error?.data,
+    error?.error?.data,
+    error?.info?.error?.data,
+    error?.error?.error?.data
+  ];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+    if (typeof candidate?.data === 'string' && isHexString(candidate.data) && candidate.data.length >= 10) {
+      return candidate.data;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode revert data against the bundled RookEscrow / RookOracle ABIs
+ */
+export function decodeRevertData(data: string): { contract?: string; description: ErrorDescription } | null {
+  for (const { contract, iface } of INTERFACES) {
+    try {
+      const description = iface.parseError(data);
+      if (description) {
+        // Error(string) and Panic(uint256) parse against any interface
+        const builtin = description.name === 'Error' || description.name === 'Panic';
+        return { contract: builtin ? undefined : contract, description };
+      }
+    } catch {
+      // Not this contract's error
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn a failed call into a RookError with a specific code, if its revert can be decoded
+ *
+ * @returns The decoded RookError, or null when the error carries no decodable revert data
+ */
+export function decodeContractError(error: any, operation: string): RookError | null {
+  if (error instanceof RookError) return error;
+
+  const data = findRevertData(error);
+  if (!data) {
+    // ethers already decoded a require() reason
+    if (error?.code === 'CALL_EXCEPTION' && typeof error.reason === 'string' && REASON_ERRORS[error.reason]) {
+      return new RookError(REASON_ERRORS[error.reason], `${operation} failed: ${error.reason}`, {
+        contract: undefined,
+        error: 'Error',
+        args: { reason: error.reason },
+        selector: '0x08c379a0',
+        operation
+      } as ContractErrorDetails);
+    }
+    return null;
+  }
+
+  const decoded = decodeRevertData(data);
+  if (!decoded) {
+    return new RookError(ErrorCodes.CONTRACT_REVERT, `${operation} failed: unknown revert ${data.slice(0, 10)}`, {
+      error: 'Unknown',
+      args: {},
+      selector: data.slice(0, 10),
+      operation
+    } as ContractErrorDetails);
+  }
+
+  const { contract, description } = decoded;
+  const args: Record<string, any> = {};
+  description.fragment.inputs.forEach((input, i) => {
+    args[input.name || String(i)] = description.args[i];
+  });
+
+  const details: ContractErrorDetails = {
+    contract,
+    error: description.name,
+    args,
+    selector: description.selector,
+    operation
+  };
+
+  if (description.name === 'Error') {
+    const reason = String(description.args[0]);
+    return new RookError(REASON_ERRORS[reason] ?? ErrorCodes.CONTRACT_REVERT, `${operation} failed: ${reason}`, details);
+  }
+
+  if (description.name === 'Panic') {
+    return new RookError(ErrorCodes.CONTRACT_REVERT,
+      `${operation} failed: panic 0x${BigInt(description.args[0]).toString(16)}`, details);
+  }
+
+  const [code, message] = CONTRACT_ERRORS[description.name] ?? [ErrorCodes.CONTRACT_REVERT, description.name];
+  return new RookError(code, `${operation} failed: ${message} (${description.name})`, details);
+}
+
+/**
+ * Build the RookError a revert decodes to, for simulations that apply the
+ * contract's rules off-chain (MockRookProtocol)
+ *
+ * @param error - Custom error name (e.g. 'EscrowNotActive') or a require() reason (e.g. 'Pausable: paused')
+ * @param contract - Contract that declares the custom error
+ */
+export function contractRevertError(
+  error: string,
+  operation: string,
+  contract: 'RookEscrow' | 'RookOracle' = 'RookEscrow'
+): RookError {
+  const reasonCode = REASON_ERRORS[error];
+  if (reasonCode) {
+    return new RookError(reasonCode, `${operation} failed: ${error}`, {
+      contract: undefined,
+      error: 'Error',
+      args: { reason: error },
+      selector: '0x08c379a0',
+      operation
+    } as ContractErrorDetails);
+  }
+
+  const { iface } = INTERFACES.find((entry) => entry.contract === contract)!;
+  const fragment = iface.getError(error);
+  if (!fragment) {
+    throw new RookError(ErrorCodes.UNKNOWN, `${contract} has no error ${error}`);
+  }
+  const [code, message] = CONTRACT_ERRORS[error] ?? [ErrorCodes.CONTRACT_REVERT, error];
+  return new RookError(code, `${operation} failed: ${message} (${error})`, {
+    contract,
+    error,
+    args: {},
+    selector: fragment.selector,
+    operation
+  } as ContractErrorDetails);
+}
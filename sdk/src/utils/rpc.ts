@@ -0,0 +1,265 @@
+import {
+  FallbackProvider,
+  FetchRequest,
+  JsonRpcApiProvider,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Network,
+  Provider
+} from 'ethers';
+import { RpcEndpoint, RpcErrorEvent } from '../types';
+import { RookError, ErrorCodes } from './errors';
+
+/**
+ * Retry and health settings for RPC endpoints
+ */
+export interface RpcPolicy {
+  /** Retry rounds for failed reads (default: 3) */
+  retries: number;
+  /** Delay before the first retry in ms, doubled on every round (default: 250) */
+  retryDelay: number;
+  /** Consecutive failures before an endpoint is ejected (default: 3) */
+  ejectAfterFailures: number;
+  /** How long an ejected endpoint is skipped, in ms (default: 60000) */
+  ejectionPeriod: number;
+  /** Per-request timeout in ms (default: 30000) */
+  timeout: number;
+  /** Receives retry and ejection messages */
+  log?: (message: string) => void;
+  /** Called on every endpoint failure */
+  onError?: (event: RpcErrorEvent) => void;
+}
+
+export const DEFAULT_RPC_POLICY: RpcPolicy = {
+  retries: 3,
+  retryDelay: 250,
+  ejectAfterFailures: 3,
+  ejectionPeriod: 60000,
+  timeout: 30000
+};
+
+// A node may already have broadcast these: never resent
+const WRITE_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+interface EndpointState {
+  url: string;
+  priority: number;
+  failures: number;
+  ejectedUntil: number;
+}
+
+/**
+ * Check whether an RPC failure means the request was turned away (HTTP 429 or a rate-limit error)
+ */
+export function isRateLimited(error: any): boolean {
+  if (error?.info?.response?.statusCode === 429 || error?.error?.code === -32005) {
+    return true;
+  }
+  const message = String(error?.error?.message ?? error?.message ?? '');
+  return /rate.?limit|too many requests|request limit/i.test(message);
+}
+
+/**
+ * JSON-RPC provider over one or more endpoints with retries and health tracking
+ *
+ * Requests go to the healthy endpoint with the lowest priority and fail over
+ * to the next one on transport errors and rate limits. Reads are retried with
+ * exponential backoff once every endpoint has failed. An endpoint that fails
+ * `ejectAfterFailures` times in a row is skipped for `ejectionPeriod` ms.
+ *
+ * Transaction broadcasts are never retried, and only fail over when the node
+ * rate-limited them.
+ */
+export class RookRpcProvider extends JsonRpcProvider {
+  private rpcEndpoints: EndpointState[];
+  private policy: RpcPolicy;
+
+  constructor(endpoints: Array<string | RpcEndpoint>, network: Network, policy: Partial<RpcPolicy> = {}) {
+    if (endpoints.length === 0) {
+      throw new RookError(ErrorCodes.INVALID_NETWORK, 'At least one RPC URL is required');
+    }
+    const states = normalizeEndpoints(endpoints).map((endpoint) => ({
+      url: endpoint.url,
+      priority: endpoint.priority!,
+      failures: 0,
+      ejectedUntil: 0
+    }));
+
+    super(states[0].url, network, { staticNetwork: network });
+    this.rpcEndpoints = states;
+    this.policy = { ...DEFAULT_RPC_POLICY, ...policy };
+  }
+
+  /**
+   * Health of each endpoint, in the order they are tried
+   */
+  getEndpointHealth(): Array<{ url: string; failures: number; ejectedUntil: number | null }> {
+    return this.rpcEndpoints.map((endpoint) => ({
+      url: endpoint.url,
+      failures: endpoint.failures,
+      ejectedUntil: endpoint.ejectedUntil > Date.now() ? endpoint.ejectedUntil : null
+    }));
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const isWrite = payloads.some((p) => WRITE_METHODS.has(p.method));
+    const methods = payloads.map((p) => p.method);
+    const label = methods.join(', ');
+    const body = JSON.stringify(payload);
+    const rounds = isWrite ? 1 : this.policy.retries + 1;
+
+    let lastError: unknown;
+    for (let round = 0; round < rounds; round++) {
+      if (round > 0) {
+        const delay = this.policy.retryDelay * 2 ** (round - 1);
+        this.log(`${label} failed on every endpoint, retry ${round}/${this.policy.retries} in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      for (const endpoint of this.candidates()) {
+        const startedAt = Date.now();
+        try {
+          const result = await this.sendTo(endpoint, body);
+          this.recordSuccess(endpoint);
+          return result;
+        } catch (error) {
+          lastError = error;
+          this.recordFailure(endpoint, error, methods, Date.now() - startedAt);
+          if (isWrite && !isRateLimited(error)) throw error;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private async sendTo(endpoint: EndpointState, body: string): Promise<Array<JsonRpcResult>> {
+    const request = new FetchRequest(endpoint.url);
+    request.body = body;
+    request.setHeader('content-type', 'application/json');
+    request.timeout = this.policy.timeout;
+    // Fail over on 429 instead of waiting out the throttle on this endpoint
+    request.retryFunc = async () => false;
+
+    const response = await request.send();
+    response.assertOk();
+
+    const results: Array<JsonRpcResult | JsonRpcError> = Array.isArray(response.bodyJson)
+      ? response.bodyJson
+      : [response.bodyJson];
+    const limited = results.find((result) => 'error' in result && isRateLimited(result));
+    if (limited) {
+      throw Object.assign(new Error(`${endpoint.url}: ${(limited as JsonRpcError).error.message}`), limited);
+    }
+    // JSON-RPC errors (reverts, bad params) are results, not endpoint failures
+    return results as Array<JsonRpcResult>;
+  }
+
+  /**
+   * Endpoints to try, in priority order. Ejected endpoints are skipped unless all are ejected
+   */
+  private candidates(): EndpointState[] {
+    const now = Date.now();
+    const healthy = this.rpcEndpoints.filter((endpoint) => endpoint.ejectedUntil <= now);
+    return healthy.length > 0 ? healthy : this.rpcEndpoints;
+  }
+
+  private recordSuccess(endpoint: EndpointState): void {
+    if (endpoint.ejectedUntil > 0) {
+      this.log(`RPC endpoint ${endpoint.url} recovered`);
+    }
+    endpoint.failures = 0;
+    endpoint.ejectedUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointState, error: any, methods: string[], durationMs: number): void {
+    endpoint.failures++;
+    this.log(`RPC endpoint ${endpoint.url} failed (${endpoint.failures}): ${error?.shortMessage ?? error?.message}`);
+
+    const now = Date.now();
+    const ejected = endpoint.failures >= this.policy.ejectAfterFailures && endpoint.ejectedUntil <= now;
+    if (ejected) {
+      endpoint.ejectedUntil = now + this.policy.ejectionPeriod;
+      this.log(`RPC endpoint ${endpoint.url} ejected for ${this.policy.ejectionPeriod}ms`);
+    }
+
+    this.policy.onError?.({
+      endpoint: endpoint.url,
+      methods,
+      error: error instanceof Error ? error : new Error(String(error)),
+      failures: endpoint.failures,
+      ejected,
+      durationMs,
+      timestamp: now
+    });
+  }
+
+  private log(message: string): void {
+    this.policy.log?.(message);
+  }
+}
+
+/**
+ * Ask the node(s) behind a provider for their chain ID
+ *
+ * Bypasses static network configuration. Returns one ID per endpoint in quorum mode.
+ */
+export async function fetchChainIds(provider: Provider): Promise<bigint[]> {
+  if (provider instanceof FallbackProvider) {
+    const ids = await Promise.all(provider.providerConfigs.map((config) => fetchChainIds(config.provider)));
+    return ids.flat();
+  }
+  if (provider instanceof JsonRpcApiProvider) {
+    return [BigInt(await provider.send('eth_chainId', []))];
+  }
+  return [(await provider.getNetwork()).chainId];
+}
+
+/**
+ * Build the SDK's provider for a list of endpoints
+ *
+ * With a quorum of 1, a single RookRpcProvider fails over between endpoints.
+ * A higher quorum queries endpoints through an ethers FallbackProvider and
+ * only accepts results that `quorum` endpoint weights agree on.
+ */
+export function createRpcProvider(
+  endpoints: Array<string | RpcEndpoint>,
+  network: Network,
+  quorum: number = 1,
+  policy: Partial<RpcPolicy> = {}
+): Provider {
+  if (quorum <= 1 || endpoints.length === 1) {
+    return new RookRpcProvider(endpoints, network, policy);
+  }
+
+  const normalized = normalizeEndpoints(endpoints);
+  const totalWeight = normalized.reduce((sum, endpoint) => sum + (endpoint.weight ?? 1), 0);
+  if (quorum > totalWeight) {
+    throw new RookError(ErrorCodes.INVALID_NETWORK,
+      `Quorum of ${quorum} is above the total endpoint weight of ${totalWeight}`);
+  }
+
+  return new FallbackProvider(normalized.map((endpoint) => ({
+    provider: new RookRpcProvider([endpoint.url], network, policy),
+    priority: endpoint.priority,
+    weight: endpoint.weight ?? 1,
+    stallTimeout: endpoint.stallTimeout ?? 2000
+  })), network, { quorum });
+}
+
+/**
+ * Fill in default priorities (list position) and sort by priority
+ */
+function normalizeEndpoints(endpoints: Array<string | RpcEndpoint>): RpcEndpoint[] {
+  return endpoints
+    .map((endpoint, index) => {
+      const { url, priority, ...rest } = typeof endpoint === 'string' ? { url: endpoint } as RpcEndpoint : endpoint;
+      if (!url || !/^https?:\/\//i.test(url)) {
+        throw new RookError(ErrorCodes.INVALID_NETWORK, `Invalid RPC URL: ${url}`);
+      }
+      return { url, priority: priority ?? index, ...rest };
+    })
+    .sort((a, b) => a.priority - b.priority);
+}
@@ -0,0 +1,167 @@
+import {
+  AbstractSigner,
+  BrowserProvider,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+  copyRequest,
+  getAddress,
+  resolveAddress,
+  resolveProperties
+} from 'ethers';
+import type { Eip1193Provider } from 'ethers';
+import { RookSigner, SigningCallbacks } from '../types';
+import { RookError, ErrorCodes } from './errors';
+
+/**
+ * ethers Signer backed by user-supplied signing callbacks
+ *
+ * The SDK populates transactions (nonce, gas, fees) through the provider
+ * and only hands the unsigned transaction to the callback, so the key
+ * material never has to live in the agent process.
+ */
+export class CallbackSigner extends AbstractSigner {
+  readonly address: string;
+  private callbacks: SigningCallbacks;
+
+  constructor(callbacks: SigningCallbacks, provider: Provider | null = null) {
+    super(provider);
+    this.address = getAddress(callbacks.address);
+    this.callbacks = callbacks;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): CallbackSigner {
+    return new CallbackSigner(this.callbacks, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    tx = copyRequest(tx);
+
+    const { to, from } = await resolveProperties({
+      to: tx.to ? resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? resolveAddress(tx.from, this.provider) : undefined
+    });
+
+    if (to != null) tx.to = to;
+    if (from != null && getAddress(from) !== this.address) {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, 'Transaction from address does not match signer');
+    }
+    delete tx.from;
+
+    const unsigned = Transaction.from(tx as TransactionLike<string>);
+    return this.callbacks.signTransaction(unsigned);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    if (!this.callbacks.signMessage) {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, 'Signer does not support message signing');
+    }
+    return this.callbacks.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    if (!this.callbacks.signTypedData) {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, 'Signer does not support typed data signing');
+    }
+    return this.callbacks.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Check whether a value looks like an EIP-1193 provider (window.ethereum, WalletConnect, ...)
+ */
+export function isEip1193Provider(value: any): value is Eip1193Provider {
+  return !!value && typeof value.request === 'function';
+}
+
+/**
+ * Check whether a value is an ethers Signer
+ */
+export function isEthersSigner(value: any): value is Signer {
+  return !!value &&
+    typeof value.getAddress === 'function' &&
+    typeof value.signTransaction === 'function' &&
+    typeof value.sendTransaction === 'function';
+}
+
+/**
+ * Check whether a value is a set of signing callbacks
+ */
+export function isSigningCallbacks(value: any): value is SigningCallbacks {
+  return !!value &&
+    typeof value.address === 'string' &&
+    typeof value.signTransaction === 'function';
+}
+
+/**
+ * Validate a signer source without touching the network
+ */
+export function validateSigner(source: RookSigner): void {
+  if (isEip1193Provider(source) || isEthersSigner(source)) {
+    return;
+  }
+  if (isSigningCallbacks(source)) {
+    try {
+      getAddress(source.address);
+    } catch {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, `Invalid signer address: ${source.address}`);
+    }
+    return;
+  }
+  throw new RookError(ErrorCodes.INVALID_SIGNER,
+    'Signer must be an ethers Signer, an EIP-1193 provider, or signing callbacks');
+}
+
+/**
+ * Create a Wallet from a raw private key
+ */
+export function walletFromPrivateKey(privateKey: string, provider: Provider): Wallet {
+  try {
+    return new Wallet(privateKey, provider);
+  } catch {
+    throw new RookError(ErrorCodes.INVALID_SIGNER, 'Invalid private key');
+  }
+}
+
+/**
+ * Turn any supported signer source into an ethers Signer
+ *
+ * Signers without a provider are connected to the SDK provider. EIP-1193
+ * wallets keep their own provider so transactions go through the wallet.
+ */
+export async function resolveSigner(source: RookSigner, provider: Provider): Promise<Signer> {
+  validateSigner(source);
+
+  if (isEthersSigner(source)) {
+    if (source.provider) return source;
+    try {
+      return source.connect(provider);
+    } catch {
+      throw new RookError(ErrorCodes.INVALID_SIGNER, 'Signer has no provider and cannot be connected');
+    }
+  }
+
+  if (isEip1193Provider(source)) {
+    try {
+      return await new BrowserProvider(source).getSigner();
+    } catch (error: any) {
+      throw new RookError(ErrorCodes.INVALID_SIGNER,
+        `Could not get signer from wallet: ${error.shortMessage || error.message}`);
+    }
+  }
+
+  return new CallbackSigner(source, provider);
+}
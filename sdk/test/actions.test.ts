@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { EscrowActionState, getEscrowActions } from '../src/utils/actions';
+import { ChallengeDetails, EscrowAction, EscrowResult } from '../src/types';
+
+const BUYER = '0x2000000000000000000000000000000000000001';
+const SELLER = '0x1000000000000000000000000000000000000001';
+const OPERATOR = '0x3000000000000000000000000000000000000001';
+const CHALLENGER = '0x4000000000000000000000000000000000000001';
+const ESCROW = '0x' + 'aa'.repeat(32);
+
+const CREATED_AT = 1_700_000_000;
+const EXPIRES_AT = CREATED_AT + 7 * 24 * 3600;
+const ORACLE_TIMEOUT = 24 * 3600;
+
+function escrow(overrides: Partial<EscrowResult> = {}): EscrowResult {
+  return {
+    id: ESCROW,
+    buyer: BUYER,
+    seller: SELLER,
+    amount: 100,
+    amountUnits: 100_000_000n,
+    amountDecimal: '100',
+    job: 'Audit',
+    threshold: 65,
+    status: 'Active',
+    createdAt: CREATED_AT,
+    expiresAt: EXPIRES_AT,
+    ...overrides
+  };
+}
+
+function challenge(overrides: Partial<ChallengeDetails> = {}): ChallengeDetails {
+  return {
+    escrowId: ESCROW,
+    challenger: CHALLENGER,
+    stake: 5,
+    stakeUnits: 5_000_000n,
+    stakeDecimal: '5',
+    // Initiated at block 1000: response window ends at 1025, deadline at 1050
+    deadline: 1050,
+    status: 'Active',
+    passed: false,
+    responseHash: '0x' + '00'.repeat(32),
+    ...overrides
+  };
+}
+
+function state(overrides: Partial<EscrowActionState> = {}): EscrowActionState {
+  return {
+    escrow: escrow(),
+    challenge: null,
+    caller: BUYER,
+    blockNumber: 1000,
+    now: CREATED_AT + 3600,
+    isOperator: false,
+    oracleTimeout: ORACLE_TIMEOUT,
+    nextChallengeTime: 0,
+    consent: { escrowId: ESCROW, buyer: false, seller: false },
+    paused: false,
+    ...overrides
+  };
+}
+
+function action(overrides: Partial<EscrowActionState>, name: EscrowAction) {
+  return getEscrowActions(state(overrides)).find((a) => a.action === name)!;
+}
+
+describe('getEscrowActions', () => {
+  it('reports every action once', () => {
+    expect(getEscrowActions(state()).map((a) => a.action)).toEqual([
+      'release', 'releaseWithConsent', 'refund', 'claimExpired', 'dispute', 'challenge', 'respondChallenge', 'claimTimeout'
+    ]);
+  });
+
+  it('gates actions by role', () => {
+    expect(action({}, 'release')).toMatchObject({ allowed: false, reason: 'Only oracle operators can release escrows' });
+    expect(action({ caller: OPERATOR, isOperator: true }, 'release')).toMatchObject({ allowed: true, latestTime: EXPIRES_AT });
+
+    expect(action({}, 'refund').allowed).toBe(true);
+    expect(action({ caller: SELLER }, 'refund')).toMatchObject({ allowed: false, reason: 'Only the buyer can refund' });
+
+    expect(action({ caller: OPERATOR }, 'dispute')).toMatchObject({ allowed: false });
+    expect(action({ caller: SELLER }, 'dispute').allowed).toBe(true);
+
+    expect(action({ caller: CHALLENGER }, 'challenge').allowed).toBe(true);
+    expect(action({ caller: SELLER }, 'challenge'))
+      .toMatchObject({ allowed: false, reason: 'The seller cannot challenge their own escrow' });
+  });
+
+  it('blocks actions on escrows that are no longer active', () => {
+    const released = { escrow: escrow({ status: 'Released' }) };
+
+    for (const name of ['release', 'releaseWithConsent', 'refund', 'claimExpired', 'challenge'] as const) {
+      expect(action(released, name)).toMatchObject({ allowed: false, reason: 'Escrow is released, not active' });
+    }
+    expect(action(released, 'dispute').reason).toBe('Escrow is released, not active or challenged');
+    expect(action({ escrow: escrow({ status: 'Challenged' }) }, 'dispute').allowed).toBe(true);
+  });
+
+  it('opens claimExpired and closes the other actions at expiry', () => {
+    const before = { now: EXPIRES_AT };
+    const after = { now: EXPIRES_AT + 1 };
+
+    expect(action(before, 'claimExpired')).toMatchObject({ allowed: false, earliestTime: EXPIRES_AT + 1 });
+    expect(action(after, 'claimExpired')).toMatchObject({ allowed: true, earliestTime: EXPIRES_AT + 1 });
+    expect(action({ ...after, caller: SELLER }, 'claimExpired').allowed).toBe(false);
+
+    expect(action({ ...after, caller: OPERATOR, isOperator: true }, 'release').reason).toBe('Escrow has expired');
+    expect(action({ ...after, caller: CHALLENGER }, 'challenge').reason).toBe('Escrow has expired');
+    expect(action(after, 'releaseWithConsent').reason).toBe('Escrow has expired');
+  });
+
+  it('opens releaseWithConsent once the oracle timeout has passed', () => {
+    const opens = CREATED_AT + ORACLE_TIMEOUT;
+
+    expect(action({ now: opens - 1 }, 'releaseWithConsent')).toMatchObject({
+      allowed: false,
+      reason: 'Oracle timeout has not passed yet',
+      earliestTime: opens,
+      latestTime: EXPIRES_AT
+    });
+    expect(action({ now: opens }, 'releaseWithConsent')).toMatchObject({ allowed: true, earliestTime: opens });
+    expect(action({ now: opens, caller: OPERATOR }, 'releaseWithConsent').allowed).toBe(false);
+  });
+
+  it('blocks a second consent from the same party', () => {
+    const now = CREATED_AT + ORACLE_TIMEOUT;
+    const consent = { escrowId: ESCROW, buyer: true, seller: false };
+
+    expect(action({ now, consent }, 'releaseWithConsent'))
+      .toMatchObject({ allowed: false, reason: 'Already consented, waiting for the seller' });
+    expect(action({ now, consent, caller: SELLER }, 'releaseWithConsent').allowed).toBe(true);
+  });
+
+  it('applies the challenge cooldown and one challenge per escrow', () => {
+    const caller = CHALLENGER;
+
+    expect(action({ caller, nextChallengeTime: CREATED_AT + 7200 }, 'challenge')).toMatchObject({
+      allowed: false,
+      reason: 'Challenge cooldown is still active for this address',
+      earliestTime: CREATED_AT + 7200
+    });
+    expect(action({ caller, nextChallengeTime: EXPIRES_AT + 1 }, 'challenge').reason)
+      .toBe('Challenge cooldown ends after the escrow expires');
+    expect(action({ caller: OPERATOR, challenge: challenge() }, 'challenge').reason)
+      .toBe('A challenge already exists for this escrow');
+  });
+
+  it('gates the challenge response window and timeout claim by block', () => {
+    const open = { challenge: challenge(), escrow: escrow({ status: 'Challenged' }) };
+
+    expect(action({ ...open, caller: SELLER, blockNumber: 1024 }, 'respondChallenge'))
+      .toMatchObject({ allowed: true, latestBlock: 1025 });
+    expect(action({ ...open, caller: SELLER, blockNumber: 1025 }, 'respondChallenge').reason)
+      .toBe('Challenge response window has closed');
+    expect(action({ ...open, blockNumber: 1024 }, 'respondChallenge').reason)
+      .toBe('Only the seller can respond to a challenge');
+
+    expect(action({ ...open, caller: CHALLENGER, blockNumber: 1049 }, 'claimTimeout'))
+      .toMatchObject({ allowed: false, earliestBlock: 1051 });
+    expect(action({ ...open, caller: CHALLENGER, blockNumber: 1050 }, 'claimTimeout').allowed).toBe(true);
+
+    const responded = { challenge: challenge({ status: 'Responded' }), caller: CHALLENGER, blockNumber: 1060 };
+    expect(action(responded, 'claimTimeout').reason).toBe('Seller responded to the challenge');
+  });
+
+  it('blocks every whenNotPaused action while the protocol is paused', () => {
+    const paused = { paused: true, now: EXPIRES_AT + 1, challenge: challenge(), blockNumber: 1010 };
+
+    expect(action({ ...paused, caller: OPERATOR, isOperator: true, now: CREATED_AT }, 'release').reason)
+      .toBe('Protocol is paused');
+    for (const name of ['releaseWithConsent', 'refund', 'dispute'] as const) {
+      expect(action(paused, name)).toMatchObject({ allowed: false, reason: 'Protocol is paused' });
+    }
+    expect(action({ ...paused, caller: CHALLENGER, challenge: null }, 'challenge').reason).toBe('Protocol is paused');
+
+    // Not whenNotPaused in RookEscrow
+    expect(action(paused, 'claimExpired').allowed).toBe(true);
+    expect(action({ ...paused, caller: SELLER }, 'respondChallenge').allowed).toBe(true);
+    expect(action({ ...paused, caller: CHALLENGER, blockNumber: 1050 }, 'claimTimeout').allowed).toBe(true);
+  });
+});
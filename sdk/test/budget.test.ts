@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSpendStore, MemorySpendStore, SpendBudget } from '../src/utils/budget';
+import { ErrorCodes } from '../src/utils/errors';
+import { MockRookProtocol } from '../src/mock';
+
+const SELLER = '0x1000000000000000000000000000000000000001';
+const OTHER_SELLER = '0x1000000000000000000000000000000000000002';
+const BUYER = '0x2000000000000000000000000000000000000001';
+const USDC = 1_000_000n;
+const HOUR = 60 * 60 * 1000;
+
+const escrow = (amount: bigint, counterparty = SELLER) => ({ kind: 'escrow' as const, amount, counterparty });
+
+describe('SpendBudget', () => {
+  it('reserves spends against the daily cap', async () => {
+    const budget = new SpendBudget({ daily: 100 });
+
+    await budget.authorize(escrow(60n * USDC));
+    const error = await budget.authorize(escrow(50n * USDC)).catch((e) => e);
+
+    expect(error.code).toBe(ErrorCodes.BUDGET_EXCEEDED);
+    expect(error.details).toMatchObject({ rule: 'daily', limit: 100n * USDC, used: 60n * USDC });
+    expect((await budget.getUsage()).daily).toBe(60n * USDC);
+  });
+
+  it('counts concurrent reservations before either is committed', async () => {
+    const budget = new SpendBudget({ weekly: 100 });
+
+    const results = await Promise.allSettled([
+      budget.authorize(escrow(60n * USDC)),
+      budget.authorize(escrow(60n * USDC, OTHER_SELLER))
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('caps spend per seller and challenge stakes separately', async () => {
+    const budget = new SpendBudget({ perCounterparty: 50, challengeStakes: 5 });
+
+    await budget.authorize(escrow(50n * USDC));
+    await budget.authorize(escrow(50n * USDC, OTHER_SELLER));
+    await expect(budget.authorize(escrow(1n, SELLER))).rejects.toMatchObject({ details: { rule: 'perCounterparty' } });
+
+    await budget.authorize({ kind: 'challenge', amount: 5n * USDC, counterparty: SELLER, escrowId: '0x01' });
+    await expect(budget.authorize({ kind: 'challenge', amount: 1n, counterparty: SELLER, escrowId: '0x02' }))
+      .rejects.toMatchObject({ details: { rule: 'challengeStakes' } });
+  });
+
+  it('frees the daily window after 24 hours but keeps the weekly one', async () => {
+    let now = 1_700_000_000_000;
+    const budget = new SpendBudget({ daily: 100, weekly: 150 }, () => now);
+
+    await budget.authorize(escrow(100n * USDC));
+    now += 25 * HOUR;
+    await budget.authorize(escrow(50n * USDC));
+
+    expect(await budget.getUsage()).toMatchObject({ daily: 50n * USDC, weekly: 150n * USDC });
+    await expect(budget.authorize(escrow(1n))).rejects.toMatchObject({ details: { rule: 'weekly' } });
+  });
+
+  it('gives released reservations back and keeps committed ones', async () => {
+    const budget = new SpendBudget({ daily: 100 });
+
+    const released = await budget.authorize(escrow(80n * USDC));
+    await budget.release(released);
+    const spent = await budget.authorize(escrow(80n * USDC));
+    await budget.commit(spent, { escrowId: '0xabc', txHash: '0xdef' });
+
+    expect((await budget.getUsage()).daily).toBe(80n * USDC);
+  });
+
+  it('asks the approver above the threshold and logs every decision', async () => {
+    const store = new MemorySpendStore();
+    const approve = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const budget = new SpendBudget({ approvalThreshold: 10, approve, store });
+
+    await budget.authorize(escrow(5n * USDC));
+    await budget.authorize(escrow(20n * USDC));
+    const error = await budget.authorize(escrow(30n * USDC)).catch((e) => e);
+
+    expect(error.code).toBe(ErrorCodes.APPROVAL_REJECTED);
+    expect(approve).toHaveBeenCalledTimes(2);
+    expect(approve.mock.calls[0][0]).toMatchObject({ amount: 20n * USDC, amountDecimal: '20', usage: { daily: 5n * USDC } });
+    expect(store.decisions.map((d) => d.outcome)).toEqual(['allowed', 'approved', 'rejected']);
+    // The rejected spend is not reserved
+    expect((await budget.getUsage()).daily).toBe(25n * USDC);
+  });
+
+  it('rejects spends above the threshold without an approver', async () => {
+    const budget = new SpendBudget({ approvalThreshold: 10 });
+    await expect(budget.authorize(escrow(11n * USDC))).rejects.toMatchObject({ code: ErrorCodes.APPROVAL_REJECTED });
+  });
+
+  it('checks caps without reserving', async () => {
+    const budget = new SpendBudget({ daily: 10 });
+
+    await budget.check(escrow(10n * USDC));
+    await expect(budget.check(escrow(11n * USDC))).rejects.toMatchObject({ code: ErrorCodes.BUDGET_EXCEEDED });
+    expect((await budget.getUsage()).daily).toBe(0n);
+  });
+
+  it('keeps reservations across restarts with a file store', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'rook-budget-'));
+    try {
+      const path = join(dir, 'spending.json');
+      await new SpendBudget({ daily: 100, store: new FileSpendStore(path) }).authorize(escrow(70n * USDC));
+
+      const restarted = new SpendBudget({ daily: 100, store: new FileSpendStore(path) });
+      expect((await restarted.getUsage()).daily).toBe(70n * USDC);
+      await expect(restarted.authorize(escrow(40n * USDC))).rejects.toMatchObject({ code: ErrorCodes.BUDGET_EXCEEDED });
+
+      const log = (await readFile(join(dir, 'spending.log.jsonl'), 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+      expect(log.map((d) => d.outcome)).toEqual(['allowed', 'denied']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MockRookProtocol spending', () => {
+  it('refuses an escrow over budget before any funds move', async () => {
+    const rook = new MockRookProtocol({ address: BUYER, spending: { perCounterparty: 100 } });
+    rook.mint(BUYER, '500');
+
+    await rook.createEscrow({ amount: '80', recipient: SELLER, job: 'Audit' });
+    await expect(rook.createEscrow({ amount: '30', recipient: SELLER, job: 'Audit' }))
+      .rejects.toMatchObject({ code: ErrorCodes.BUDGET_EXCEEDED });
+
+    expect(await rook.getBalance(BUYER)).toBe(420);
+    expect((await rook.getSpendUsage())?.perCounterparty[SELLER.toLowerCase()]).toBe(80n * USDC);
+  });
+
+  it('gives the reservation back when the escrow fails', async () => {
+    const rook = new MockRookProtocol({ address: BUYER, spending: { daily: 100 } });
+    rook.mint(BUYER, '50');
+
+    await expect(rook.createEscrow({ amount: '80', recipient: SELLER, job: 'Audit' }))
+      .rejects.toMatchObject({ code: ErrorCodes.INSUFFICIENT_BALANCE });
+    expect((await rook.getSpendUsage())?.daily).toBe(0n);
+  });
+});
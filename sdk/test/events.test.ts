@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ethers, Contract, Log, Provider } from 'ethers';
+import { RookEvents } from '../src/events';
+import RookEscrowABI from '../src/abi/RookEscrow.json';
+
+const ESCROW = '0x3000000000000000000000000000000000000001';
+const BUYER = '0x2000000000000000000000000000000000000001';
+const SELLER = '0x1000000000000000000000000000000000000001';
+
+/**
+ * EscrowCreated log for `escrowId` in block 10
+ */
+function escrowCreated(contract: Contract, escrowId: string, index: number): Log {
+  const fragment = contract.interface.getEvent('EscrowCreated')!;
+  const { data, topics } = contract.interface.encodeEventLog(fragment, [
+    escrowId, BUYER, SELLER, 1_000_000n, ethers.ZeroHash, 60n
+  ]);
+  return {
+    address: ESCROW,
+    data,
+    topics,
+    blockNumber: 10,
+    blockHash: ethers.id('block:10'),
+    transactionHash: ethers.id(`tx:${index}`),
+    index
+  } as unknown as Log;
+}
+
+describe('RookEvents.subscribe (polling)', () => {
+  it('reports a throwing callback to onError and still delivers the rest of the batch', async () => {
+    const contract = new Contract(ESCROW, RookEscrowABI);
+    const first = ethers.id('escrow:1');
+    const second = ethers.id('escrow:2');
+    const ranges: Array<[number, number]> = [];
+    contract.queryFilter = (async (_filter: unknown, fromBlock: number, toBlock: number) => {
+      ranges.push([fromBlock, toBlock]);
+      return fromBlock === 10 ? [escrowCreated(contract, first, 0), escrowCreated(contract, second, 1)] : [];
+    }) as Contract['queryFilter'];
+
+    let block = 10;
+    const provider = { getBlockNumber: async () => block } as unknown as Provider;
+    const events = new RookEvents(provider, 5);
+
+    const delivered: string[] = [];
+    const errors: Error[] = [];
+    const unsubscribe = events.subscribe(contract, 'EscrowCreated', {}, (event) => {
+      delivered.push(event.escrowId);
+      if (event.escrowId === first) throw new Error('handler failed');
+    }, { fromBlock: 10, onError: (error) => errors.push(error) });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    block = 11;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    unsubscribe();
+
+    expect(delivered).toEqual([first, second]);
+    expect(errors.map((error) => error.message)).toEqual(['handler failed']);
+    expect(ranges).toEqual([[10, 10], [11, 11]]);
+  });
+});
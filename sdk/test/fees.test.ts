@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Provider } from 'ethers';
+import { bumpFees, capFees, resolveFees } from '../src/utils/fees';
+import { ErrorCodes } from '../src/utils/errors';
+
+const GWEI = 1_000_000_000n;
+
+describe('capFees', () => {
+  it('leaves fees alone without a cap', () => {
+    const fees = { maxFeePerGas: 100n * GWEI, maxPriorityFeePerGas: 2n * GWEI };
+    expect(capFees(fees)).toBe(fees);
+  });
+
+  it('clamps the max fee and keeps the priority fee at or below it', () => {
+    expect(capFees({ maxFeePerGas: 100n * GWEI, maxPriorityFeePerGas: 60n * GWEI }, 50n * GWEI))
+      .toEqual({ maxFeePerGas: 50n * GWEI, maxPriorityFeePerGas: 50n * GWEI });
+    expect(capFees({ maxFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 2n * GWEI }, 50n * GWEI))
+      .toEqual({ maxFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 2n * GWEI });
+  });
+
+  it('clamps a legacy gas price', () => {
+    expect(capFees({ gasPrice: 80n * GWEI }, 50n * GWEI)).toEqual({ gasPrice: 50n * GWEI });
+  });
+});
+
+describe('resolveFees', () => {
+  it('applies the cap to fixed fees', async () => {
+    const fees = await resolveFees({} as Provider, {
+      type: 'fixed',
+      maxFeePerGas: 100n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+      maxFeeCap: 40n * GWEI
+    });
+    expect(fees).toEqual({ maxFeePerGas: 40n * GWEI, maxPriorityFeePerGas: 2n * GWEI });
+  });
+});
+
+describe('bumpFees', () => {
+  const original = { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+
+  it('bumps both EIP-1559 fees by at least 10%, rounding up', () => {
+    expect(bumpFees(original, { maxFeePerGas: 1n, maxPriorityFeePerGas: 1n }, 5))
+      .toEqual({ maxFeePerGas: 110n, maxPriorityFeePerGas: 11n });
+    expect(bumpFees({ maxFeePerGas: 101n, maxPriorityFeePerGas: 3n }, { maxFeePerGas: 1n, maxPriorityFeePerGas: 1n }, 25))
+      .toEqual({ maxFeePerGas: 127n, maxPriorityFeePerGas: 4n });
+  });
+
+  it('uses the current fees when they are higher than the bump', () => {
+    expect(bumpFees(original, { maxFeePerGas: 500n, maxPriorityFeePerGas: 50n }, 10))
+      .toEqual({ maxFeePerGas: 500n, maxPriorityFeePerGas: 50n });
+  });
+
+  it('keeps the max fee at or above the priority fee', () => {
+    expect(bumpFees(original, { maxFeePerGas: 20n, maxPriorityFeePerGas: 200n }, 10))
+      .toEqual({ maxFeePerGas: 200n, maxPriorityFeePerGas: 200n });
+  });
+
+  it('bumps legacy gas prices and mixes in current fees of either kind', () => {
+    expect(bumpFees({ gasPrice: 100n }, { gasPrice: 50n }, 20)).toEqual({ gasPrice: 120n });
+    expect(bumpFees({ gasPrice: 100n }, { maxFeePerGas: 300n, maxPriorityFeePerGas: 1n }, 10)).toEqual({ gasPrice: 300n });
+    expect(bumpFees(original, { gasPrice: 150n }, 10)).toEqual({ maxFeePerGas: 150n, maxPriorityFeePerGas: 150n });
+  });
+
+  it('refuses a replacement above the fee cap instead of clamping it', () => {
+    expect(() => bumpFees(original, original, 10, 105n))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.FEE_CAP_EXCEEDED }));
+    expect(bumpFees(original, original, 10, 110n)).toEqual({ maxFeePerGas: 110n, maxPriorityFeePerGas: 11n });
+  });
+});
@@ -0,0 +1,336 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ChallengeGuard } from '../src/guard';
+import { RookProtocol } from '../src/client';
+import { ChallengeGuardAlert, ChallengeGuardOptions, ProofResult, WaitOptions } from '../src/types';
+import { ErrorCodes, RookError } from '../src/utils/errors';
+
+const SELLER = '0x1000000000000000000000000000000000000001';
+const OTHER_SELLER = '0x1000000000000000000000000000000000000002';
+const ESCROW = '0x' + 'aa'.repeat(32);
+// responseDeadline = deadline - CHALLENGE_BLOCKS + CHALLENGE_RESPONSE_WINDOW = 125
+const DEADLINE = 150;
+
+function proof(escrowId: string, overrides: Partial<ProofResult> = {}): ProofResult {
+  return {
+    escrowId,
+    method: 'wallet_signature',
+    signature: '0xsig',
+    timestamp: 1_700_000_000,
+    responseHash: '0xresponse',
+    txHash: '0xrespond',
+    verified: true,
+    resolved: true,
+    resolutionTxHash: '0xresolve',
+    ...overrides
+  };
+}
+
+/**
+ * The RookProtocol surface ChallengeGuard uses, with a chain the test mines by hand
+ */
+class FakeRook {
+  block = 100;
+  escrows = new Map<string, { seller: string; challenge: { status: string; deadline: number } | null }>();
+  onChallenge: ((event: { escrowId: string }) => void) | null = null;
+  private waiters: Array<{ block: number; resolve: (block: number) => void }> = [];
+
+  unsubscribe = vi.fn();
+  proveIdentity = vi.fn(async (escrowId: string) => proof(escrowId));
+  submitChallengeProof = vi.fn(async (escrowId: string) =>
+    ({ escrowId, valid: true, resolved: true, txHash: '0xresolve' }));
+  getQueueState = vi.fn(() => ({ queued: 0, nextNonce: null, pending: [] as Array<{ hash: string; nonce: number; operation: string }> }));
+  speedUp = vi.fn(async () => ({}));
+
+  challenged(escrowId: string, seller = SELLER): void {
+    this.escrows.set(escrowId, { seller, challenge: { status: 'Active', deadline: DEADLINE } });
+  }
+
+  /** Calls blocked in waitForBlock */
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  mine(count = 1): void {
+    this.block += count;
+    const ready = this.waiters.filter((w) => w.block <= this.block);
+    this.waiters = this.waiters.filter((w) => w.block > this.block);
+    ready.forEach((w) => w.resolve(this.block));
+  }
+
+  getOracleClient() {
+    return {};
+  }
+
+  async getAddress(): Promise<string> {
+    return SELLER;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.block;
+  }
+
+  subscribe(_event: string, callback: (event: { escrowId: string }) => void): () => void {
+    this.onChallenge = callback;
+    return this.unsubscribe;
+  }
+
+  async *listEscrows({ seller }: { seller: string }) {
+    for (const [id, escrow] of this.escrows) {
+      if (escrow.seller.toLowerCase() === seller && escrow.challenge) yield { id };
+    }
+  }
+
+  async getEscrow(escrowId: string) {
+    return { id: escrowId, seller: this.escrows.get(escrowId)!.seller };
+  }
+
+  async getChallenge(escrowId: string) {
+    return this.escrows.get(escrowId)?.challenge ?? null;
+  }
+
+  waitForBlock(block: number, { signal }: WaitOptions = {}): Promise<number> {
+    if (block <= this.block) return Promise.resolve(this.block);
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ block, resolve });
+      signal?.addEventListener('abort', () => reject(new RookError(ErrorCodes.ABORTED, 'aborted')));
+    });
+  }
+}
+
+const guards: ChallengeGuard[] = [];
+
+afterEach(() => {
+  guards.splice(0).forEach((guard) => guard.stop());
+});
+
+function watch(rook: FakeRook, options: ChallengeGuardOptions = {}) {
+  const alerts: ChallengeGuardAlert[] = [];
+  const responses: ProofResult[] = [];
+  const errors: Error[] = [];
+  const guard = new ChallengeGuard(rook as unknown as RookProtocol, {
+    onAlert: (alert) => alerts.push(alert),
+    onResponse: (result) => responses.push(result),
+    onError: (error) => errors.push(error),
+    ...options
+  });
+  guards.push(guard);
+  return { guard, alerts, responses, errors };
+}
+
+describe('ChallengeGuard', () => {
+  it('answers challenges already open at start', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.challenged('0x' + 'bb'.repeat(32), OTHER_SELLER);
+    const { guard, responses, alerts } = watch(rook);
+
+    await guard.start();
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toMatchObject({ escrowId: ESCROW, resolved: true });
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(1);
+    expect(guard.getChallenges()).toEqual([]);
+    expect(alerts).toEqual([]);
+  });
+
+  it('answers a new challenge once even when it is seen twice', async () => {
+    const rook = new FakeRook();
+    const { guard, responses } = watch(rook);
+    await guard.start();
+
+    rook.challenged(ESCROW);
+    rook.onChallenge!({ escrowId: ESCROW });
+    rook.onChallenge!({ escrowId: ESCROW });
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failed response and alerts once the retries run out', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(new RookError(ErrorCodes.NETWORK_ERROR, 'connection refused'));
+    const { guard, alerts, errors } = watch(rook, { retries: 2 });
+
+    await guard.start();
+
+    // Attempts are 1, then 2 blocks apart (the block watcher waits too)
+    await vi.waitFor(() => expect(rook.waiting).toBe(2));
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(1);
+    rook.mine();
+    await vi.waitFor(() => expect(rook.proveIdentity).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(rook.waiting).toBe(2));
+    rook.mine();
+    await vi.waitFor(() => expect(rook.waiting).toBe(2));
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(2);
+    rook.mine();
+
+    await vi.waitFor(() => expect(alerts).toHaveLength(1));
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(3);
+    expect(errors).toHaveLength(2);
+    expect(alerts[0]).toMatchObject({ type: 'failed', escrowId: ESCROW, blocksLeft: 22 });
+    expect(alerts[0].error?.code).toBe(ErrorCodes.NETWORK_ERROR);
+  });
+
+  it('does not retry a response that could no longer be mined in the window', async () => {
+    const rook = new FakeRook();
+    rook.block = 124;
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(new RookError(ErrorCodes.NETWORK_ERROR, 'connection refused'));
+    const { guard, alerts } = watch(rook, { bumpWithinBlocks: 0, retries: 5 });
+
+    await guard.start();
+    await vi.waitFor(() => expect(rook.waiting).toBe(2));
+    rook.mine();
+
+    await vi.waitFor(() => expect(alerts).toMatchObject([{ type: 'missed', blocksLeft: 0 }]));
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(1);
+  });
+
+  it('alerts a missed challenge when the response window closed', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(
+      new RookError(ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED, 'window closed'));
+    const { guard, alerts } = watch(rook);
+
+    await guard.start();
+
+    await vi.waitFor(() => expect(alerts).toHaveLength(1));
+    expect(alerts[0].type).toBe('missed');
+    expect(rook.proveIdentity).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers a pending response to the oracle once it is mined', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(new RookError(ErrorCodes.NETWORK_ERROR, 'timed out', {
+      txHash: '0xrespond', signature: '0xsig', timestamp: 1_700_000_000, responseHash: '0xresponse', pending: true
+    }));
+    const { guard, responses } = watch(rook);
+
+    await guard.start();
+    await vi.waitFor(() => expect(guard.getChallenges()).toMatchObject([{ escrowId: ESCROW, state: 'pending' }]));
+
+    rook.escrows.get(ESCROW)!.challenge!.status = 'Responded';
+    rook.mine();
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(rook.submitChallengeProof).toHaveBeenCalledWith(ESCROW, '0xsig', { timestamp: 1_700_000_000 });
+    expect(responses[0]).toMatchObject({ txHash: '0xrespond', resolved: true, resolutionTxHash: '0xresolve' });
+  });
+
+  it('bumps the pending response and the sends ahead of it near the deadline', async () => {
+    const rook = new FakeRook();
+    rook.block = 114;
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(new RookError(ErrorCodes.NETWORK_ERROR, 'timed out', {
+      txHash: '0xrespond', signature: '0xsig', timestamp: 1_700_000_000, responseHash: '0xresponse', pending: true
+    }));
+    rook.getQueueState.mockReturnValue({
+      queued: 0,
+      nextNonce: 6,
+      pending: [
+        { hash: '0xcreate', nonce: 3, operation: 'Create escrow' },
+        { hash: '0xrespond', nonce: 4, operation: 'Challenge response' },
+        { hash: '0xrelease', nonce: 5, operation: 'Release escrow' }
+      ]
+    });
+    const { guard, alerts } = watch(rook, { bumpPercent: 25 });
+
+    await guard.start();
+    await vi.waitFor(() => expect(guard.getChallenges()).toMatchObject([{ state: 'pending' }]));
+    expect(rook.speedUp).not.toHaveBeenCalled();
+
+    rook.mine();
+    await vi.waitFor(() => expect(rook.speedUp).toHaveBeenCalledTimes(2));
+    expect(rook.speedUp.mock.calls).toEqual([['0xcreate', 25], ['0xrespond', 25]]);
+    expect(alerts).toMatchObject([{ type: 'at_risk', blocksLeft: 10 }]);
+
+    rook.mine();
+    await vi.waitFor(() => expect(rook.speedUp).toHaveBeenCalledTimes(4));
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('alerts a missed challenge when a pending response is not mined in time', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockRejectedValue(new RookError(ErrorCodes.NETWORK_ERROR, 'timed out', {
+      txHash: '0xrespond', signature: '0xsig', timestamp: 1_700_000_000, responseHash: '0xresponse', pending: true
+    }));
+    const { guard, alerts } = watch(rook, { bumpWithinBlocks: 0 });
+
+    await guard.start();
+    await vi.waitFor(() => expect(guard.getChallenges()).toHaveLength(1));
+    rook.mine(25);
+
+    await vi.waitFor(() => expect(alerts).toMatchObject([{ type: 'missed', blocksLeft: 0 }]));
+    expect(guard.getChallenges()).toEqual([]);
+  });
+
+  it('resubmits the proof when the oracle failed to resolve', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockResolvedValue(proof(ESCROW, {
+      resolved: false,
+      resolutionTxHash: undefined,
+      oracleError: new RookError(ErrorCodes.ORACLE_ERROR, 'oracle unavailable')
+    }));
+    const { guard, responses } = watch(rook);
+
+    await guard.start();
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(rook.submitChallengeProof).toHaveBeenCalledTimes(1);
+    expect(responses[0].oracleError).toBeUndefined();
+  });
+
+  it('does not resubmit a signature the oracle rejected', async () => {
+    const rook = new FakeRook();
+    rook.challenged(ESCROW);
+    rook.proveIdentity.mockResolvedValue(proof(ESCROW, {
+      verified: false,
+      resolved: false,
+      oracleError: new RookError(ErrorCodes.INVALID_RESPONSE, 'bad signature')
+    }));
+    const { guard, alerts, responses } = watch(rook);
+
+    await guard.start();
+
+    await vi.waitFor(() => expect(alerts).toHaveLength(1));
+    expect(alerts[0]).toMatchObject({ type: 'oracle_failed', error: { code: ErrorCodes.INVALID_RESPONSE } });
+    expect(rook.submitChallengeProof).not.toHaveBeenCalled();
+    expect(responses).toEqual([]);
+  });
+
+  it('stops everything when the start-up scan fails, so start() can be retried', async () => {
+    const rook = new FakeRook();
+    const listEscrows = rook.listEscrows.bind(rook);
+    rook.listEscrows = async function* () {
+      throw new RookError(ErrorCodes.NETWORK_ERROR, 'connection refused');
+    };
+    const { guard } = watch(rook);
+
+    await expect(guard.start()).rejects.toMatchObject({ code: ErrorCodes.NETWORK_ERROR });
+    expect(rook.unsubscribe).toHaveBeenCalledTimes(1);
+
+    rook.listEscrows = listEscrows;
+    rook.challenged(ESCROW);
+    await guard.start();
+    await vi.waitFor(() => expect(rook.proveIdentity).toHaveBeenCalledTimes(1));
+  });
+
+  it('stops watching on stop()', async () => {
+    const rook = new FakeRook();
+    const { guard } = watch(rook);
+
+    await guard.start();
+    guard.stop();
+
+    expect(rook.unsubscribe).toHaveBeenCalledTimes(1);
+    rook.challenged(ESCROW);
+    rook.onChallenge!({ escrowId: ESCROW });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(rook.proveIdentity).not.toHaveBeenCalled();
+  });
+});
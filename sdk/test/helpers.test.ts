@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatUSDC, toUSDCDecimal } from '../src/utils/helpers';
+import { MockRookProtocol } from '../src/mock';
+
+const BUYER = '0x2000000000000000000000000000000000000001';
+const SELLER = '0x1000000000000000000000000000000000000001';
+
+describe('formatUSDC', () => {
+  it('formats raw units exactly, rounding half up to cents', () => {
+    expect(formatUSDC(1_500_000n)).toBe('$1.50 USDC');
+    expect(formatUSDC(1_234_999n)).toBe('$1.23 USDC');
+    expect(formatUSDC(1_235_000n)).toBe('$1.24 USDC');
+    expect(formatUSDC(0n)).toBe('$0.00 USDC');
+    expect(formatUSDC(-1_005_000n)).toBe('$-1.01 USDC');
+    expect(formatUSDC(-4_000n)).toBe('$0.00 USDC');
+  });
+
+  it('keeps amounts a JavaScript number would round', () => {
+    // 2^53 + 1 USDC: not representable as a double
+    expect(formatUSDC(9_007_199_254_740_993n * 1_000_000n)).toBe('$9007199254740993.00 USDC');
+    expect(formatUSDC('9007199254740993.005')).toBe('$9007199254740993.01 USDC');
+  });
+
+  it('parses decimal strings at USDC precision and falls back to numbers', () => {
+    expect(formatUSDC('1.5')).toBe('$1.50 USDC');
+    expect(formatUSDC(' 0.125 ')).toBe('$0.13 USDC');
+    expect(formatUSDC(12.345)).toBe('$12.35 USDC');
+    // Beyond 6 decimals: not a USDC amount, formatted as a number
+    expect(formatUSDC('1.0000001')).toBe('$1.00 USDC');
+  });
+});
+
+describe('toUSDCDecimal', () => {
+  it('renders raw units as an exact decimal string', () => {
+    expect(toUSDCDecimal(1_500_000n)).toBe('1.5');
+    expect(toUSDCDecimal(100_000_000n)).toBe('100');
+    expect(toUSDCDecimal(1n)).toBe('0.000001');
+    expect(toUSDCDecimal(123_456_789_012_345_678n)).toBe('123456789012.345678');
+  });
+});
+
+describe('result amounts', () => {
+  it('carry the exact units and decimal of a bigint input', async () => {
+    const rook = new MockRookProtocol({ address: BUYER });
+    rook.mint(BUYER, 1_000_000_000_001n);
+
+    const escrow = await rook.createEscrow({ amount: 999_999_999_999n, recipient: SELLER, job: 'Audit' });
+    expect(escrow).toMatchObject({ amountUnits: 999_999_999_999n, amountDecimal: '999999.999999' });
+    expect(await rook.getBalanceUnits()).toBe(2n);
+    expect(formatUSDC(escrow.amountUnits)).toBe('$1000000.00 USDC');
+  });
+});
@@ -0,0 +1,350 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers, Wallet } from 'ethers';
+import { MockRookProtocol } from '../src/mock';
+import { ErrorCodes } from '../src/utils/errors';
+import { computeResponseHash, signChallenge } from '../src/utils/proof';
+import { MockRookOptions, RookEventMap } from '../src/types';
+
+const BUYER = '0x2000000000000000000000000000000000000001';
+const SELLER = '0x1000000000000000000000000000000000000001';
+const OPERATOR = '0x3000000000000000000000000000000000000001';
+const CHALLENGER = '0x4000000000000000000000000000000000000001';
+const OWNER = '0x5000000000000000000000000000000000000001';
+const FEES = '0x6000000000000000000000000000000000000001';
+
+const START = 1_700_000_000;
+const DAY = 24 * 60 * 60;
+const USDC = 1_000_000n;
+
+function setup(options: MockRookOptions = {}) {
+  const buyer = new MockRookProtocol({ address: BUYER, owner: OWNER, operators: [OPERATOR], timestamp: START, ...options });
+  buyer.mint(BUYER, '20000');
+  buyer.mint(CHALLENGER, '100');
+  // Composite 80 once the seller has an escrow (history 0)
+  buyer.setScores(SELLER, { identity: 100, reputation: 100, sybil: 100 });
+
+  return {
+    buyer,
+    seller: buyer.connect(SELLER),
+    operator: buyer.connect(OPERATOR),
+    challenger: buyer.connect(CHALLENGER),
+    owner: buyer.connect(OWNER)
+  };
+}
+
+function create(rook: MockRookProtocol, amount = '100', recipient = SELLER) {
+  return rook.createEscrow({ amount, recipient, job: 'Audit' });
+}
+
+describe('MockRookProtocol escrows', () => {
+  it('releases through the oracle at the seller score, less the protocol fee', async () => {
+    const { buyer, operator } = setup({ feeBps: 100, feeRecipient: FEES });
+    const { id } = await create(buyer);
+
+    await expect(buyer.release(id)).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    await operator.release(id);
+
+    expect((await buyer.getEscrow(id)).status).toBe('Released');
+    expect(await buyer.getBalanceUnits(SELLER)).toBe(99n * USDC);
+    expect(await buyer.getBalanceUnits(FEES)).toBe(1n * USDC);
+    expect(await buyer.queryEvents('EscrowReleased', { escrowId: id })).toMatchObject([
+      { seller: SELLER, amount: 99n * USDC, trustScore: 80, releaseReason: ethers.id('oracle_release') }
+    ]);
+    expect(await buyer.queryEvents('FeesCollected')).toMatchObject([{ escrowId: id, feeAmount: 1n * USDC }]);
+    await expect(operator.release(id)).rejects.toMatchObject({ code: ErrorCodes.ESCROW_NOT_ACTIVE });
+  });
+
+  it('does not release on a stale score or below the threshold', async () => {
+    const { buyer, operator } = setup();
+    const strict = await buyer.createEscrow({ amount: '100', recipient: SELLER, job: 'Audit', threshold: 90 });
+    await expect(operator.release(strict.id)).rejects.toMatchObject({ code: ErrorCodes.BELOW_THRESHOLD });
+
+    const { id } = await create(buyer);
+    buyer.advanceTime(60 * 60 + 1);
+    await expect(operator.release(id)).rejects.toMatchObject({ code: ErrorCodes.STALE_SCORE });
+    expect((await buyer.getEscrow(id)).status).toBe('Active');
+  });
+
+  it('releases with the consent of both parties after the oracle timeout', async () => {
+    const { buyer, seller, challenger } = setup();
+    const { id } = await create(buyer);
+
+    await expect(buyer.releaseWithConsent(id)).rejects.toMatchObject({ code: ErrorCodes.ORACLE_TIMEOUT_NOT_MET });
+    buyer.advanceTime(DAY);
+    await expect(challenger.releaseWithConsent(id)).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+
+    await buyer.releaseWithConsent(id);
+    expect(await buyer.getReleaseConsent(id)).toEqual({ escrowId: id, buyer: true, seller: false });
+    expect((await buyer.getEscrow(id)).status).toBe('Active');
+
+    await seller.releaseWithConsent(id);
+    expect((await buyer.getEscrow(id)).status).toBe('Released');
+    expect(await buyer.getBalanceUnits(SELLER)).toBe(100n * USDC);
+    expect(await buyer.queryEvents('EscrowReleased')).toMatchObject([
+      { trustScore: 0, releaseReason: ethers.id('consent_release') }
+    ]);
+  });
+
+  it('refunds the buyer on request and, to the buyer only, at expiry', async () => {
+    const { buyer, seller } = setup();
+    const refunded = await create(buyer);
+    await expect(seller.refund(refunded.id, 'No delivery')).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    await buyer.refund(refunded.id, 'No delivery');
+    expect((await buyer.getEscrow(refunded.id)).status).toBe('Refunded');
+    expect(await buyer.getBalanceUnits()).toBe(20000n * USDC);
+
+    const { id, expiresAt } = await create(buyer);
+    await expect(buyer.claimExpired(id)).rejects.toMatchObject({ code: ErrorCodes.ESCROW_NOT_EXPIRED });
+    buyer.setTime(expiresAt);
+    await expect(seller.claimExpired(id)).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    await buyer.claimExpired(id);
+
+    expect(await buyer.getBalanceUnits()).toBe(20000n * USDC);
+    expect((await buyer.queryEvents('EscrowRefunded')).map((event) => event.reason)).toEqual(['No delivery', 'Expired']);
+  });
+
+  it('resolves small disputes at once and schedules high-value ones behind the timelock', async () => {
+    const { buyer, seller, owner } = setup();
+    const small = await create(buyer);
+    await seller.dispute(small.id, 'ipfs://evidence');
+    expect((await buyer.getEscrow(small.id)).status).toBe('Disputed');
+    await expect(buyer.resolveDispute(small.id, BUYER, 'Not delivered')).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+
+    expect(await owner.resolveDispute(small.id, BUYER, 'Not delivered')).toMatchObject({ scheduled: false });
+    expect((await buyer.getEscrow(small.id)).status).toBe('Refunded');
+
+    const large = await create(buyer, '10000');
+    await buyer.dispute(large.id, 'ipfs://evidence');
+    const scheduled = await owner.resolveDispute(large.id, SELLER, 'Delivered');
+    expect(scheduled).toMatchObject({ scheduled: true });
+    await expect(owner.executeDisputeResolution(large.id)).rejects.toMatchObject({ code: ErrorCodes.TIMELOCK_NOT_READY });
+
+    owner.setTime(scheduled.executeAfter!);
+    await owner.executeDisputeResolution(large.id);
+    expect((await buyer.getEscrow(large.id)).status).toBe('Released');
+    expect(await buyer.getBalanceUnits(SELLER)).toBe(10000n * USDC);
+    expect((await buyer.queryEvents('DisputeResolved')).map((event) => event.winner)).toEqual([BUYER, SELLER]);
+  });
+
+  it('blocks whenNotPaused writes while paused', async () => {
+    const { buyer } = setup();
+    const { id, expiresAt } = await create(buyer);
+    buyer.setPaused(true);
+
+    await expect(create(buyer)).rejects.toMatchObject({ code: ErrorCodes.CONTRACT_PAUSED });
+    await expect(buyer.refund(id, 'No delivery')).rejects.toMatchObject({ code: ErrorCodes.CONTRACT_PAUSED });
+
+    buyer.setTime(expiresAt);
+    await buyer.claimExpired(id);
+    expect(await buyer.queryEvents('Paused')).toMatchObject([{ account: OWNER }]);
+  });
+});
+
+describe('MockRookProtocol challenges', () => {
+  it('slashes half the stake to a seller who passes and reactivates the escrow', async () => {
+    const { buyer, seller, operator, challenger } = setup();
+    const { id } = await create(buyer);
+
+    await expect(seller.challenge({ escrowId: id })).rejects.toMatchObject({ code: ErrorCodes.SELF_CHALLENGE });
+    const challenge = await challenger.challenge({ escrowId: id });
+    expect(challenge.deadline).toBe(await buyer.getBlockNumber() + 50);
+    expect((await buyer.getEscrow(id)).status).toBe('Challenged');
+
+    await seller.respondChallenge(id, 'proof');
+    expect(await buyer.getChallenge(id)).toMatchObject({ status: 'Responded' });
+    await operator.resolveChallenge(id, true);
+
+    expect((await buyer.getEscrow(id)).status).toBe('Active');
+    expect(await buyer.getChallenge(id)).toBeNull();
+    expect(await buyer.getBalanceUnits(CHALLENGER)).toBe(97_500_000n);
+    expect(await buyer.getBalanceUnits(SELLER)).toBe(2_500_000n);
+    expect((await buyer.verify(SELLER)).breakdown.challenge_bonus).toBe(1);
+
+    await operator.release(id);
+    expect((await buyer.getEscrowTimeline(id)).entries.map((entry) => entry.type)).toEqual([
+      'EscrowCreated',
+      'ChallengeInitiated',
+      'ChallengeResponded',
+      'ChallengeStakeSlashed',
+      'ChallengeResolved',
+      'EscrowReleased'
+    ]);
+  });
+
+  it('refunds the buyer and returns the stake when the seller fails or times out', async () => {
+    const { buyer, seller, operator, challenger } = setup();
+    const failed = await create(buyer);
+    await challenger.challenge({ escrowId: failed.id });
+    await operator.resolveChallenge(failed.id, false);
+    expect((await buyer.getEscrow(failed.id)).status).toBe('Refunded');
+    expect(await buyer.getBalanceUnits(CHALLENGER)).toBe(100n * USDC);
+
+    buyer.advanceTime(60 * 60);
+    const timedOut = await create(buyer);
+    const { deadline } = await challenger.challenge({ escrowId: timedOut.id });
+    await expect(challenger.claimTimeout(timedOut.id)).rejects.toMatchObject({ code: ErrorCodes.CHALLENGE_NOT_EXPIRED });
+
+    // The response window closes halfway to the deadline
+    buyer.mineBlocks(25);
+    await expect(seller.respondChallenge(timedOut.id, 'late'))
+      .rejects.toMatchObject({ code: ErrorCodes.CHALLENGE_RESPONSE_WINDOW_EXPIRED });
+
+    buyer.mineBlocks(deadline + 1 - await buyer.getBlockNumber());
+    await challenger.claimTimeout(timedOut.id);
+    expect((await buyer.getEscrow(timedOut.id)).status).toBe('Refunded');
+    expect(await buyer.getBalanceUnits()).toBe(20000n * USDC);
+    expect(await buyer.getBalanceUnits(CHALLENGER)).toBe(100n * USDC);
+  });
+
+  it('enforces the challenge cooldown', async () => {
+    const { buyer, challenger } = setup();
+    const first = await create(buyer);
+    const second = await create(buyer);
+    await challenger.challenge({ escrowId: first.id });
+
+    await expect(challenger.challenge({ escrowId: second.id }))
+      .rejects.toMatchObject({ code: ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE });
+    buyer.advanceTime(60 * 60);
+    await challenger.challenge({ escrowId: second.id });
+  });
+
+  it('proves identity and has the stand-in oracle resolve the challenge', async () => {
+    const { buyer, seller, challenger } = setup();
+    const { id } = await create(buyer);
+    await challenger.challenge({ escrowId: id });
+
+    await expect(buyer.proveIdentity(id)).rejects.toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+    await expect(seller.proveIdentity(id, 'behavioral')).rejects.toMatchObject({ code: ErrorCodes.NOT_IMPLEMENTED });
+
+    const proof = await seller.proveIdentity(id);
+    expect(proof).toMatchObject({ verified: true, resolved: true });
+    expect(proof.responseHash).toBe(computeResponseHash(id, proof.signature, proof.timestamp));
+    expect(ethers.dataLength(proof.signature)).toBe(65);
+    expect((await buyer.getEscrow(id)).status).toBe('Active');
+    expect(await buyer.queryEvents('ChallengeResponded', { escrowId: id })).toMatchObject([{ responseHash: proof.responseHash }]);
+  });
+
+  it('checks submitted proofs against the seller', async () => {
+    const wallet = new Wallet(ethers.id('rook-mock-seller'));
+    const { buyer, challenger } = setup();
+    buyer.setScores(wallet.address, { identity: 100, reputation: 100, sybil: 100 });
+    const { id } = await create(buyer, '100', wallet.address);
+    await challenger.challenge({ escrowId: id });
+
+    const signature = await signChallenge(wallet, id);
+    expect(await buyer.submitChallengeProof(id, signature, { resolve: false }))
+      .toEqual({ escrowId: id, valid: true, resolved: false });
+    expect(await buyer.submitChallengeProof(id, await signChallenge(Wallet.createRandom(), id)))
+      .toMatchObject({ valid: false, resolved: false });
+    // The response hash on-chain is still zero
+    expect(await buyer.submitChallengeProof(id, signature, { timestamp: START }))
+      .toMatchObject({ valid: false, message: 'Response hash does not match the on-chain challenge response' });
+  });
+});
+
+describe('MockRookProtocol events and waiting', () => {
+  it('delivers matching events to subscribers once mined', async () => {
+    const { buyer } = setup();
+    const created: Array<RookEventMap['EscrowCreated']> = [];
+    const errors: Error[] = [];
+    const unsubscribe = buyer.subscribe('EscrowCreated', (event) => {
+      created.push(event);
+      throw new Error('handler failed');
+    }, { seller: SELLER }, { onError: (error) => errors.push(error) });
+
+    const { id, txHash } = await create(buyer);
+    await vi.waitFor(() => expect(created).toHaveLength(1));
+    expect(created[0]).toMatchObject({
+      escrowId: id,
+      buyer: BUYER,
+      amount: 100n * USDC,
+      trustThreshold: 65,
+      transactionHash: txHash,
+      blockNumber: await buyer.getBlockNumber()
+    });
+    expect(errors.map((error) => error.message)).toEqual(['handler failed']);
+
+    unsubscribe();
+    await create(buyer);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(created).toHaveLength(1);
+  });
+
+  it('replays history from fromBlock', async () => {
+    const { buyer } = setup();
+    await create(buyer);
+    const fromBlock = await buyer.getBlockNumber() + 1;
+    await create(buyer);
+
+    const seen: number[] = [];
+    buyer.subscribe('EscrowCreated', (event) => seen.push(event.blockNumber), {}, { fromBlock });
+    await vi.waitFor(() => expect(seen).toEqual([fromBlock]));
+  });
+
+  it('waits for a status, a block and a challenge deadline', async () => {
+    const { buyer, seller, operator, challenger } = setup();
+    const { id } = await create(buyer);
+
+    const released = buyer.waitForStatus(id, ['Released', 'Refunded']);
+    const block = buyer.waitForBlock(await buyer.getBlockNumber() + 10);
+    await operator.release(id);
+    expect(await released).toMatchObject({ status: 'Released' });
+    buyer.mineBlocks(10);
+    expect(await block).toBe(await buyer.getBlockNumber());
+
+    const challenged = await create(buyer);
+    await challenger.challenge({ escrowId: challenged.id });
+    const deadline = buyer.waitForChallengeDeadline(challenged.id);
+    await seller.respondChallenge(challenged.id, 'proof');
+    expect(await deadline).toMatchObject({ status: 'Responded' });
+  });
+
+  it('times out and aborts waits', async () => {
+    const { buyer } = setup();
+    await expect(buyer.waitForBlock(1_000_000, { timeoutMs: 5 }))
+      .rejects.toMatchObject({ code: ErrorCodes.WAIT_TIMEOUT, details: { timeoutMs: 5 } });
+
+    const controller = new AbortController();
+    const waiting = buyer.waitForBlock(1_000_000, { signal: controller.signal });
+    controller.abort('done');
+    await expect(waiting).rejects.toMatchObject({ code: ErrorCodes.ABORTED, details: { reason: 'done' } });
+    await expect(buyer.waitForStatus(ethers.ZeroHash, 'Released')).rejects.toMatchObject({ code: ErrorCodes.ESCROW_NOT_FOUND });
+  });
+});
+
+describe('MockRookProtocol previews and transactions', () => {
+  it('previews writes without changing the state', async () => {
+    const { buyer, seller, operator } = setup({ feeBps: 100, feeRecipient: FEES });
+    const { id } = await create(buyer);
+    const block = await buyer.getBlockNumber();
+
+    expect(await operator.previewRelease(id)).toMatchObject({
+      ok: true,
+      steps: [{ operation: 'Escrow release', method: 'triggerRelease', simulated: true }],
+      protocolFeeUnits: 1n * USDC
+    });
+    expect((await buyer.getEscrow(id)).status).toBe('Active');
+    expect(await buyer.getBalanceUnits(SELLER)).toBe(0n);
+    expect(await buyer.getBlockNumber()).toBe(block);
+    expect(await buyer.queryEvents('EscrowReleased')).toEqual([]);
+
+    const revert = await seller.previewRefund(id, 'No delivery');
+    expect(revert.ok).toBe(false);
+    expect(revert.steps[0].error).toMatchObject({ code: ErrorCodes.UNAUTHORIZED });
+
+    const precheck = await buyer.previewRefund(id, '');
+    expect(precheck).toMatchObject({ ok: false, steps: [], error: { code: ErrorCodes.INVALID_AGENT } });
+  });
+
+  it('reports mined writes as impossible to speed up or cancel', async () => {
+    const { buyer } = setup();
+    const { txHash } = await create(buyer);
+
+    await expect(buyer.speedUp(txHash!)).rejects.toMatchObject({
+      code: ErrorCodes.TX_ALREADY_MINED,
+      details: { txHash, blockNumber: await buyer.getBlockNumber() }
+    });
+    await expect(buyer.cancel(ethers.ZeroHash)).rejects.toMatchObject({ code: ErrorCodes.TX_NOT_FOUND });
+    expect(buyer.getQueueState()).toEqual({ queued: 0, pending: [], nextNonce: null });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PolicyState,
+  evaluatePolicy,
+  mergePolicy,
+  needsChallenge,
+  policyNeedsScore,
+  policyViolationError
+} from '../src/utils/policy';
+import { ErrorCodes } from '../src/utils/errors';
+import { getRiskLevel } from '../src/utils/helpers';
+import { VerificationResult } from '../src/types';
+
+const SELLER = '0x1000000000000000000000000000000000000001';
+const OTHER = '0x1000000000000000000000000000000000000002';
+const NOW = 1_700_000_000;
+const USDC = 1_000_000n;
+
+function verification(trustScore: number, overrides: Partial<VerificationResult> = {}): VerificationResult {
+  return {
+    agent: SELLER,
+    address: SELLER,
+    trust_score: trustScore,
+    breakdown: {
+      erc8004_identity: trustScore,
+      reputation_signals: trustScore,
+      sybil_resistance: trustScore,
+      escrow_history: trustScore,
+      challenge_bonus: 0
+    },
+    risk_level: getRiskLevel(trustScore),
+    recommendation: '',
+    lastUpdated: NOW - 60,
+    isFresh: true,
+    freshUntil: NOW - 60 + 3600,
+    challengeBonusExpiresAt: null,
+    ...overrides
+  };
+}
+
+const stale = (trustScore: number) => verification(trustScore, { lastUpdated: NOW - 7200, isFresh: false, freshUntil: NOW - 3600 });
+
+function state(overrides: Partial<PolicyState> = {}): PolicyState {
+  return {
+    amount: 100n * USDC,
+    seller: SELLER,
+    verification: verification(0.9),
+    challenge: false,
+    nextChallengeTime: 0,
+    now: NOW,
+    ...overrides
+  };
+}
+
+const rules = (policy: Parameters<typeof evaluatePolicy>[0], overrides: Partial<PolicyState> = {}) =>
+  evaluatePolicy(policy, state(overrides)).map((violation) => violation.rule);
+
+describe('mergePolicy', () => {
+  it('overrides only the rules the escrow sets', () => {
+    expect(mergePolicy({ minTrustScore: 0.7, requireFresh: true }, { minTrustScore: 0.5, requireFresh: undefined }))
+      .toEqual({ minTrustScore: 0.5, requireFresh: true });
+  });
+});
+
+describe('policyNeedsScore', () => {
+  it('needs the score for score rules only', () => {
+    expect(policyNeedsScore({ allowlist: [SELLER] })).toBe(false);
+    expect(policyNeedsScore({ challengeRiskLevels: [] })).toBe(false);
+    expect(policyNeedsScore({ minTrustScore: 0.5 })).toBe(true);
+    expect(policyNeedsScore({ requireFresh: true })).toBe(true);
+    expect(policyNeedsScore({ challengeRiskLevels: ['HIGH'] })).toBe(true);
+  });
+});
+
+describe('needsChallenge', () => {
+  it('challenges fresh sellers at the listed risk levels, or when required', () => {
+    const policy = { challengeRiskLevels: ['ELEVATED' as const] };
+
+    expect(needsChallenge(policy, verification(0.55))).toBe(true);
+    expect(needsChallenge(policy, verification(0.9))).toBe(false);
+    expect(needsChallenge(policy, null)).toBe(false);
+    expect(needsChallenge({}, null, true)).toBe(true);
+  });
+
+  it('never challenges on a stale score, whatever its risk level', () => {
+    expect(needsChallenge({ challengeRiskLevels: ['HIGH'] }, stale(0.3))).toBe(false);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('allows an escrow that breaks no rule', () => {
+    expect(rules({ minTrustScore: 0.8, maxAmount: { LOW: 500 } })).toEqual([]);
+  });
+
+  it('applies the allowlist and denylist', () => {
+    expect(rules({}, { allowlist: [OTHER] })).toEqual(['allowlist']);
+    expect(rules({}, { denylist: [SELLER] })).toEqual(['denylist']);
+  });
+
+  it('caps the amount by risk level', () => {
+    const [violation] = evaluatePolicy({ maxAmount: { STANDARD: '50' } }, state({ verification: verification(0.7) }));
+
+    expect(violation).toMatchObject({ rule: 'maxAmount', limit: (50n * USDC).toString(), actual: (100n * USDC).toString() });
+    expect(rules({ maxAmount: { STANDARD: '50' } })).toEqual([]);
+  });
+
+  it('reports a stale score as requireFresh instead of judging it as a score', () => {
+    const [violation, ...rest] = evaluatePolicy({ minTrustScore: 0.5, maxAmount: { HIGH: 1 } }, state({ verification: stale(0.9) }));
+
+    expect(rest).toEqual([]);
+    expect(violation).toMatchObject({ rule: 'requireFresh', actual: NOW - 7200 });
+    expect(violation.message).toContain(`requireFresh: 'rescore'`);
+    expect(evaluatePolicy({ requireFresh: 'rescore' }, state({ verification: stale(0.9) }))[0].message)
+      .not.toContain('rescore');
+  });
+
+  it('reports a seller that was never scored', () => {
+    const never = verification(0, { lastUpdated: null, isFresh: false, freshUntil: null });
+    expect(evaluatePolicy({ requireFresh: true }, state({ verification: never }))[0].message)
+      .toContain('has never been scored');
+  });
+
+  it('refuses a required challenge during the buyer cooldown', () => {
+    expect(rules({}, { challenge: true, nextChallengeTime: NOW + 60 })).toEqual(['challenge']);
+    expect(rules({}, { challenge: true, nextChallengeTime: NOW })).toEqual([]);
+  });
+});
+
+describe('policyViolationError', () => {
+  it('names the first rule and lists every violation', () => {
+    const violations = evaluatePolicy({ minTrustScore: 0.95 }, state({ denylist: [SELLER] }));
+    const error = policyViolationError({ seller: SELLER, allowed: false, violations, challenge: false, verification: null });
+
+    expect(error.code).toBe(ErrorCodes.POLICY_VIOLATION);
+    expect(error.message).toMatch(/denylist.*\(and 1 more\)$/);
+    expect(error.details).toMatchObject({ seller: SELLER, rules: ['denylist', 'minTrustScore'] });
+  });
+});
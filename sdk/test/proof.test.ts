@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { ethers, Wallet } from 'ethers';
+import { challengeDigest, computeResponseHash, recoverChallengeSigner, signChallenge } from '../src/utils/proof';
+
+const ESCROW = '0x' + 'ab'.repeat(32);
+const seller = new Wallet(ethers.id('rook-proof-seller'));
+
+describe('challengeDigest', () => {
+  it('hashes the raw 32 escrow ID bytes', () => {
+    expect(challengeDigest(ESCROW)).toBe(ethers.keccak256(ethers.getBytes(ESCROW)));
+  });
+});
+
+describe('signChallenge', () => {
+  it('signs the digest bytes as an EIP-191 message the seller can be recovered from', async () => {
+    const signature = await signChallenge(seller, ESCROW);
+
+    expect(ethers.dataLength(signature)).toBe(65);
+    expect(recoverChallengeSigner(ESCROW, signature)).toBe(seller.address);
+    // The 32 digest bytes, not the 66-character hex string
+    expect(ethers.verifyMessage(ethers.getBytes(challengeDigest(ESCROW)), signature)).toBe(seller.address);
+    expect(ethers.verifyMessage(challengeDigest(ESCROW), signature)).not.toBe(seller.address);
+  });
+
+  it('does not recover the seller for another escrow', async () => {
+    const signature = await signChallenge(seller, ESCROW);
+    expect(recoverChallengeSigner('0x' + 'cd'.repeat(32), signature)).not.toBe(seller.address);
+  });
+});
+
+describe('computeResponseHash', () => {
+  it('packs escrowId, signature and a 32-byte timestamp as RookEscrow does', async () => {
+    const signature = await signChallenge(seller, ESCROW);
+    const timestamp = 1_700_000_000;
+    const packed = ethers.concat([ESCROW, signature, ethers.toBeHex(timestamp, 32)]);
+
+    expect(ethers.dataLength(packed)).toBe(32 + 65 + 32);
+    expect(computeResponseHash(ESCROW, signature, timestamp)).toBe(ethers.keccak256(packed));
+    expect(computeResponseHash(ESCROW, signature, BigInt(timestamp))).toBe(ethers.keccak256(packed));
+    expect(computeResponseHash(ESCROW, signature, timestamp + 1)).not.toBe(ethers.keccak256(packed));
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TransactionResponse, ethers } from 'ethers';
+import { TransactionQueue, isAlreadyKnownError, isNonceError, sentTransactionHash } from '../src/utils/queue';
+import { ErrorCodes, RookError } from '../src/utils/errors';
+
+const RAW_TX = '0x02f86c8221058085012a05f200825208940000000000000000000000000000000000000001808080c001a0'
+  + '11'.repeat(32) + 'a0' + '22'.repeat(32);
+
+function tx(hash: string, nonce: number): TransactionResponse {
+  return { hash, nonce } as TransactionResponse;
+}
+
+function rpcError(message: string, payload?: { method: string; params: unknown[] }) {
+  // ethers wraps unmapped eth_sendRawTransaction errors as "could not coalesce error"
+  return Object.assign(new Error('could not coalesce error'), {
+    code: 'UNKNOWN_ERROR',
+    error: { message },
+    payload
+  });
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('isNonceError', () => {
+  it('matches nonce and underpriced replacement errors', () => {
+    expect(isNonceError({ code: 'NONCE_EXPIRED' })).toBe(true);
+    expect(isNonceError({ code: 'REPLACEMENT_UNDERPRICED' })).toBe(true);
+    expect(isNonceError(rpcError('nonce too low'))).toBe(true);
+    expect(isNonceError(rpcError('replacement transaction underpriced'))).toBe(true);
+  });
+
+  it('does not match already-known sends', () => {
+    expect(isNonceError(rpcError('already known'))).toBe(false);
+    expect(isAlreadyKnownError(rpcError('already known'))).toBe(true);
+  });
+});
+
+describe('sentTransactionHash', () => {
+  it('hashes the raw transaction of eth_sendRawTransaction', () => {
+    const error = rpcError('already known', { method: 'eth_sendRawTransaction', params: [RAW_TX] });
+    expect(sentTransactionHash(error)).toBe(ethers.keccak256(RAW_TX));
+  });
+
+  it('returns null when the node signed the transaction', () => {
+    const error = rpcError('already known', { method: 'eth_sendTransaction', params: [{ to: ethers.ZeroAddress }] });
+    expect(sentTransactionHash(error)).toBeNull();
+  });
+});
+
+describe('TransactionQueue', () => {
+  it('assigns consecutive nonces from the pending count', async () => {
+    const fetchNonce = vi.fn(async () => 7);
+    const queue = new TransactionQueue(fetchNonce, async () => null);
+
+    const [first, second] = await Promise.all([
+      queue.submit('first', async (nonce) => tx('0x01', nonce)),
+      queue.submit('second', async (nonce) => tx('0x02', nonce))
+    ]);
+
+    expect([first.nonce, second.nonce]).toEqual([7, 8]);
+    expect(fetchNonce).toHaveBeenCalledTimes(1);
+    expect(queue.getState()).toMatchObject({ queued: 0, nextNonce: 9 });
+    expect(queue.getState().pending.map((p) => p.hash)).toEqual(['0x01', '0x02']);
+  });
+
+  it('resyncs the nonce and retries after a nonce error', async () => {
+    const fetchNonce = vi.fn().mockResolvedValueOnce(3).mockResolvedValueOnce(5);
+    const queue = new TransactionQueue(fetchNonce, async () => null);
+    const send = vi.fn()
+      .mockRejectedValueOnce(rpcError('nonce too low'))
+      .mockImplementation(async (nonce: number) => tx('0x05', nonce));
+
+    const sent = await queue.submit('op', send);
+
+    expect(send.mock.calls.map(([nonce]) => nonce)).toEqual([3, 5]);
+    expect(sent.nonce).toBe(5);
+  });
+
+  it('gives up after maxRetries nonce errors', async () => {
+    const queue = new TransactionQueue(async () => 1, async () => null, 2);
+    const send = vi.fn().mockRejectedValue(rpcError('nonce too low'));
+
+    await expect(queue.submit('op', send)).rejects.toThrow('could not coalesce error');
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(queue.getState().nextNonce).toBeNull();
+  });
+
+  it('returns the original transaction for an already-known send without re-sending', async () => {
+    const hash = ethers.keccak256(RAW_TX);
+    const fetchTransaction = vi.fn(async (h: string) => tx(h, 4));
+    const queue = new TransactionQueue(async () => 4, fetchTransaction);
+    const send = vi.fn().mockRejectedValue(
+      rpcError('already known', { method: 'eth_sendRawTransaction', params: [RAW_TX] })
+    );
+
+    const sent = await queue.submit('op', send);
+
+    expect(sent.hash).toBe(hash);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(fetchTransaction).toHaveBeenCalledWith(hash);
+    expect(queue.getState()).toMatchObject({ nextNonce: 5, pending: [{ hash, nonce: 4, operation: 'op' }] });
+  });
+
+  it('reports an already-known send the node does not return as pending', async () => {
+    const hash = ethers.keccak256(RAW_TX);
+    const queue = new TransactionQueue(async () => 4, async () => null);
+    const send = vi.fn().mockRejectedValue(
+      rpcError('already known', { method: 'eth_sendRawTransaction', params: [RAW_TX] })
+    );
+
+    const error = await queue.submit('op', send).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RookError);
+    expect(error.code).toBe(ErrorCodes.NETWORK_ERROR);
+    expect(error.details).toMatchObject({ txHash: hash, nonce: 4, pending: true });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.getState().nextNonce).toBe(5);
+  });
+
+  it('drops a job aborted while queued without sending it', async () => {
+    const queue = new TransactionQueue(async () => 0, async () => null);
+    const blocker = deferred<TransactionResponse>();
+    const first = queue.submit('first', () => blocker.promise);
+
+    const controller = new AbortController();
+    const send = vi.fn(async (nonce: number) => tx('0x02', nonce));
+    const second = queue.submit('second', send, controller.signal);
+    controller.abort();
+
+    await expect(second).rejects.toMatchObject({ code: ErrorCodes.ABORTED });
+    expect(queue.getState().queued).toBe(0);
+
+    blocker.resolve(tx('0x01', 0));
+    await first;
+    await queue.submit('third', async (nonce) => tx('0x03', nonce));
+    expect(send).not.toHaveBeenCalled();
+    expect(queue.getState().nextNonce).toBe(2);
+  });
+
+  it('ignores an abort once sending has started', async () => {
+    const queue = new TransactionQueue(async () => 0, async () => null);
+    const sending = deferred<TransactionResponse>();
+    const controller = new AbortController();
+    let started = false;
+
+    const sent = queue.submit('op', () => {
+      started = true;
+      return sending.promise;
+    }, controller.signal);
+    await vi.waitFor(() => expect(started).toBe(true));
+    controller.abort();
+    sending.resolve(tx('0x01', 0));
+
+    await expect(sent).resolves.toMatchObject({ hash: '0x01' });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ResolverRegistry } from '../src/utils/resolvers';
+import { ErrorCodes } from '../src/utils/errors';
+import { AgentResolver } from '../src/types';
+
+const SELLER = '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B';
+
+function resolver(name: string, resolve: AgentResolver['resolve']): AgentResolver {
+  return { name, supports: (id) => id.startsWith('@'), resolve };
+}
+
+describe('ResolverRegistry.resolve', () => {
+  it('returns checksummed addresses for raw and resolved names', async () => {
+    const registry = new ResolverRegistry([resolver('lower', async () => SELLER.toLowerCase())]);
+
+    expect(await registry.resolve(SELLER.toLowerCase())).toBe(SELLER);
+    expect(await registry.resolve('@seller')).toBe(SELLER);
+    expect(await registry.resolve('@SELLER')).toBe(SELLER);
+  });
+
+  it('falls through failing resolvers and reports the last failure', async () => {
+    const registry = new ResolverRegistry([
+      resolver('down', async () => { throw Object.assign(new Error('long message'), { shortMessage: 'timeout' }); })
+    ]);
+    await expect(registry.resolve('@seller'))
+      .rejects.toMatchObject({ code: ErrorCodes.NETWORK_ERROR, message: 'Could not resolve @seller: timeout' });
+
+    registry.register(resolver('odd', async () => { throw 'refused'; }));
+    await expect(registry.resolve('@seller'))
+      .rejects.toMatchObject({ code: ErrorCodes.NETWORK_ERROR, message: 'Could not resolve @seller: timeout' });
+
+    registry.unregister('down');
+    await expect(registry.resolve('@seller'))
+      .rejects.toMatchObject({ code: ErrorCodes.NETWORK_ERROR, message: 'Could not resolve @seller: refused' });
+
+    registry.register(resolver('found', async () => SELLER));
+    expect(await registry.resolve('@seller')).toBe(SELLER);
+  });
+
+  it('fails with INVALID_AGENT when no resolver knows the name', async () => {
+    const registry = new ResolverRegistry([resolver('empty', async () => null)]);
+
+    await expect(registry.resolve('@nobody')).rejects.toMatchObject({ code: ErrorCodes.INVALID_AGENT });
+    await expect(registry.resolve('nobody')).rejects.toMatchObject({ code: ErrorCodes.INVALID_AGENT });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { AbiCoder, Interface, id } from 'ethers';
+import { contractRevertError, decodeContractError, decodeRevertData, findRevertData } from '../src/utils/revert';
+import { ErrorCodes, RookError } from '../src/utils/errors';
+import RookEscrowABI from '../src/abi/RookEscrow.json';
+import RookOracleABI from '../src/abi/RookOracle.json';
+
+const escrow = new Interface(RookEscrowABI);
+const oracle = new Interface(RookOracleABI);
+
+const reasonData = (reason: string) => escrow.encodeErrorResult('Error', [reason]);
+const panicData = (code: number) => escrow.encodeErrorResult('Panic', [code]);
+
+describe('findRevertData', () => {
+  it('finds revert data wherever ethers and the node put it', () => {
+    const data = escrow.encodeErrorResult('EscrowNotActive', []);
+
+    expect(findRevertData({ data })).toBe(data);
+    expect(findRevertData({ error: { data } })).toBe(data);
+    expect(findRevertData({ info: { error: { data } } })).toBe(data);
+    expect(findRevertData({ error: { error: { data } } })).toBe(data);
+    expect(findRevertData({ error: { data: { data } } })).toBe(data);
+  });
+
+  it('ignores empty and non-hex data', () => {
+    expect(findRevertData({ data: '0x' })).toBeNull();
+    expect(findRevertData({ data: 'execution reverted' })).toBeNull();
+    expect(findRevertData(new Error('timeout'))).toBeNull();
+  });
+});
+
+describe('decodeRevertData', () => {
+  it('attributes custom errors to the contract that declares them', () => {
+    expect(decodeRevertData(escrow.encodeErrorResult('BelowThreshold', []))).toMatchObject({
+      contract: 'RookEscrow',
+      description: { name: 'BelowThreshold' }
+    });
+    expect(decodeRevertData(oracle.encodeErrorResult('StaleScore', []))).toMatchObject({
+      contract: 'RookOracle',
+      description: { name: 'StaleScore' }
+    });
+  });
+
+  it('leaves built-in reverts without a contract', () => {
+    expect(decodeRevertData(reasonData('nope'))?.contract).toBeUndefined();
+    expect(decodeRevertData(panicData(0x11))?.contract).toBeUndefined();
+  });
+});
+
+describe('decodeContractError', () => {
+  it('maps custom errors to SDK codes with structured details', () => {
+    const data = escrow.encodeErrorResult('ChallengeCooldownActive', []);
+    const error = decodeContractError({ code: 'CALL_EXCEPTION', data }, 'challenge');
+
+    expect(error).toBeInstanceOf(RookError);
+    expect(error?.code).toBe(ErrorCodes.CHALLENGE_COOLDOWN_ACTIVE);
+    expect(error?.message).toBe('challenge failed: Challenge cooldown is still active (ChallengeCooldownActive)');
+    expect(error?.details).toEqual({
+      contract: 'RookEscrow',
+      error: 'ChallengeCooldownActive',
+      args: {},
+      selector: id('ChallengeCooldownActive()').slice(0, 10),
+      operation: 'challenge'
+    });
+  });
+
+  it('maps known require() reasons and keeps other reasons as reverts', () => {
+    const paused = decodeContractError({ data: reasonData('Pausable: paused') }, 'createEscrow');
+    expect(paused?.code).toBe(ErrorCodes.CONTRACT_PAUSED);
+    expect(paused?.details).toMatchObject({ error: 'Error', args: { '0': 'Pausable: paused' } });
+
+    const other = decodeContractError({ data: reasonData('custom reason') }, 'createEscrow');
+    expect(other?.code).toBe(ErrorCodes.CONTRACT_REVERT);
+    expect(other?.message).toBe('createEscrow failed: custom reason');
+  });
+
+  it('uses the reason ethers already decoded when there is no data', () => {
+    const error = decodeContractError(
+      { code: 'CALL_EXCEPTION', reason: 'ERC20: transfer amount exceeds balance' },
+      'createEscrow'
+    );
+    expect(error?.code).toBe(ErrorCodes.INSUFFICIENT_BALANCE);
+    expect(error?.details).toMatchObject({ error: 'Error', selector: '0x08c379a0' });
+  });
+
+  it('reports panics and unknown selectors as contract reverts', () => {
+    const panic = decodeContractError({ data: panicData(0x11) }, 'release');
+    expect(panic?.code).toBe(ErrorCodes.CONTRACT_REVERT);
+    expect(panic?.message).toBe('release failed: panic 0x11');
+
+    const unknown = decodeContractError({ data: '0xdeadbeef' + AbiCoder.defaultAbiCoder().encode(['uint256'], [1]).slice(2) }, 'release');
+    expect(unknown?.code).toBe(ErrorCodes.CONTRACT_REVERT);
+    expect(unknown?.details).toMatchObject({ error: 'Unknown', selector: '0xdeadbeef' });
+  });
+
+  it('returns null for errors without a revert and passes RookErrors through', () => {
+    expect(decodeContractError(new Error('socket hang up'), 'release')).toBeNull();
+    expect(decodeContractError({ code: 'CALL_EXCEPTION', reason: 'unmapped' }, 'release')).toBeNull();
+
+    const rookError = new RookError(ErrorCodes.NO_SIGNER, 'no signer');
+    expect(decodeContractError(rookError, 'release')).toBe(rookError);
+  });
+});
+
+describe('contractRevertError', () => {
+  it('builds the same error a decoded revert would', () => {
+    const decoded = decodeContractError({ data: escrow.encodeErrorResult('EscrowNotActive', []) }, 'release');
+    const simulated = contractRevertError('EscrowNotActive', 'release');
+
+    expect(simulated.code).toBe(decoded?.code);
+    expect(simulated.message).toBe(decoded?.message);
+    expect(simulated.details).toEqual(decoded?.details);
+  });
+
+  it('builds require() reasons and oracle errors', () => {
+    expect(contractRevertError('Pausable: paused', 'release').code).toBe(ErrorCodes.CONTRACT_PAUSED);
+    expect(contractRevertError('StaleScore', 'createEscrow', 'RookOracle').details).toMatchObject({
+      contract: 'RookOracle',
+      selector: id('StaleScore()').slice(0, 10)
+    });
+  });
+
+  it('refuses errors the contract does not declare', () => {
+    expect(() => contractRevertError('StaleScore', 'release')).toThrow('RookEscrow has no error StaleScore');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FallbackProvider, Network } from 'ethers';
+import { RookRpcProvider, createRpcProvider, fetchChainIds, isRateLimited } from '../src/utils/rpc';
+import { ErrorCodes } from '../src/utils/errors';
+import { RpcErrorEvent } from '../src/types';
+
+const NETWORK = Network.from(84532);
+
+type Reply = { status?: number; result?: unknown; error?: { code: number; message: string } };
+
+interface TestEndpoint {
+  url: string;
+  methods: string[];
+  reply: (method: string) => Reply;
+}
+
+const servers: http.Server[] = [];
+const providers: Array<{ destroy(): void }> = [];
+
+afterEach(async () => {
+  providers.splice(0).forEach((provider) => provider.destroy());
+  await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+/**
+ * Local JSON-RPC endpoint answering every request in a batch with `reply`
+ */
+async function endpoint(reply: (method: string) => Reply): Promise<TestEndpoint> {
+  const state: TestEndpoint = { url: '', methods: [], reply };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const requests: Array<{ id: number; method: string }> = Array.isArray(payload) ? payload : [payload];
+      const replies = requests.map((request) => {
+        state.methods.push(request.method);
+        return { id: request.id, ...state.reply(request.method) };
+      });
+      res.statusCode = replies.find((r) => r.status)?.status ?? 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(requests.map((request, i) => {
+        const { status, ...rest } = replies[i];
+        return { jsonrpc: '2.0', id: request.id, ...rest };
+      })));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  state.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return state;
+}
+
+const ok = (result: unknown) => () => ({ result });
+const down = () => ({ status: 500 });
+
+function provider(endpoints: TestEndpoint[], policy: ConstructorParameters<typeof RookRpcProvider>[2] = {}) {
+  const rpc = new RookRpcProvider(endpoints.map((e) => e.url), NETWORK, { retries: 0, retryDelay: 1, ...policy });
+  providers.push(rpc);
+  return rpc;
+}
+
+describe('isRateLimited', () => {
+  it('recognizes HTTP 429 and rate-limit errors', () => {
+    expect(isRateLimited({ info: { response: { statusCode: 429 } } })).toBe(true);
+    expect(isRateLimited({ error: { code: -32005, message: 'limit' } })).toBe(true);
+    expect(isRateLimited(new Error('Too Many Requests'))).toBe(true);
+    expect(isRateLimited(new Error('execution reverted'))).toBe(false);
+  });
+});
+
+describe('RookRpcProvider', () => {
+  it('fails over to the next endpoint and reports the failure', async () => {
+    const primary = await endpoint(down);
+    const backup = await endpoint(ok('0x10'));
+    const errors: RpcErrorEvent[] = [];
+    const rpc = provider([primary, backup], { onError: (event) => errors.push(event) });
+
+    expect(await rpc.send('eth_blockNumber', [])).toBe('0x10');
+    expect(primary.methods).toEqual(['eth_blockNumber']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ endpoint: primary.url, methods: ['eth_blockNumber'], failures: 1, ejected: false });
+  });
+
+  it('ejects an endpoint after repeated failures and skips it', async () => {
+    const primary = await endpoint(down);
+    const backup = await endpoint(ok('0x10'));
+    const rpc = provider([primary, backup], { ejectAfterFailures: 2, ejectionPeriod: 60000 });
+
+    await rpc.send('eth_blockNumber', []);
+    await rpc.send('eth_chainId', []);
+    expect(rpc.getEndpointHealth()[0].ejectedUntil).not.toBeNull();
+
+    await rpc.send('eth_gasPrice', []);
+    expect(primary.methods).toEqual(['eth_blockNumber', 'eth_chainId']);
+    expect(backup.methods).toEqual(['eth_blockNumber', 'eth_chainId', 'eth_gasPrice']);
+  });
+
+  it('retries reads with backoff once every endpoint has failed', async () => {
+    let calls = 0;
+    const flaky = await endpoint(() => (++calls < 3 ? { status: 500 } : { result: '0x1' }));
+    const rpc = provider([flaky], { retries: 3, ejectAfterFailures: 10 });
+
+    expect(await rpc.send('eth_blockNumber', [])).toBe('0x1');
+    expect(flaky.methods).toHaveLength(3);
+  });
+
+  it('treats JSON-RPC errors as results, not endpoint failures', async () => {
+    const node = await endpoint(() => ({ error: { code: 3, message: 'execution reverted' } }));
+    const errors: RpcErrorEvent[] = [];
+    const rpc = provider([node], { onError: (event) => errors.push(event) });
+
+    await expect(rpc.send('eth_call', [{}, 'latest'])).rejects.toThrow();
+    expect(errors).toHaveLength(0);
+    expect(rpc.getEndpointHealth()[0].failures).toBe(0);
+  });
+
+  it('never resends a broadcast that failed on the endpoint', async () => {
+    const primary = await endpoint(down);
+    const backup = await endpoint(ok('0x' + '11'.repeat(32)));
+    const rpc = provider([primary, backup], { retries: 3 });
+
+    await expect(rpc.send('eth_sendRawTransaction', ['0x00'])).rejects.toThrow();
+    expect(primary.methods).toEqual(['eth_sendRawTransaction']);
+    expect(backup.methods).toEqual([]);
+  });
+
+  it('fails a broadcast over when the endpoint rate-limited it', async () => {
+    const primary = await endpoint(() => ({ status: 429 }));
+    const backup = await endpoint(ok('0x' + '11'.repeat(32)));
+    const rpc = provider([primary, backup]);
+
+    expect(await rpc.send('eth_sendRawTransaction', ['0x00'])).toBe('0x' + '11'.repeat(32));
+    expect(backup.methods).toEqual(['eth_sendRawTransaction']);
+  });
+});
+
+describe('createRpcProvider', () => {
+  it('uses a failover provider for a quorum of 1', () => {
+    const rpc = createRpcProvider(['http://127.0.0.1:1', 'http://127.0.0.1:2'], NETWORK);
+    providers.push(rpc as RookRpcProvider);
+    expect(rpc).toBeInstanceOf(RookRpcProvider);
+  });
+
+  it('refuses a quorum above the total endpoint weight', () => {
+    expect(() => createRpcProvider(['http://127.0.0.1:1', 'http://127.0.0.1:2'], NETWORK, 3))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_NETWORK }));
+  });
+
+  it('reads the chain ID of every endpoint in quorum mode', async () => {
+    const first = await endpoint(ok('0x14a34'));
+    const second = await endpoint(ok('0x2105'));
+    const rpc = createRpcProvider([first.url, second.url], NETWORK, 2);
+    providers.push(rpc as FallbackProvider);
+
+    expect(rpc).toBeInstanceOf(FallbackProvider);
+    expect(await fetchChainIds(rpc)).toEqual([84532n, 8453n]);
+  });
+});